@@ -0,0 +1,153 @@
+/**
+ * Offline subcommands: status, verify, rebuild-site, history, diff
+ * Each handler resolves the backup directory, prints its report and returns an exit code
+ */
+
+import { join } from 'path';
+import { openBackup, summarizeBackup, verifyBackup } from '../core/inspect.js';
+import { resolveDiff, formatDiffText } from '../core/diff.js';
+import { generateSite, writeWhatsNewPage } from '../site/index.js';
+import { updateManifest } from '../manifest/io.js';
+import { getLogger } from '../utils/logger.js';
+import { InvalidInputError } from '../utils/errors.js';
+import { generateMediaFilename } from '../utils/paths.js';
+import { parseProfileInput } from '../vsco/url.js';
+import type { BackupRun } from '../manifest/types.js';
+import type { DiffOptions, InspectOptions, RebuildSiteOptions } from './types.js';
+
+/** Exit code when verify finds missing or invalid media (matches DownloadError) */
+const VERIFY_FAILED_EXIT_CODE = 5;
+
+function resolveBackupRoot(profile: string, options: InspectOptions): string {
+  try {
+    const { username } = parseProfileInput(profile);
+    return join(options.outRoot, username);
+  } catch {
+    throw InvalidInputError.fromInvalidUrl(profile);
+  }
+}
+
+function formatRun(run: BackupRun): string {
+  const upstream = [
+    run.edited_content_count ? `${run.edited_content_count} edited` : '',
+    run.deleted_upstream_count ? `${run.deleted_upstream_count} removed upstream` : '',
+  ].filter(Boolean);
+  const counts = [
+    `${run.new_content_count} new, ${run.missing_content_count} missing, ${run.invalid_content_count} invalid, ${run.downloaded_items.length} downloaded`,
+    ...upstream,
+  ].join(', ');
+  const error = run.error_message ? ` - ${run.error_message}` : '';
+  const sweep = run.full_sweep === false ? ' (partial sweep)' : '';
+  return `${run.ts}  ${run.status.padEnd(7)}  ${counts}${sweep}${error}`;
+}
+
+export async function runStatus(profile: string, options: InspectOptions): Promise<number> {
+  const backupRoot = resolveBackupRoot(profile, options);
+  const status = summarizeBackup(await openBackup(backupRoot));
+
+  console.log(`Profile: ${status.username} (${status.profileUrl})`);
+  if (status.displayName) {
+    console.log(`Display name: ${status.displayName}`);
+  }
+  if (status.siteId) {
+    console.log(`Site ID: ${status.siteId}`);
+  }
+  console.log(`Backup root: ${backupRoot}`);
+  console.log(`Photos: ${status.photoCount}`);
+  console.log(`Videos: ${status.videoCount}`);
+  console.log(`Galleries: ${status.galleryCount}`);
+  console.log(`Blog posts: ${status.blogPostCount}`);
+  console.log(`Removed from VSCO: ${status.deletedUpstreamCount}`);
+  console.log(`Edited on VSCO: ${status.editedCount}`);
+  console.log(`Profile changes: ${status.profileRevisionCount}`);
+  console.log(`Runs: ${status.runCount}`);
+  console.log(`Last run: ${status.lastRun ? formatRun(status.lastRun) : 'none'}`);
+
+  return 0;
+}
+
+export async function runVerify(profile: string, options: InspectOptions): Promise<number> {
+  const backupRoot = resolveBackupRoot(profile, options);
+  const manifest = await openBackup(backupRoot);
+  const result = await verifyBackup(backupRoot, manifest);
+
+  if (result.updated) {
+    await updateManifest(backupRoot, manifest);
+  }
+
+  for (const photo of result.missing) {
+    console.log(`MISSING  ${photo.id}  ${generateMediaFilename(photo.id, photo.content_type)}`);
+  }
+  for (const photo of result.invalid) {
+    const reason = result.invalidReasons.get(photo.id);
+    console.log(`INVALID  ${photo.id}  ${generateMediaFilename(photo.id, photo.content_type)}  (${reason})`);
+  }
+
+  for (const photo of result.lost) {
+    const reason = result.invalidReasons.get(photo.id) ?? 'missing';
+    console.log(`LOST     ${photo.id}  ${generateMediaFilename(photo.id, photo.content_type)}  (${reason}, removed from VSCO)`);
+  }
+
+  const problems = result.missing.length + result.invalid.length;
+  console.log(
+    `Checked ${result.checked} media files: ${result.missing.length} missing, ${result.invalid.length} invalid` +
+      (result.lost.length > 0 ? `, ${result.lost.length} lost` : '')
+  );
+  if (problems > 0) {
+    console.log('Run a backup again to re-download them.');
+  }
+  if (result.lost.length > 0) {
+    console.log('Lost photos were removed from VSCO and cannot be downloaded again.');
+  }
+
+  return problems + result.lost.length > 0 ? VERIFY_FAILED_EXIT_CODE : 0;
+}
+
+export async function runRebuildSite(profile: string, options: RebuildSiteOptions): Promise<number> {
+  getLogger({ verbose: options.verbose });
+  const backupRoot = resolveBackupRoot(profile, options);
+
+  await openBackup(backupRoot);
+  await generateSite(backupRoot, {
+    pageSize: options.pageSize,
+    theme: options.theme,
+    markRemoved: options.markRemoved,
+  });
+
+  console.log(`Site rebuilt in ${backupRoot}`);
+  return 0;
+}
+
+export async function runHistory(profile: string, options: InspectOptions): Promise<number> {
+  const backupRoot = resolveBackupRoot(profile, options);
+  const manifest = await openBackup(backupRoot);
+
+  if (manifest.backup_runs.length === 0) {
+    console.log('No backup runs recorded.');
+    return 0;
+  }
+
+  for (const run of manifest.backup_runs) {
+    console.log(`${run.run_id}  ${formatRun(run)}`);
+  }
+
+  return 0;
+}
+
+export async function runDiff(profile: string, options: DiffOptions): Promise<number> {
+  getLogger({ verbose: options.verbose });
+  const backupRoot = resolveBackupRoot(profile, options);
+  const manifest = await openBackup(backupRoot);
+  const diff = await resolveDiff(backupRoot, manifest, options.from, options.to);
+
+  if (options.format === 'json') {
+    console.log(JSON.stringify(diff, null, 2));
+  } else if (options.format === 'html') {
+    const pagePath = await writeWhatsNewPage(backupRoot, diff, { theme: options.theme });
+    console.log(`What's new page written to ${pagePath}`);
+  } else {
+    console.log(formatDiffText(diff));
+  }
+
+  return 0;
+}
@@ -8,9 +8,13 @@ import type { CliOptions } from './types.js';
 
 describe('CLI option plumbing', () => {
   let capturedOptions: CliOptions | null = null;
+  let capturedCommand: string | null = null;
+  let capturedInspectOptions: Record<string, unknown> | null = null;
 
   beforeEach(() => {
     capturedOptions = null;
+    capturedCommand = null;
+    capturedInspectOptions = null;
   });
 
   function createTestProgram() {
@@ -19,8 +23,11 @@ describe('CLI option plumbing', () => {
     program
       .name('vsco-backup')
       .description('Backup a VSCO profile to a local static site')
-      .version('0.1.0')
-      .argument('<profileUrl>', 'VSCO profile URL (e.g., https://vsco.co/username)')
+      .version('0.1.0');
+
+    program
+      .command('backup', { isDefault: true })
+      .argument('[profileUrl]', 'VSCO profile URL (e.g., https://vsco.co/username)')
       .option('--out-root <dir>', 'Output root directory', '.')
       .option('--verbose', 'Enable verbose logging')
       .option('--ignore-robots', 'Bypass robots.txt restrictions (use responsibly)')
@@ -28,10 +35,49 @@ describe('CLI option plumbing', () => {
       .option('--max-items <number>', 'Maximum items to discover (default: no limit)', parseInt)
       .option('--timeout-ms <number>', 'Navigation and selector timeout in milliseconds (default: 90000, max: 300000)', (value: string) => parseInt(value, 10))
       .option('--headful', 'Run browser in headful mode (default: headless)')
-      .action((_profileUrl: string, options: CliOptions) => {
+      .option('--fail-threshold <ratio>', 'Fail the run when more than this share of downloads fail (default: 0.5)', parseFloat)
+      .option('--profiles <file>', 'Back up every profile listed in a .txt, .json or .yaml file')
+      .option('--concurrency <number>', 'Downloads in flight at once (default: 2)', (value: string) => parseInt(value, 10))
+      .option('--requests-per-second <number>', 'Sustained requests per second per host (default: 1)', parseFloat)
+      .option('--resume [runId]', 'Continue an interrupted run (default: the most recent one) without re-scrolling the profile')
+      .option('--page-size <number>', 'Photos per page in the generated archive (default: 48)', (value: string) => parseInt(value, 10))
+      .option('--theme <dir>', 'Theme directory with template, partial and asset overrides for the generated site')
+      .option('--mark-removed', 'Badge photos that were removed from VSCO in the generated site')
+      .option('--record-fixtures <dir>', 'Save every page, API response and media header seen to <dir>/<username>.har.json')
+      .option('--replay-fixtures <dir>', 'Answer every request from bundles recorded with --record-fixtures (no network)')
+      .option('--base-url <url>', 'Scrape this origin instead of https://vsco.co (e.g. a local mock server)', (value: string) => new URL(value).origin)
+      .option('--incremental [count]', 'Stop discovery after <count> consecutive already backed-up photos (default: 24)', (value: string) => parseInt(value, 10))
+      .option('--full-sweep-every <runs>', 'With --incremental, walk the whole profile once every <runs> runs (default: 10)', (value: string) => parseInt(value, 10))
+      .action((_profileUrl: string | undefined, options: CliOptions) => {
+        capturedCommand = 'backup';
         capturedOptions = options;
       });
 
+    for (const name of ['status', 'verify', 'rebuild-site', 'history', 'diff']) {
+      const command = program
+        .command(name)
+        .argument('<profile>', 'VSCO profile URL or username')
+        .option('--out-root <dir>', 'Output root directory', '.')
+        .option('--verbose', 'Enable verbose logging')
+        .action((_profile: string, options: Record<string, unknown>) => {
+          capturedCommand = name;
+          capturedInspectOptions = options;
+        });
+      if (name === 'rebuild-site') {
+        command
+          .option('--page-size <number>', 'Photos per page in the generated archive (default: 48)', (value: string) => parseInt(value, 10))
+          .option('--theme <dir>', 'Theme directory with template, partial and asset overrides for the generated site')
+          .option('--mark-removed', 'Badge photos that were removed from VSCO in the generated site');
+      }
+      if (name === 'diff') {
+        command
+          .option('--from <runId>', 'Older run (default: the run before the latest one)')
+          .option('--to <runId>', 'Newer run, or "current" for the manifest as it is now', 'current')
+          .option('--format <format>', 'Output format: text, json or html (default: text)', 'text')
+          .option('--theme <dir>', 'Theme directory for the html format');
+      }
+    }
+
     return program;
   }
 
@@ -69,6 +115,22 @@ describe('CLI option plumbing', () => {
     expect(capturedOptions?.headful).toBeUndefined();
   });
 
+  it('should parse --fail-threshold as a ratio', () => {
+    const program = createTestProgram();
+    program.parse(['node', 'test', 'https://vsco.co/testuser', '--fail-threshold', '0.25']);
+
+    expect(capturedOptions).not.toBeNull();
+    expect(capturedOptions?.failThreshold).toBe(0.25);
+  });
+
+  it('should accept --profiles without a profile URL', () => {
+    const program = createTestProgram();
+    program.parse(['node', 'test', '--profiles', 'profiles.yaml']);
+
+    expect(capturedOptions).not.toBeNull();
+    expect(capturedOptions?.profiles).toBe('profiles.yaml');
+  });
+
   it('should parse all three options together', () => {
     const program = createTestProgram();
     program.parse([
@@ -223,4 +285,85 @@ describe('CLI option plumbing', () => {
 
     expect(backupOptions.headless).toBe(false);
   });
+
+  it('should run backup by default and dispatch named subcommands', () => {
+    createTestProgram().parse(['node', 'test', 'https://vsco.co/testuser']);
+    expect(capturedCommand).toBe('backup');
+
+    createTestProgram().parse(['node', 'test', 'backup', 'https://vsco.co/testuser']);
+    expect(capturedCommand).toBe('backup');
+
+    createTestProgram().parse(['node', 'test', 'rebuild-site', 'testuser', '--out-root', '/tmp']);
+    expect(capturedCommand).toBe('rebuild-site');
+  });
+
+  it('should parse --concurrency and --requests-per-second', () => {
+    const program = createTestProgram();
+    program.parse(['node', 'test', 'https://vsco.co/testuser', '--concurrency', '4', '--requests-per-second', '0.5']);
+
+    expect(capturedOptions?.concurrency).toBe(4);
+    expect(capturedOptions?.requestsPerSecond).toBe(0.5);
+  });
+
+  it('should accept --resume with or without a run ID', () => {
+    createTestProgram().parse(['node', 'test', 'https://vsco.co/testuser', '--resume']);
+    expect(capturedOptions?.resume).toBe(true);
+
+    createTestProgram().parse(['node', 'test', 'https://vsco.co/testuser', '--resume', '1700000000000-abcd1234']);
+    expect(capturedOptions?.resume).toBe('1700000000000-abcd1234');
+  });
+
+  it('should parse --page-size for backup and rebuild-site', () => {
+    createTestProgram().parse(['node', 'test', 'https://vsco.co/testuser', '--page-size', '24']);
+    expect(capturedOptions?.pageSize).toBe(24);
+
+    createTestProgram().parse(['node', 'test', 'rebuild-site', 'testuser', '--page-size', '100']);
+    expect(capturedInspectOptions?.pageSize).toBe(100);
+  });
+
+  it('should parse --theme for backup and rebuild-site', () => {
+    createTestProgram().parse(['node', 'test', 'https://vsco.co/testuser', '--theme', './brand']);
+    expect(capturedOptions?.theme).toBe('./brand');
+
+    createTestProgram().parse(['node', 'test', 'rebuild-site', 'testuser', '--theme', './brand']);
+    expect(capturedInspectOptions?.theme).toBe('./brand');
+  });
+
+  it('should parse --mark-removed for backup and rebuild-site', () => {
+    createTestProgram().parse(['node', 'test', 'https://vsco.co/testuser', '--mark-removed']);
+    expect(capturedOptions?.markRemoved).toBe(true);
+
+    createTestProgram().parse(['node', 'test', 'rebuild-site', 'testuser', '--mark-removed']);
+    expect(capturedInspectOptions?.markRemoved).toBe(true);
+  });
+
+  it('should parse --record-fixtures and --replay-fixtures', () => {
+    createTestProgram().parse(['node', 'test', 'https://vsco.co/testuser', '--record-fixtures', './fixtures']);
+    expect(capturedOptions?.recordFixtures).toBe('./fixtures');
+
+    createTestProgram().parse(['node', 'test', 'https://vsco.co/testuser', '--replay-fixtures', './fixtures']);
+    expect(capturedOptions?.replayFixtures).toBe('./fixtures');
+  });
+
+  it('should parse --incremental with and without a count', () => {
+    createTestProgram().parse(['node', 'test', 'https://vsco.co/testuser', '--incremental']);
+    expect(capturedOptions?.incremental).toBe(true);
+
+    createTestProgram().parse(['node', 'test', 'https://vsco.co/testuser', '--incremental', '5', '--full-sweep-every', '3']);
+    expect(capturedOptions).toMatchObject({ incremental: 5, fullSweepEvery: 3 });
+  });
+
+  it('should parse --base-url as an origin', () => {
+    createTestProgram().parse(['node', 'test', 'https://vsco.co/testuser', '--base-url', 'http://127.0.0.1:8080/']);
+    expect(capturedOptions?.baseUrl).toBe('http://127.0.0.1:8080');
+  });
+
+  it('should parse diff run selection and format', () => {
+    createTestProgram().parse(['node', 'test', 'diff', 'testuser', '--from', 'run-1', '--format', 'json']);
+    expect(capturedCommand).toBe('diff');
+    expect(capturedInspectOptions).toMatchObject({ from: 'run-1', to: 'current', format: 'json' });
+
+    createTestProgram().parse(['node', 'test', 'diff', 'testuser', '--to', 'run-2']);
+    expect(capturedInspectOptions).toMatchObject({ to: 'run-2', format: 'text' });
+  });
 });
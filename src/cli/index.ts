@@ -1,34 +1,17 @@
 import { Command } from 'commander';
 import { join } from 'path';
-import type { CliOptions, CliResult } from './types.js';
+import type { CliOptions, CliResult, InspectOptions } from './types.js';
+import { runStatus, runVerify, runRebuildSite, runHistory, runDiff } from './commands.js';
 import { orchestrateBackup } from '../core/index.js';
+import { getBackupExitCode, runBatchBackup } from '../core/batch.js';
+import { readProfilesFile } from '../core/profiles-file.js';
+import { validateTheme } from '../site/index.js';
+import { DIFF_FORMATS } from '../core/diff.js';
+import { DEFAULT_FULL_SWEEP_EVERY, DEFAULT_KNOWN_STREAK } from '../core/incremental.js';
+import type { DiffFormat } from '../core/diff.js';
 import { getLogger } from '../utils/logger.js';
-
-function parseAndValidateUrl(urlString: string): { username: string; normalized: string } {
-  try {
-    const url = new URL(urlString);
-
-    if (url.hostname !== 'vsco.co') {
-      throw new Error(`Expected vsco.co domain, got ${url.hostname}`);
-    }
-
-    const pathname = url.pathname.replace(/^\//, '').replace(/\/$/, '');
-    if (!pathname) {
-      throw new Error('URL must include a username (e.g., https://vsco.co/username)');
-    }
-
-    const username = pathname.split('/')[0];
-    if (!username || !/^[a-zA-Z0-9_-]+$/.test(username)) {
-      throw new Error(`Invalid username format: ${username}`);
-    }
-
-    const normalized = `https://vsco.co/${username}`;
-    return { username, normalized };
-  } catch (err) {
-    const message = err instanceof Error ? err.message : String(err);
-    throw new Error(`Invalid VSCO profile URL: ${message}`);
-  }
-}
+import { getExitCode, InvalidInputError } from '../utils/errors.js';
+import { parseProfileUrl } from '../vsco/url.js';
 
 function parseAndValidateTimeout(value: string): number {
   const parsed = parseInt(value, 10);
@@ -56,14 +39,61 @@ function parseAndValidateTimeout(value: string): number {
   return parsed;
 }
 
+function parseAndValidatePositive(flag: string, value: string, integer: boolean): number {
+  const parsed = integer ? parseInt(value, 10) : parseFloat(value);
+
+  if (isNaN(parsed) || parsed <= 0 || (integer && String(parsed) !== value.trim())) {
+    throw new Error(`${flag} must be a positive ${integer ? 'integer' : 'number'}, got: ${value}`);
+  }
+
+  return parsed;
+}
+
+function parseAndValidateFailThreshold(value: string): number {
+  const parsed = parseFloat(value);
+
+  if (isNaN(parsed) || parsed < 0 || parsed > 1) {
+    throw new Error(`--fail-threshold must be a ratio between 0 and 1, got: ${value}`);
+  }
+
+  return parsed;
+}
+
+function parseDiffFormat(value: string): DiffFormat {
+  if (!DIFF_FORMATS.includes(value as DiffFormat)) {
+    throw new Error(`--format must be one of ${DIFF_FORMATS.join(', ')}, got: ${value}`);
+  }
+
+  return value as DiffFormat;
+}
+
+function parseBaseUrl(value: string): string {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error(`--base-url must be an http(s) URL, got: ${value}`);
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`--base-url must be an http(s) URL, got: ${value}`);
+  }
+
+  return url.origin;
+}
+
 function run(): void {
   const program = new Command();
 
   program
     .name('vsco-backup')
     .description('Backup a VSCO profile to a local static site')
-    .version('0.1.0')
-    .argument('<profileUrl>', 'VSCO profile URL (e.g., https://vsco.co/username)')
+    .version('0.1.0');
+
+  program
+    .command('backup', { isDefault: true })
+    .description('Discover, download and render a profile (default command)')
+    .argument('[profileUrl]', 'VSCO profile URL (e.g., https://vsco.co/username)')
     .option('--out-root <dir>', 'Output root directory', '.')
     .option('--verbose', 'Enable verbose logging')
     .option('--ignore-robots', 'Bypass robots.txt restrictions (use responsibly)')
@@ -71,9 +101,72 @@ function run(): void {
     .option('--max-items <number>', 'Maximum items to discover (default: no limit)', parseInt)
     .option('--timeout-ms <number>', 'Navigation and selector timeout in milliseconds (default: 90000, max: 300000)', (value: string) => parseAndValidateTimeout(value))
     .option('--headful', 'Run browser in headful mode (default: headless)')
-    .action(async (profileUrl: string, options: CliOptions) => {
+    .option('--fail-threshold <ratio>', 'Fail the run when more than this share of downloads fail (default: 0.5)', (value: string) => parseAndValidateFailThreshold(value))
+    .option('--profiles <file>', 'Back up every profile listed in a .txt, .json or .yaml file')
+    .option('--concurrency <number>', 'Downloads in flight at once (default: 2)', (value: string) => parseAndValidatePositive('--concurrency', value, true))
+    .option('--requests-per-second <number>', 'Sustained requests per second per host (default: 1)', (value: string) => parseAndValidatePositive('--requests-per-second', value, false))
+    .option('--resume [runId]', 'Continue an interrupted run (default: the most recent one) without re-scrolling the profile')
+    .option('--page-size <number>', 'Photos per page in the generated archive (default: 48)', (value: string) => parseAndValidatePositive('--page-size', value, true))
+    .option('--theme <dir>', 'Theme directory with template, partial and asset overrides for the generated site')
+    .option('--mark-removed', 'Badge photos that were removed from VSCO in the generated site')
+    .option('--record-fixtures <dir>', 'Save every page, API response and media header seen to <dir>/<username>.har.json')
+    .option('--replay-fixtures <dir>', 'Answer every request from bundles recorded with --record-fixtures (no network)')
+    .option('--base-url <url>', 'Scrape this origin instead of https://vsco.co (e.g. a local mock server)', (value: string) => parseBaseUrl(value))
+    .option('--incremental [count]', `Stop discovery after <count> consecutive already backed-up photos (default: ${DEFAULT_KNOWN_STREAK})`, (value: string) => parseAndValidatePositive('--incremental', value, true))
+    .option('--full-sweep-every <runs>', `With --incremental, walk the whole profile once every <runs> runs (default: ${DEFAULT_FULL_SWEEP_EVERY})`, (value: string) => parseAndValidatePositive('--full-sweep-every', value, true))
+    .action(async (profileUrl: string | undefined, options: CliOptions) => {
       try {
-        const { username, normalized } = parseAndValidateUrl(profileUrl);
+        if (options.recordFixtures && options.replayFixtures) {
+          throw new InvalidInputError('Pass either --record-fixtures or --replay-fixtures, not both');
+        }
+        if (options.fullSweepEvery !== undefined && options.incremental === undefined) {
+          throw new InvalidInputError('--full-sweep-every only applies together with --incremental');
+        }
+        if (options.theme) {
+          await validateTheme(options.theme);
+        }
+        const knownStreak = options.incremental === true ? DEFAULT_KNOWN_STREAK : options.incremental;
+
+        if (options.profiles) {
+          if (profileUrl) {
+            throw new InvalidInputError(
+              'Pass either a profile URL or --profiles <file>, not both'
+            );
+          }
+          if (options.resume) {
+            throw new InvalidInputError('--resume applies to a single profile and cannot be combined with --profiles');
+          }
+
+          getLogger({ verbose: options.verbose });
+
+          const entries = await readProfilesFile(options.profiles);
+          const batch = await runBatchBackup(entries, options.outRoot, {
+            timeoutMs: options.timeoutMs,
+            maxScrolls: options.maxScrolls,
+            maxItems: options.maxItems,
+            headless: !options.headful,
+            failThreshold: options.failThreshold,
+            ignoreRobots: options.ignoreRobots,
+            concurrency: options.concurrency,
+            requestsPerSecond: options.requestsPerSecond,
+            pageSize: options.pageSize,
+            theme: options.theme,
+            markRemoved: options.markRemoved,
+            recordFixtures: options.recordFixtures,
+            replayFixtures: options.replayFixtures,
+            baseUrl: options.baseUrl,
+            knownStreak,
+            fullSweepEvery: options.fullSweepEvery
+          });
+
+          process.exit(batch.exitCode);
+        }
+
+        if (!profileUrl) {
+          throw InvalidInputError.fromMissingUrl();
+        }
+
+        const { username, normalized } = parseProfileUrl(profileUrl);
         const backupRoot = join(options.outRoot, username);
 
         const result: CliResult = {
@@ -101,31 +194,86 @@ function run(): void {
           if (options.headful) {
             console.log(`  Headful mode: enabled`);
           }
+          if (options.ignoreRobots) {
+            console.log(`  Ignore robots.txt: enabled`);
+          }
+          if (options.failThreshold !== undefined) {
+            console.log(`  Fail threshold: ${options.failThreshold}`);
+          }
         }
 
-        await orchestrateBackup(username, options.outRoot, {
+        const backup = await orchestrateBackup(username, options.outRoot, {
           timeoutMs: options.timeoutMs,
           maxScrollCycles: options.maxScrolls,
           maxItems: options.maxItems,
-          headless: !options.headful
+          headless: !options.headful,
+          failThreshold: options.failThreshold,
+          ignoreRobots: options.ignoreRobots,
+          concurrency: options.concurrency,
+          requestsPerSecond: options.requestsPerSecond,
+          resume: options.resume,
+          pageSize: options.pageSize,
+          theme: options.theme,
+          markRemoved: options.markRemoved,
+          recordFixtures: options.recordFixtures,
+          replayFixtures: options.replayFixtures,
+          baseUrl: options.baseUrl,
+          knownStreak,
+          fullSweepEvery: options.fullSweepEvery
         });
 
-        process.exit(0);
+        process.exit(getBackupExitCode(backup.status));
       } catch (err) {
         const message = err instanceof Error ? err.message : String(err);
         console.error(`Error: ${message}`);
-        console.error(`\nUsage: vsco-backup <profileUrl> [--out-root <dir>] [--verbose] [--timeout-ms <number>]`);
+        console.error(`\nUsage: vsco-backup <profileUrl | --profiles <file>> [--out-root <dir>] [--verbose] [--timeout-ms <number>]`);
         console.error(`Example: vsco-backup "https://vsco.co/foo" --out-root /tmp/vsco --timeout-ms 120000`);
-        process.exit(1);
+        process.exit(getExitCode(err));
       }
     });
 
-  program.parse(process.argv);
+  addInspectCommand(program, 'status', 'Show content counts and the last run of a backup', runStatus);
+  addInspectCommand(program, 'verify', 'Check media files on disk against the manifest (offline)', runVerify);
+  addInspectCommand(program, 'rebuild-site', 'Regenerate the static site from the manifest (offline)', runRebuildSite)
+    .option('--page-size <number>', 'Photos per page in the generated archive (default: 48)', (value: string) => parseAndValidatePositive('--page-size', value, true))
+    .option('--theme <dir>', 'Theme directory with template, partial and asset overrides for the generated site')
+    .option('--mark-removed', 'Badge photos that were removed from VSCO in the generated site');
+  addInspectCommand(program, 'history', 'List recorded backup runs with status and counts', runHistory);
+  addInspectCommand(program, 'diff', 'Show what was added, removed or changed between two runs (offline)', runDiff)
+    .option('--from <runId>', 'Older run (default: the run before the latest one)')
+    .option('--to <runId>', 'Newer run, or "current" for the manifest as it is now', 'current')
+    .option('--format <format>', 'Output format: text, json or html (default: text)', parseDiffFormat, 'text')
+    .option('--theme <dir>', 'Theme directory for the html format');
 
   if (!process.argv.slice(2).length) {
     program.outputHelp();
     process.exit(0);
   }
+
+  program.parse(process.argv);
+}
+
+function addInspectCommand(
+  program: Command,
+  name: string,
+  description: string,
+  handler: (profile: string, options: InspectOptions) => Promise<number>
+): Command {
+  return program
+    .command(name)
+    .description(description)
+    .argument('<profile>', 'VSCO profile URL or username')
+    .option('--out-root <dir>', 'Output root directory', '.')
+    .option('--verbose', 'Enable verbose logging')
+    .action(async (profile: string, options: InspectOptions) => {
+      try {
+        process.exit(await handler(profile, options));
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error(`Error: ${message}`);
+        process.exit(getExitCode(err));
+      }
+    });
 }
 
 run();
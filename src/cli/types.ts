@@ -2,6 +2,8 @@
  * CLI argument parsing and validation types
  */
 
+import type { DiffFormat } from '../core/diff.js';
+
 export interface CliOptions {
   outRoot: string;
   verbose: boolean;
@@ -10,6 +12,44 @@ export interface CliOptions {
   maxItems?: number;
   timeoutMs?: number;
   headful?: boolean;
+  failThreshold?: number;
+  profiles?: string;
+  concurrency?: number;
+  requestsPerSecond?: number;
+  resume?: boolean | string;
+  pageSize?: number;
+  theme?: string;
+  markRemoved?: boolean;
+  recordFixtures?: string;
+  replayFixtures?: string;
+  baseUrl?: string;
+  /** true when passed without a count */
+  incremental?: true | number;
+  fullSweepEvery?: number;
+}
+
+/**
+ * Options shared by the offline subcommands (status, verify, rebuild-site, history)
+ */
+export interface InspectOptions {
+  outRoot: string;
+  verbose?: boolean;
+}
+
+/**
+ * Options for rebuild-site
+ */
+export interface RebuildSiteOptions extends InspectOptions {
+  pageSize?: number;
+  theme?: string;
+  markRemoved?: boolean;
+}
+
+export interface DiffOptions extends InspectOptions {
+  from?: string;
+  to?: string;
+  format?: DiffFormat;
+  theme?: string;
 }
 
 export interface CliResult {
@@ -0,0 +1,158 @@
+import { getLogger } from '../utils/logger.js';
+import { getExitCode } from '../utils/errors.js';
+import { createHostRateLimiter } from '../utils/ratelimit.js';
+import { createVscoSession } from './session.js';
+import type { VscoSession } from './session.js';
+import { orchestrateBackup } from './index.js';
+import type { BackupOptions, BackupResult } from './index.js';
+import type { ProfileEntry, ProfileEntryOptions } from './profiles-file.js';
+
+export type BatchOutcome = 'success' | 'partial' | 'failed';
+
+export interface BatchProfileResult {
+  username: string;
+  outcome: BatchOutcome;
+  message?: string;
+  exitCode: number;
+}
+
+export interface BatchResult {
+  profiles: BatchProfileResult[];
+  exitCode: number;
+}
+
+export interface BatchOptions extends ProfileEntryOptions {
+  headless?: boolean;
+  concurrency?: number;
+  requestsPerSecond?: number;
+  pageSize?: number;
+  theme?: string;
+  markRemoved?: boolean;
+  recordFixtures?: string;
+  replayFixtures?: string;
+  baseUrl?: string;
+  knownStreak?: number;
+  fullSweepEvery?: number;
+}
+
+/** Exit code for a profile that finished with some failed downloads */
+const PARTIAL_EXIT_CODE = 5;
+
+/**
+ * Exit code for a finished backup: partial runs (some downloads failed) map to the download error code
+ * Shared by single-profile and batch runs so the same failures exit the same way
+ */
+export function getBackupExitCode(status: BackupResult['status']): number {
+  return status === 'partial' ? PARTIAL_EXIT_CODE : 0;
+}
+
+const OUTCOME_RANK: Record<BatchOutcome, number> = {
+  success: 0,
+  partial: 1,
+  failed: 2,
+};
+
+/**
+ * Exit code for the worst outcome in a batch
+ * A failed profile keeps its own error's exit code; partial maps to the download error code
+ */
+export function getBatchExitCode(results: BatchProfileResult[]): number {
+  let worst: BatchProfileResult | null = null;
+
+  for (const result of results) {
+    if (!worst || OUTCOME_RANK[result.outcome] > OUTCOME_RANK[worst.outcome]) {
+      worst = result;
+    }
+  }
+
+  return worst ? worst.exitCode : 0;
+}
+
+function logBatchSummary(results: BatchProfileResult[]): void {
+  const logger = getLogger();
+  const counts = { success: 0, partial: 0, failed: 0 };
+
+  logger.info('\n=== Batch Summary ===');
+  for (const result of results) {
+    counts[result.outcome]++;
+    const detail = result.message ? ` - ${result.message}` : '';
+    logger.info(`  ${result.outcome.toUpperCase().padEnd(7)} ${result.username}${detail}`);
+  }
+  logger.info(
+    `Profiles: ${results.length} (${counts.success} success, ${counts.partial} partial, ${counts.failed} failed)`
+  );
+}
+
+/**
+ * Back up every profile into <outRoot>/<username>
+ * One browser session and one rate limiter are shared across all profiles,
+ * and a failing profile does not stop the rest of the batch
+ */
+export async function runBatchBackup(
+  entries: ProfileEntry[],
+  outRoot: string,
+  options: BatchOptions = {}
+): Promise<BatchResult> {
+  const logger = getLogger();
+  const rateLimiter = createHostRateLimiter({ requestsPerSecond: options.requestsPerSecond });
+  const results: BatchProfileResult[] = [];
+  let session: VscoSession | null = null;
+
+  try {
+    session = await createVscoSession({ headless: options.headless });
+
+    for (const [index, entry] of entries.entries()) {
+      logger.info(`\n[${index + 1}/${entries.length}] Backing up ${entry.username}`);
+
+      const backupOptions: BackupOptions = {
+        timeoutMs: entry.timeoutMs ?? options.timeoutMs,
+        maxScrollCycles: entry.maxScrolls ?? options.maxScrolls,
+        maxItems: entry.maxItems ?? options.maxItems,
+        failThreshold: entry.failThreshold ?? options.failThreshold,
+        ignoreRobots: entry.ignoreRobots ?? options.ignoreRobots,
+        session,
+        rateLimiter,
+        concurrency: options.concurrency,
+        pageSize: options.pageSize,
+        theme: options.theme,
+        markRemoved: options.markRemoved,
+        recordFixtures: options.recordFixtures,
+        replayFixtures: options.replayFixtures,
+        baseUrl: options.baseUrl,
+        knownStreak: options.knownStreak,
+        fullSweepEvery: options.fullSweepEvery,
+      };
+
+      try {
+        const result = await orchestrateBackup(entry.username, outRoot, backupOptions);
+        results.push(
+          result.status === 'partial'
+            ? {
+                username: entry.username,
+                outcome: 'partial',
+                message: `${result.failedCount} failed downloads`,
+                exitCode: getBackupExitCode(result.status),
+              }
+            : { username: entry.username, outcome: 'success', exitCode: 0 }
+        );
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.error(`Backup failed for ${entry.username}: ${message}`);
+        results.push({
+          username: entry.username,
+          outcome: 'failed',
+          message,
+          exitCode: getExitCode(error),
+        });
+      }
+    }
+  } finally {
+    if (session) {
+      await session.close();
+    }
+  }
+
+  logBatchSummary(results);
+
+  return { profiles: results, exitCode: getBatchExitCode(results) };
+}
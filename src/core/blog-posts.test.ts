@@ -0,0 +1,40 @@
+/**
+ * Tests for merging a run's journal posts with the manifest's
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { BlogPost } from '../manifest/types.js';
+import { mergeBlogPosts } from './blog-posts.js';
+
+function post(id: string, overrides: Partial<BlogPost> = {}): BlogPost {
+  return {
+    id,
+    slug: id,
+    title: `Post ${id}`,
+    content_html: `<p>${id}</p>`,
+    published_at: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('mergeBlogPosts', () => {
+  it('should keep every archived post when the journal could not be scraped', () => {
+    const previous = [post('a', { assets: [] }), post('b', { assets: [] })];
+
+    expect(mergeBlogPosts([], previous, { complete: false })).toEqual(previous);
+  });
+
+  it('should keep scraped content for posts this run only has an excerpt of', () => {
+    const scraped = post('a', { content_html: '<p>Full text</p>', assets: [] });
+
+    expect(mergeBlogPosts([post('a', { content_html: 'Full…' })], [scraped], { complete: false })).toEqual([scraped]);
+  });
+
+  it('should drop posts missing from a journal scraped in full', () => {
+    const previous = [post('a', { assets: [] }), post('b', { assets: [] })];
+    const current = [post('a', { title: 'Renamed', assets: [] })];
+
+    expect(mergeBlogPosts(current, previous, { complete: false })).toEqual([...current, previous[1]]);
+    expect(mergeBlogPosts(current, previous, { complete: true })).toEqual(current);
+  });
+});
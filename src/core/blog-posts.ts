@@ -0,0 +1,48 @@
+/**
+ * Journal posts of a run, merged with the manifest's
+ * - A post this run only has an excerpt of keeps its previously scraped content
+ * - When the journal could not be scraped in full, posts it did not show are kept
+ */
+
+import { getLogger } from '../utils/logger.js';
+import type { BlogPost } from '../manifest/types.js';
+
+export interface BlogPostMergeOptions {
+  /**
+   * Whether this run scraped every post the journal lists; only then are posts
+   * it did not show treated as removed from VSCO
+   */
+  complete: boolean;
+}
+
+/**
+ * Merge this run's journal posts with the manifest's
+ */
+export function mergeBlogPosts(
+  current: BlogPost[],
+  previous: BlogPost[],
+  options: BlogPostMergeOptions
+): BlogPost[] {
+  const logger = getLogger();
+  const previousById = new Map(previous.map((post) => [post.id, post]));
+  const currentIds = new Set(current.map((post) => post.id));
+
+  const merged = current.map((post) => {
+    const prior = previousById.get(post.id);
+    return !post.assets && prior?.assets ? prior : post;
+  });
+
+  const unlisted = previous.filter((post) => !currentIds.has(post.id));
+  if (unlisted.length === 0) {
+    return merged;
+  }
+  if (!options.complete) {
+    logger.debug(`Keeping ${unlisted.length} journal posts the journal did not show this run`);
+    return [...merged, ...unlisted];
+  }
+
+  logger.info(
+    `${unlisted.length} journal posts are no longer on VSCO: ${unlisted.map((post) => `"${post.title}"`).join(', ')}`
+  );
+  return merged;
+}
@@ -0,0 +1,208 @@
+/**
+ * Tests for upstream change detection (edits, deletions, restorations)
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { createHash } from 'crypto';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { BackupManifest, Photo } from '../manifest/types.js';
+import { getMediaDir } from '../utils/paths.js';
+import { buildDownloadQueue } from '../download/queue.js';
+import { buildContentTypeMap, detectIncrementalPhotos } from './incremental.js';
+import { applyUpstreamChanges, diffPhotoFields, keepReplacedFiles } from './changes.js';
+
+const NOW = '2025-02-01T00:00:00.000Z';
+const options = { runId: 'run-2', now: NOW, complete: true };
+
+function photo(id: string, overrides: Partial<Photo> = {}): Photo {
+  return {
+    id,
+    url_highres: `https://im.vsco.co/${id}.jpg`,
+    downloaded_at: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('diffPhotoFields', () => {
+  it('should report edited tracked fields only', () => {
+    const stored = photo('a', { caption: 'old', tags: ['x'], width: 100, exif: { iso: 100 } });
+    const fresh = photo('a', { caption: 'new', tags: ['x'], width: 200, exif: { iso: 200 } });
+
+    expect(diffPhotoFields(stored, fresh)).toEqual([
+      { field: 'caption', previous: 'old', current: 'new' },
+      { field: 'width', previous: 100, current: 200 },
+    ]);
+  });
+
+  it('should treat newly reported and no-longer-reported fields as unchanged', () => {
+    expect(diffPhotoFields(photo('a', { caption: 'kept' }), photo('a', { preset: 'A6' }))).toEqual([]);
+  });
+});
+
+describe('applyUpstreamChanges', () => {
+  it('should apply edits and keep them as revisions', () => {
+    const stored = photo('a', { caption: 'old' });
+    const fresh = photo('a', { caption: 'new', url_highres: 'https://im.vsco.co/a-v2.jpg' });
+
+    const result = applyUpstreamChanges([stored], [fresh], options);
+
+    expect(result.edited).toEqual([stored]);
+    expect(stored.caption).toBe('new');
+    expect(stored.url_highres).toBe('https://im.vsco.co/a-v2.jpg');
+    expect(stored.revisions).toEqual([
+      {
+        detected_at: NOW,
+        run_id: 'run-2',
+        changes: [
+          { field: 'caption', previous: 'old', current: 'new' },
+          { field: 'url_highres', previous: 'https://im.vsco.co/a.jpg', current: 'https://im.vsco.co/a-v2.jpg' },
+        ],
+      },
+    ]);
+  });
+
+  it('should forget the file of a replaced image and keep its digest in the revision', () => {
+    const stored = photo('a', { sha256: 'abc', size_bytes: 5, integrity: 'ok' });
+
+    applyUpstreamChanges([stored], [photo('a', { url_highres: 'https://im.vsco.co/a-v2.jpg' })], options);
+
+    expect(stored).toMatchObject({ url_highres: 'https://im.vsco.co/a-v2.jpg', integrity: 'invalid' });
+    expect(stored.sha256).toBeUndefined();
+    expect(stored.size_bytes).toBeUndefined();
+    expect(stored.revisions?.[0].changes).toEqual([
+      { field: 'url_highres', previous: 'https://im.vsco.co/a.jpg', current: 'https://im.vsco.co/a-v2.jpg' },
+      { field: 'file', previous: 'a.abc.jpg' },
+      { field: 'sha256', previous: 'abc' },
+      { field: 'size_bytes', previous: 5 },
+    ]);
+  });
+
+  it('should keep the replaced file next to the new one', async () => {
+    const backupRoot = await mkdtemp(join(tmpdir(), 'vsco-changes-'));
+    const sha256 = createHash('sha256').update('old image').digest('hex');
+    const stored = photo('a', { sha256, size_bytes: 9, integrity: 'ok' });
+
+    try {
+      const mediaDir = getMediaDir(backupRoot);
+      await mkdir(mediaDir, { recursive: true });
+      await writeFile(join(mediaDir, 'a.jpg'), 'old image');
+
+      const upstream = applyUpstreamChanges([stored], [photo('a', { url_highres: 'https://im.vsco.co/a-v2.jpg' })], options);
+      expect(await keepReplacedFiles(backupRoot, upstream.replacedFiles)).toBe(1);
+      // The download pass then writes the new image over a.jpg
+      await writeFile(join(mediaDir, 'a.jpg'), 'new image');
+
+      const keptFilename = `a.${sha256.slice(0, 8)}.jpg`;
+      expect(stored.revisions?.[0].changes).toContainEqual({ field: 'file', previous: keptFilename });
+      expect(await readFile(join(mediaDir, keptFilename), 'utf-8')).toBe('old image');
+      expect(await readFile(join(mediaDir, 'a.jpg'), 'utf-8')).toBe('new image');
+
+      // Running again once the new image is in place must not overwrite the kept file
+      expect(await keepReplacedFiles(backupRoot, upstream.replacedFiles)).toBe(0);
+      expect(await readFile(join(mediaDir, keptFilename), 'utf-8')).toBe('old image');
+    } finally {
+      await rm(backupRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('should download a replaced image and poster again', async () => {
+    const backupRoot = await mkdtemp(join(tmpdir(), 'vsco-changes-'));
+    const video = (version: string): Photo =>
+      photo('v', {
+        url_highres: `https://img.vsco.co/v/${version}.mp4`,
+        media_type: 'video',
+        content_type: 'video/mp4',
+        url_poster: `https://im.vsco.co/v/${version}.jpg`,
+      });
+    const stored = [
+      photo('a', { sha256: 'abc', size_bytes: 5, integrity: 'ok' }),
+      { ...video('old'), sha256: 'def', size_bytes: 5, integrity: 'ok' as const },
+    ];
+    const fresh = [photo('a', { url_highres: 'https://im.vsco.co/a-v2.jpg' }), video('new')];
+    const manifest: BackupManifest = {
+      schemaVersion: '1.0.0',
+      profile: {
+        username: 'foo',
+        profile_url: 'https://vsco.co/foo',
+        last_backup_ts: '2025-01-01T00:00:00.000Z',
+        backup_version: '1.0.0',
+      },
+      content: { photos: stored, galleries: [], blog_posts: [] },
+      backup_runs: [],
+    };
+
+    try {
+      const mediaDir = getMediaDir(backupRoot);
+      await mkdir(mediaDir, { recursive: true });
+      await writeFile(join(mediaDir, 'a.jpg'), 'image');
+      await writeFile(join(mediaDir, 'v.mp4'), 'video');
+      await writeFile(join(mediaDir, 'v-poster.jpg'), 'frame');
+
+      const upstream = applyUpstreamChanges(stored, fresh, options);
+      const contentTypeById = buildContentTypeMap([...stored, ...fresh]);
+      const incremental = await detectIncrementalPhotos(backupRoot, fresh, manifest, { contentTypeById });
+      const { queue } = buildDownloadQueue(
+        {
+          new: incremental.newItems,
+          missing: incremental.missingItems,
+          invalid: incremental.invalidItems,
+          posters: [...incremental.posterItems, ...upstream.posters],
+        },
+        [],
+        contentTypeById
+      );
+
+      expect(queue.map(({ url, force }) => ({ url, force }))).toEqual([
+        { url: 'https://im.vsco.co/a-v2.jpg', force: true },
+        { url: 'https://img.vsco.co/v/new.mp4', force: true },
+        { url: 'https://im.vsco.co/v/new.jpg', force: true },
+      ]);
+    } finally {
+      await rm(backupRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('should append to earlier revisions', () => {
+    const stored = photo('a', {
+      caption: 'second',
+      revisions: [{ detected_at: '2024-12-01T00:00:00.000Z', run_id: 'run-1', changes: [] }],
+    });
+
+    applyUpstreamChanges([stored], [photo('a', { caption: 'third' })], options);
+
+    expect(stored.revisions?.map((revision) => revision.run_id)).toEqual(['run-1', 'run-2']);
+  });
+
+  it('should mark photos missing from a complete discovery as deleted upstream, once', () => {
+    const kept = photo('a');
+    const gone = photo('b');
+
+    const first = applyUpstreamChanges([kept, gone], [photo('a')], options);
+    const second = applyUpstreamChanges([kept, gone], [photo('a')], { ...options, now: '2025-03-01T00:00:00.000Z' });
+
+    expect(first.deleted).toEqual([gone]);
+    expect(second.deleted).toEqual([]);
+    expect(gone.deleted_upstream).toBe(NOW);
+    expect(kept.deleted_upstream).toBeUndefined();
+  });
+
+  it('should not infer deletions from partial or empty discoveries', () => {
+    const stored = photo('a');
+
+    applyUpstreamChanges([stored], [photo('b')], { ...options, complete: false });
+    applyUpstreamChanges([stored], [], options);
+
+    expect(stored.deleted_upstream).toBeUndefined();
+  });
+
+  it('should clear the mark when a photo reappears', () => {
+    const stored = photo('a', { deleted_upstream: '2024-12-01T00:00:00.000Z' });
+
+    const result = applyUpstreamChanges([stored], [photo('a')], options);
+
+    expect(result.restored).toEqual([stored]);
+    expect(stored.deleted_upstream).toBeUndefined();
+  });
+});
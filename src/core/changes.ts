@@ -0,0 +1,197 @@
+/**
+ * Upstream change detection between a run's discovery and the manifest
+ * - Field-level edits (caption, tags, image URL...) are applied and kept as revisions
+ * - A replaced image or poster is downloaded again; a replaced image file is first copied to
+ *   "<id>.<sha8>.<ext>", and the revision records that filename with the old digest
+ * - Photos a complete discovery no longer finds are marked deleted_upstream; their files stay
+ * - A photo that reappears loses the mark
+ */
+
+import { copyFile } from 'fs/promises';
+import type { Photo, PhotoFieldChange, RevisionValue } from '../manifest/types.js';
+import { getLogger } from '../utils/logger.js';
+import { hashFile } from '../utils/integrity.js';
+import { generateMediaFilename, generateRevisionFilename, getMediaPath } from '../utils/paths.js';
+
+/** Fields whose upstream edits are recorded as revisions */
+export const TRACKED_FIELDS = [
+  'caption',
+  'tags',
+  'preset',
+  'url_highres',
+  'url_poster',
+  'permalink',
+  'uploaded_at',
+  'width',
+  'height',
+] as const;
+
+type TrackedField = (typeof TRACKED_FIELDS)[number];
+
+export interface UpstreamChangeOptions {
+  runId: string;
+  /** Timestamp recorded on revisions and deletions (ISO 8601) */
+  now: string;
+  /** Whether discovery saw the whole profile; deletions are only inferred when it did */
+  complete: boolean;
+}
+
+export interface UpstreamChanges {
+  /** Photos with at least one tracked field edited upstream */
+  edited: Photo[];
+  /** Photos newly marked as removed from VSCO */
+  deleted: Photo[];
+  /** Photos previously marked as removed that are back */
+  restored: Photo[];
+  /** Videos whose poster frame was replaced upstream, to be downloaded again */
+  posters: Photo[];
+  /** Files of replaced images, to be kept before the new image overwrites them */
+  replacedFiles: ReplacedFile[];
+}
+
+/**
+ * Local file of an image replaced upstream
+ */
+export interface ReplacedFile {
+  photoId: string;
+  /** Media filename the new image is downloaded to */
+  filename: string;
+  /** Media filename the replaced file is kept under (referenced from the revision) */
+  keptFilename: string;
+  /** Digest of the replaced file, as recorded in the manifest */
+  sha256: string;
+}
+
+function sameValue(a: RevisionValue | undefined, b: RevisionValue | undefined): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function setField<K extends TrackedField>(photo: Photo, field: K, value: Photo[K]): void {
+  photo[field] = value;
+}
+
+/**
+ * Forget the file of a photo whose image URL changed: the replaced file's name and digest join
+ * the revision, and the 'invalid' flag makes the next download pass fetch the new image (again after a crash)
+ */
+function replaceFile(photo: Photo, fresh: Photo, changes: PhotoFieldChange[], replacedFiles: ReplacedFile[]): void {
+  if (photo.sha256 !== undefined) {
+    const keptFilename = generateRevisionFilename(photo.id, photo.sha256, photo.content_type);
+    changes.push({ field: 'file', previous: keptFilename });
+    changes.push({ field: 'sha256', previous: photo.sha256 });
+    replacedFiles.push({
+      photoId: photo.id,
+      filename: generateMediaFilename(photo.id, photo.content_type),
+      keptFilename,
+      sha256: photo.sha256,
+    });
+  }
+  if (photo.size_bytes !== undefined) {
+    changes.push({ field: 'size_bytes', previous: photo.size_bytes });
+  }
+  delete photo.sha256;
+  delete photo.size_bytes;
+  photo.content_type = fresh.content_type ?? photo.content_type;
+  photo.integrity = 'invalid';
+}
+
+/**
+ * Tracked fields that differ between a stored photo and its fresh discovery
+ * A field VSCO did not report this time is not treated as cleared, and a field
+ * the manifest never had is a backfill rather than an edit
+ */
+export function diffPhotoFields(stored: Photo, fresh: Photo): PhotoFieldChange[] {
+  const changes: PhotoFieldChange[] = [];
+
+  for (const field of TRACKED_FIELDS) {
+    const previous = stored[field];
+    const current = fresh[field];
+    if (previous === undefined || current === undefined || sameValue(previous, current)) continue;
+
+    changes.push({ field, previous, current });
+  }
+
+  return changes;
+}
+
+/**
+ * Compare the manifest's photos with this run's discovery, updating the manifest in place
+ */
+export function applyUpstreamChanges(
+  existing: Photo[],
+  discovered: Photo[],
+  options: UpstreamChangeOptions
+): UpstreamChanges {
+  const byId = new Map(discovered.map((photo) => [photo.id, photo]));
+  const result: UpstreamChanges = { edited: [], deleted: [], restored: [], posters: [], replacedFiles: [] };
+  // An empty result from a "complete" scroll is more likely a broken page than a wiped profile
+  const canInferDeletions = options.complete && discovered.length > 0;
+
+  for (const photo of existing) {
+    const fresh = byId.get(photo.id);
+
+    if (!fresh) {
+      if (canInferDeletions && !photo.deleted_upstream) {
+        photo.deleted_upstream = options.now;
+        result.deleted.push(photo);
+      }
+      continue;
+    }
+
+    if (photo.deleted_upstream) {
+      delete photo.deleted_upstream;
+      result.restored.push(photo);
+    }
+
+    const changes = diffPhotoFields(photo, fresh);
+    if (changes.length === 0) continue;
+
+    const changed = new Set(changes.map((change) => change.field));
+    for (const field of TRACKED_FIELDS) {
+      if (changed.has(field)) setField(photo, field, fresh[field]);
+    }
+    if (changed.has('url_highres')) {
+      replaceFile(photo, fresh, changes, result.replacedFiles);
+    }
+    if (changed.has('url_poster')) {
+      result.posters.push(photo);
+    }
+    photo.revisions = [...(photo.revisions ?? []), { detected_at: options.now, run_id: options.runId, changes }];
+    result.edited.push(photo);
+  }
+
+  return result;
+}
+
+/**
+ * Copy replaced image files to the names their revisions reference, before the new images
+ * are downloaded over them
+ * A file that is gone, or no longer matches the recorded digest (e.g. the new image was already
+ * downloaded before a crash), is left alone
+ *
+ * @returns Number of files kept
+ */
+export async function keepReplacedFiles(backupRoot: string, replacedFiles: ReplacedFile[]): Promise<number> {
+  const logger = getLogger();
+  let kept = 0;
+
+  for (const file of replacedFiles) {
+    const source = getMediaPath(backupRoot, file.filename);
+    let digest: string;
+    try {
+      digest = await hashFile(source);
+    } catch {
+      logger.debug(`No local file to keep for replaced photo ${file.photoId}`);
+      continue;
+    }
+    if (digest !== file.sha256) {
+      logger.debug(`Local file of photo ${file.photoId} is not the replaced image; not kept`);
+      continue;
+    }
+
+    await copyFile(source, getMediaPath(backupRoot, file.keptFilename));
+    kept++;
+  }
+
+  return kept;
+}
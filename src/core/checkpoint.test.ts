@@ -0,0 +1,102 @@
+/**
+ * Tests for the checkpoint journal used by resumable runs
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { appendFile, mkdtemp, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  getCheckpointPath,
+  readCheckpoint,
+  recordCheckpointAsset,
+  recordCheckpointDiscovery,
+  removeCheckpoint,
+  findResumableRun,
+} from './checkpoint.js';
+import type { BackupManifest, BackupRun } from '../manifest/types.js';
+
+describe('checkpoint journal', () => {
+  let backupRoot: string;
+
+  beforeEach(async () => {
+    backupRoot = await mkdtemp(join(tmpdir(), 'vsco-checkpoint-'));
+  });
+
+  afterEach(async () => {
+    await rm(backupRoot, { recursive: true, force: true });
+  });
+
+  it('should return null when a run has no journal', async () => {
+    expect(await readCheckpoint(backupRoot, 'run-1')).toBeNull();
+  });
+
+  it('should read back discovery and completed assets, ignoring a torn last line', async () => {
+    const photo = { id: 'p1', url_highres: 'https://im.vsco.co/p1.jpg', downloaded_at: '2026-01-01T00:00:00.000Z' };
+
+    await recordCheckpointDiscovery(backupRoot, 'run-1', {
+      photos: [photo],
+      galleries: [],
+      blog_posts: [],
+      discovered_count: 1,
+    });
+    await recordCheckpointAsset(backupRoot, 'run-1', { media_id: 'p1', size_bytes: 10, sha256: 'abc' });
+    await appendFile(getCheckpointPath(backupRoot, 'run-1'), '{"type":"asset","media_id":"p2"');
+
+    const checkpoint = await readCheckpoint(backupRoot, 'run-1');
+
+    expect(checkpoint?.discovery).toEqual({ photos: [photo], galleries: [], blog_posts: [], discovered_count: 1 });
+    expect([...(checkpoint?.completed.keys() ?? [])]).toEqual(['p1']);
+    expect(checkpoint?.completed.get('p1')).toEqual({ media_id: 'p1', size_bytes: 10, sha256: 'abc' });
+  });
+
+  it('should remove a journal and tolerate one that is already gone', async () => {
+    await recordCheckpointAsset(backupRoot, 'run-1', { media_id: 'p1' });
+
+    await removeCheckpoint(backupRoot, 'run-1');
+    await removeCheckpoint(backupRoot, 'run-1');
+
+    expect(await readCheckpoint(backupRoot, 'run-1')).toBeNull();
+  });
+});
+
+describe('findResumableRun', () => {
+  function run(run_id: string, status: BackupRun['status']): BackupRun {
+    return {
+      run_id,
+      ts: '2026-01-01T00:00:00.000Z',
+      new_content_count: 0,
+      missing_content_count: 0,
+      invalid_content_count: 0,
+      downloaded_items: [],
+      status,
+    };
+  }
+
+  function manifestWith(runs: BackupRun[]): BackupManifest {
+    return {
+      schemaVersion: '1.0.0',
+      profile: {
+        username: 'alice',
+        profile_url: 'https://vsco.co/alice',
+        last_backup_ts: '2026-01-01T00:00:00.000Z',
+        backup_version: '1.0.0',
+      },
+      content: { photos: [], galleries: [], blog_posts: [] },
+      backup_runs: runs,
+    };
+  }
+
+  it('should pick the most recent run only if it did not finish cleanly', () => {
+    expect(findResumableRun(manifestWith([run('a', 'success'), run('b', 'running')]))?.run_id).toBe('b');
+    expect(findResumableRun(manifestWith([run('a', 'failed'), run('b', 'success')]))).toBeUndefined();
+  });
+
+  it('should resume a named run that is running or failed', () => {
+    const manifest = manifestWith([run('a', 'failed'), run('b', 'success')]);
+
+    expect(findResumableRun(manifest, 'a')?.run_id).toBe('a');
+    expect(findResumableRun(manifest, 'b')).toBeUndefined();
+    expect(findResumableRun(manifest, 'missing')).toBeUndefined();
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Checkpoint journal for resumable backup runs
+ * - One append-only JSON Lines file per run under .vsco-backup/checkpoints/
+ * - Records the discovery snapshot once, then one line per completed download
+ * - A line cut short by a crash is ignored when the journal is read back
+ */
+
+import { appendFile, mkdir, readFile, unlink } from 'fs/promises';
+import { dirname, join } from 'path';
+import type { BackupManifest, BackupRun, BlogPost, Gallery, Photo, ProfileIdentity } from '../manifest/types.js';
+import { OUTPUT_LAYOUT } from '../utils/paths.js';
+import type { ExifData } from '../utils/exif.js';
+
+/**
+ * Discovery results, already mapped to manifest entities
+ */
+export interface CheckpointDiscovery {
+  /** Every photo/video found on the profile */
+  photos: Photo[];
+  galleries: Gallery[];
+  /** Whether the gallery list was scraped (not just discovery's links); only then can galleries count as removed */
+  galleries_complete?: boolean;
+  blog_posts: BlogPost[];
+  /** Number of items discovery reported (before mapping dropped unusable ones) */
+  discovered_count: number;
+  /** Whether discovery saw the whole profile; only then can absent items count as deleted */
+  complete?: boolean;
+  /** Display name, bio, avatar, links and IDs, if the profile page exposed them */
+  identity?: ProfileIdentity;
+}
+
+/**
+ * A download that finished during the run
+ */
+export interface CheckpointAsset {
+  media_id: string;
+  size_bytes?: number;
+  sha256?: string;
+  mime_type?: string;
+  /** Dimensions and EXIF read from the file (images only) */
+  width?: number;
+  height?: number;
+  exif?: ExifData;
+}
+
+export interface Checkpoint {
+  runId: string;
+  discovery?: CheckpointDiscovery;
+  /** Completed downloads keyed by media ID */
+  completed: Map<string, CheckpointAsset>;
+}
+
+type JournalLine =
+  | ({ type: 'discovery'; ts: string } & CheckpointDiscovery)
+  | ({ type: 'asset'; ts: string } & CheckpointAsset);
+
+/**
+ * Get the path to a run's checkpoint journal
+ */
+export function getCheckpointPath(backupRoot: string, runId: string): string {
+  return join(backupRoot, OUTPUT_LAYOUT.BACKUP_DIR, 'checkpoints', `${runId}.jsonl`);
+}
+
+async function appendLine(backupRoot: string, runId: string, line: JournalLine): Promise<void> {
+  const journalPath = getCheckpointPath(backupRoot, runId);
+  await mkdir(dirname(journalPath), { recursive: true });
+  await appendFile(journalPath, `${JSON.stringify(line)}\n`, 'utf-8');
+}
+
+export async function recordCheckpointDiscovery(
+  backupRoot: string,
+  runId: string,
+  discovery: CheckpointDiscovery
+): Promise<void> {
+  await appendLine(backupRoot, runId, { type: 'discovery', ts: new Date().toISOString(), ...discovery });
+}
+
+export async function recordCheckpointAsset(
+  backupRoot: string,
+  runId: string,
+  asset: CheckpointAsset
+): Promise<void> {
+  await appendLine(backupRoot, runId, { type: 'asset', ts: new Date().toISOString(), ...asset });
+}
+
+/**
+ * Read a run's checkpoint journal
+ * @returns The checkpoint, or null if the run has no journal
+ */
+export async function readCheckpoint(backupRoot: string, runId: string): Promise<Checkpoint | null> {
+  let content: string;
+  try {
+    content = await readFile(getCheckpointPath(backupRoot, runId), 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+
+  const checkpoint: Checkpoint = { runId, completed: new Map() };
+
+  for (const raw of content.split('\n')) {
+    if (!raw.trim()) continue;
+
+    let line: JournalLine;
+    try {
+      line = JSON.parse(raw);
+    } catch {
+      // Partial line from an interrupted write
+      continue;
+    }
+
+    if (line.type === 'discovery') {
+      const { type: _type, ts: _ts, ...discovery } = line;
+      checkpoint.discovery = discovery;
+    } else if (line.type === 'asset') {
+      const { type: _type, ts: _ts, ...asset } = line;
+      checkpoint.completed.set(asset.media_id, asset);
+    }
+  }
+
+  return checkpoint;
+}
+
+export async function removeCheckpoint(backupRoot: string, runId: string): Promise<void> {
+  try {
+    await unlink(getCheckpointPath(backupRoot, runId));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Find the run to resume: the given run_id, or the most recent run if it did not finish cleanly
+ */
+export function findResumableRun(manifest: BackupManifest, runId?: string): BackupRun | undefined {
+  const resumable = (run: BackupRun) => run.status === 'running' || run.status === 'failed';
+
+  if (runId) {
+    return manifest.backup_runs.find((run) => run.run_id === runId && resumable(run));
+  }
+
+  const latest = manifest.backup_runs[manifest.backup_runs.length - 1];
+  return latest && resumable(latest) ? latest : undefined;
+}
@@ -0,0 +1,144 @@
+/**
+ * Tests for run snapshots and the changelog between them
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtemp, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { BackupManifest, BackupRun, Photo } from '../manifest/types.js';
+import { InvalidInputError } from '../utils/errors.js';
+import { countChanges, diffSnapshots, formatDiffText, resolveDiff } from './diff.js';
+import { createSnapshot, listSnapshotRuns, readRunSnapshot, writeRunSnapshot } from './snapshots.js';
+
+function photo(id: string, overrides: Partial<Photo> = {}): Photo {
+  return { id, url_highres: `https://im.vsco.co/${id}.jpg`, downloaded_at: '2025-01-01T00:00:00.000Z', ...overrides };
+}
+
+function run(runId: string): BackupRun {
+  return {
+    run_id: runId,
+    ts: '2025-01-01T00:00:00.000Z',
+    new_content_count: 0,
+    missing_content_count: 0,
+    invalid_content_count: 0,
+    downloaded_items: [],
+    status: 'success',
+  };
+}
+
+function manifest(photos: Photo[], runIds: string[] = []): BackupManifest {
+  return {
+    schemaVersion: '1.0.0',
+    profile: {
+      username: 'testuser',
+      profile_url: 'https://vsco.co/testuser',
+      last_backup_ts: '2025-01-01T00:00:00.000Z',
+      backup_version: '1.0.0',
+    },
+    content: {
+      photos,
+      galleries: [{ id: 'g1', name: 'Travel', photo_ids: photos.map((p) => p.id) }],
+      blog_posts: [{ id: 'b1', slug: 'notes', title: 'Notes', content_html: '<p>v1</p>', published_at: '2025-01-01' }],
+    },
+    backup_runs: runIds.map(run),
+  };
+}
+
+describe('diffSnapshots', () => {
+  it('should list added, removed and changed items per section', () => {
+    const before = manifest([photo('a', { caption: 'old' }), photo('b')]);
+    const after = manifest([photo('a', { caption: 'new' }), photo('c')]);
+    after.content.blog_posts[0].content_html = '<p>v2</p>';
+
+    const diff = diffSnapshots(createSnapshot(before, 'run-1'), createSnapshot(after, 'run-2'));
+
+    expect(diff.from).toBe('run-1');
+    expect(diff.photos.added).toEqual([{ id: 'c', label: 'c' }]);
+    expect(diff.photos.removed).toEqual([{ id: 'b', label: 'b' }]);
+    expect(diff.photos.changed).toEqual([
+      { id: 'a', label: 'new', changes: [{ field: 'caption', previous: 'old', current: 'new' }] },
+    ]);
+    expect(diff.galleries.changed[0].changes).toEqual([{ field: 'photos', previous: ['b'], current: ['c'] }]);
+    expect(diff.blog_posts.changed[0].changes).toEqual([{ field: 'content' }]);
+    expect(countChanges(diff)).toBe(5);
+  });
+
+  it('should count photos removed from VSCO as removed', () => {
+    const before = manifest([photo('a')]);
+    const after = manifest([photo('a', { deleted_upstream: '2025-02-01T00:00:00.000Z' })]);
+
+    const diff = diffSnapshots(createSnapshot(before, 'run-1'), createSnapshot(after, 'run-2'));
+
+    expect(diff.photos.removed).toEqual([{ id: 'a', label: 'a' }]);
+    expect(diff.photos.changed).toEqual([]);
+  });
+
+  it('should treat everything as added without an older snapshot', () => {
+    const diff = diffSnapshots(null, createSnapshot(manifest([photo('a')]), 'run-1'));
+
+    expect(diff.from).toBeNull();
+    expect(countChanges(diff)).toBe(3);
+    expect(formatDiffText(diff)).toContain('Changes from an empty backup to run-1');
+    expect(formatDiffText(diff)).toContain('  + a  a');
+  });
+
+  it('should format field changes', () => {
+    const before = manifest([photo('a', { tags: ['x'] }), photo('b')]);
+    const after = manifest([photo('a', { tags: ['x', 'y'] })]);
+
+    const text = formatDiffText(diffSnapshots(createSnapshot(before, 'run-1'), createSnapshot(after, 'run-2')));
+
+    expect(text).toContain('  ~ a  a: tags: x → x, y');
+    expect(text).toContain('  ~ g1  Travel: photos: 0 added, 1 removed');
+  });
+});
+
+describe('resolveDiff', () => {
+  let backupRoot: string;
+
+  beforeEach(async () => {
+    backupRoot = await mkdtemp(join(tmpdir(), 'vsco-diff-'));
+  });
+
+  afterEach(async () => {
+    await rm(backupRoot, { recursive: true, force: true });
+  });
+
+  it('should round-trip snapshots and list only runs that have one', async () => {
+    const current = manifest([photo('a')], ['run-0', 'run-1']);
+    await writeRunSnapshot(backupRoot, current, 'run-1');
+
+    expect(await readRunSnapshot(backupRoot, 'run-1')).toMatchObject({ run_id: 'run-1', photos: [{ id: 'a' }] });
+    expect(await readRunSnapshot(backupRoot, 'run-0')).toBeNull();
+    expect(await listSnapshotRuns(backupRoot, current)).toEqual(['run-1']);
+  });
+
+  it('should default to the changes of the latest run', async () => {
+    await writeRunSnapshot(backupRoot, manifest([photo('a')]), 'run-1');
+    const current = manifest([photo('a'), photo('b')], ['run-1', 'run-2']);
+    await writeRunSnapshot(backupRoot, current, 'run-2');
+
+    const diff = await resolveDiff(backupRoot, current);
+
+    expect(diff).toMatchObject({ from: 'run-1', to: 'current' });
+    expect(diff.photos.added).toEqual([{ id: 'b', label: 'b' }]);
+  });
+
+  it('should compare two named runs', async () => {
+    const current = manifest([photo('a'), photo('b')], ['run-1', 'run-2']);
+    await writeRunSnapshot(backupRoot, manifest([photo('a')]), 'run-1');
+    await writeRunSnapshot(backupRoot, current, 'run-2');
+
+    const diff = await resolveDiff(backupRoot, current, 'run-2', 'run-1');
+
+    expect(diff.photos.removed).toEqual([{ id: 'b', label: 'b' }]);
+  });
+
+  it('should reject unknown runs and runs without a snapshot', async () => {
+    const current = manifest([photo('a')], ['run-1']);
+
+    await expect(resolveDiff(backupRoot, current, 'nope')).rejects.toThrow(InvalidInputError);
+    await expect(resolveDiff(backupRoot, current, 'run-1')).rejects.toThrow('has no snapshot');
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Changelog between two content snapshots (two runs, or a run and the live manifest)
+ * - Photos, galleries and journal posts are each split into added, removed and changed
+ * - A photo marked deleted_upstream counts as removed even though the manifest keeps it
+ */
+
+import type { BackupManifest } from '../manifest/types.js';
+import { InvalidInputError } from '../utils/errors.js';
+import { CURRENT_SNAPSHOT, createSnapshot, listSnapshotRuns, readRunSnapshot } from './snapshots.js';
+import type { ContentSnapshot } from './snapshots.js';
+
+export interface DiffItem {
+  id: string;
+  /** Caption, gallery name or post title (falls back to the ID) */
+  label: string;
+}
+
+export interface DiffFieldChange {
+  field: string;
+  previous?: unknown;
+  current?: unknown;
+}
+
+export interface DiffChangedItem extends DiffItem {
+  changes: DiffFieldChange[];
+}
+
+export interface SectionDiff {
+  added: DiffItem[];
+  removed: DiffItem[];
+  changed: DiffChangedItem[];
+}
+
+export interface BackupDiff {
+  /** Run ID of the older side, or null when comparing against nothing (first run) */
+  from: string | null;
+  /** Run ID of the newer side, or CURRENT_SNAPSHOT */
+  to: string;
+  photos: SectionDiff;
+  galleries: SectionDiff;
+  blog_posts: SectionDiff;
+}
+
+export type DiffFormat = 'text' | 'json' | 'html';
+
+export const DIFF_FORMATS: DiffFormat[] = ['text', 'json', 'html'];
+
+interface Identified {
+  id: string;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function diffSection<T extends Identified>(
+  before: T[],
+  after: T[],
+  label: (item: T) => string,
+  compare: (previous: T, current: T) => DiffFieldChange[],
+  isGone: (item: T) => boolean = () => false
+): SectionDiff {
+  const beforeById = new Map(before.filter((item) => !isGone(item)).map((item) => [item.id, item]));
+  const afterById = new Map(after.filter((item) => !isGone(item)).map((item) => [item.id, item]));
+  const section: SectionDiff = { added: [], removed: [], changed: [] };
+
+  for (const [id, item] of afterById) {
+    const previous = beforeById.get(id);
+    if (!previous) {
+      section.added.push({ id, label: label(item) });
+      continue;
+    }
+    const changes = compare(previous, item);
+    if (changes.length > 0) {
+      section.changed.push({ id, label: label(item), changes });
+    }
+  }
+  for (const [id, item] of beforeById) {
+    if (!afterById.has(id)) {
+      section.removed.push({ id, label: label(item) });
+    }
+  }
+
+  return section;
+}
+
+function compareFields<T>(fields: (keyof T & string)[]): (previous: T, current: T) => DiffFieldChange[] {
+  return (previous, current) =>
+    fields
+      .filter((field) => !sameValue(previous[field], current[field]))
+      .map((field) => ({ field, previous: previous[field], current: current[field] }));
+}
+
+/**
+ * Compare two snapshots; `before` may be null to treat everything in `after` as added
+ */
+export function diffSnapshots(before: ContentSnapshot | null, after: ContentSnapshot): BackupDiff {
+  return {
+    from: before?.run_id ?? null,
+    to: after.run_id,
+    photos: diffSection(
+      before?.photos ?? [],
+      after.photos,
+      (photo) => photo.caption || photo.id,
+      compareFields(['caption', 'tags', 'preset', 'url_highres', 'permalink', 'uploaded_at']),
+      (photo) => Boolean(photo.deleted_upstream)
+    ),
+    galleries: diffSection(
+      before?.galleries ?? [],
+      after.galleries,
+      (gallery) => gallery.name || gallery.id,
+      (previous, current) => {
+        const changes = compareFields<typeof current>(['name', 'description'])(previous, current);
+        const added = current.photo_ids.filter((id) => !previous.photo_ids.includes(id));
+        const removed = previous.photo_ids.filter((id) => !current.photo_ids.includes(id));
+        if (added.length > 0 || removed.length > 0) {
+          // Membership change: `previous` holds the IDs taken out, `current` the IDs put in
+          changes.push({ field: 'photos', previous: removed, current: added });
+        }
+        return changes;
+      }
+    ),
+    blog_posts: diffSection(
+      before?.blog_posts ?? [],
+      after.blog_posts,
+      (post) => post.title || post.slug,
+      (previous, current) =>
+        compareFields<typeof current>(['title', 'slug', 'published_at', 'content_sha256'])(previous, current).map(
+          (change) => (change.field === 'content_sha256' ? { field: 'content' } : change)
+        )
+    ),
+  };
+}
+
+/**
+ * Pick and load the two sides of a comparison
+ * `to` defaults to the live manifest; `from` defaults to the run before the most
+ * recent snapshotted run, so the default diff shows what the latest run changed
+ * @throws InvalidInputError if a named run is unknown or has no snapshot
+ */
+export async function resolveDiff(
+  backupRoot: string,
+  manifest: BackupManifest,
+  fromRunId?: string,
+  toRunId: string = CURRENT_SNAPSHOT
+): Promise<BackupDiff> {
+  const load = async (runId: string): Promise<ContentSnapshot> => {
+    if (runId === CURRENT_SNAPSHOT) {
+      return createSnapshot(manifest, CURRENT_SNAPSHOT);
+    }
+    if (!manifest.backup_runs.some((run) => run.run_id === runId)) {
+      throw new InvalidInputError(`Unknown run "${runId}"`, 'List runs with the history command');
+    }
+    const snapshot = await readRunSnapshot(backupRoot, runId);
+    if (!snapshot) {
+      throw new InvalidInputError(
+        `Run "${runId}" has no snapshot to compare`,
+        'Snapshots are written when a run finishes; runs from older versions and failed runs have none'
+      );
+    }
+    return snapshot;
+  };
+
+  const after = await load(toRunId);
+  if (fromRunId) {
+    return diffSnapshots(await load(fromRunId), after);
+  }
+
+  // Snapshotted runs older than `to` (all of them when `to` is the live manifest)
+  const runs = await listSnapshotRuns(backupRoot, manifest);
+  const candidates = toRunId === CURRENT_SNAPSHOT ? runs.slice(0, -1) : runs.slice(0, runs.indexOf(toRunId));
+  const previous = candidates[candidates.length - 1];
+
+  return diffSnapshots(previous ? await load(previous) : null, after);
+}
+
+export function countChanges(diff: BackupDiff): number {
+  return [diff.photos, diff.galleries, diff.blog_posts].reduce(
+    (total, section) => total + section.added.length + section.removed.length + section.changed.length,
+    0
+  );
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '(none)';
+  if (Array.isArray(value)) return value.join(', ') || '(none)';
+  return typeof value === 'string' ? `"${value}"` : String(value);
+}
+
+/**
+ * One field change as text, e.g. `caption: "old" → "new"`
+ */
+export function formatChange(change: DiffFieldChange): string {
+  if (change.field === 'content') return 'content edited';
+  if (change.field === 'photos') {
+    const [removed, added] = [change.previous, change.current].map((ids) => (Array.isArray(ids) ? ids.length : 0));
+    return `photos: ${added} added, ${removed} removed`;
+  }
+  return `${change.field}: ${formatValue(change.previous)} → ${formatValue(change.current)}`;
+}
+
+/**
+ * Plain-text changelog, one line per item
+ */
+export function formatDiffText(diff: BackupDiff): string {
+  const lines = [`Changes from ${diff.from ?? 'an empty backup'} to ${diff.to}`];
+  const sections: Array<[string, SectionDiff]> = [
+    ['Photos', diff.photos],
+    ['Galleries', diff.galleries],
+    ['Journal posts', diff.blog_posts],
+  ];
+
+  for (const [title, section] of sections) {
+    lines.push(
+      '',
+      `${title}: ${section.added.length} added, ${section.removed.length} removed, ${section.changed.length} changed`
+    );
+    for (const item of section.added) lines.push(`  + ${item.id}  ${item.label}`);
+    for (const item of section.removed) lines.push(`  - ${item.id}  ${item.label}`);
+    for (const item of section.changed) {
+      lines.push(`  ~ ${item.id}  ${item.label}: ${item.changes.map(formatChange).join('; ')}`);
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,41 @@
+/**
+ * Tests for merging a run's galleries with the manifest's
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { Gallery } from '../manifest/types.js';
+import { mapGallery, mergeGalleries } from './galleries.js';
+
+function gallery(id: string, photoIds: string[] = [], name: string = id): Gallery {
+  return { id, name, photo_ids: photoIds };
+}
+
+describe('mergeGalleries', () => {
+  it('should keep known photos when the fallback finds a gallery it could not page', () => {
+    const fallback = mapGallery({ id: 'summer-2024', name: 'Summer', permalink: '/foo/gallery/summer-2024' });
+
+    const merged = mergeGalleries([fallback], [gallery('summer-2024', ['a', 'b'], 'Summer')], { complete: false });
+
+    expect(merged).toEqual([gallery('summer-2024', ['a', 'b'], 'Summer')]);
+  });
+
+  it('should keep galleries the list did not show unless it was scraped in full', () => {
+    const previous = [gallery('travel', ['a']), gallery('old', ['b'])];
+
+    expect(mergeGalleries([gallery('travel', ['a', 'c'])], previous, { complete: false })).toEqual([
+      gallery('travel', ['a', 'c']),
+      gallery('old', ['b']),
+    ]);
+    expect(mergeGalleries([gallery('travel', ['a', 'c'])], previous, { complete: true })).toEqual([
+      gallery('travel', ['a', 'c']),
+    ]);
+  });
+
+  it('should match galleries saved under hashed URL IDs by name', () => {
+    const legacy = gallery('gallery-0123456789abcdef', ['a'], 'Travel');
+
+    expect(mergeGalleries([gallery('travel', [], 'Travel')], [legacy], { complete: true })).toEqual([
+      gallery('travel', ['a'], 'Travel'),
+    ]);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Gallery list of a run, merged with the manifest's
+ * - Galleries are keyed by the slug in their URL, from either the gallery scrape or discovery
+ * - A gallery that could not be paged keeps its previously known photos
+ * - When the gallery list itself could not be scraped, galleries it did not show are kept
+ */
+
+import { getLogger } from '../utils/logger.js';
+import type { Gallery as ManifestGallery } from '../manifest/types.js';
+import type { Gallery as DiscoveryGallery } from '../vsco/types.js';
+
+/** IDs of manifests written while galleries were keyed by a hash of their URL */
+const LEGACY_GALLERY_ID = /^gallery-[0-9a-f]{16}$/;
+
+export interface GalleryMergeOptions {
+  /**
+   * Whether this run scraped the full gallery list; only then are galleries it
+   * did not show treated as removed from VSCO
+   */
+  complete: boolean;
+}
+
+/**
+ * Map a gallery link found by discovery (the fallback when the gallery scrape finds nothing)
+ */
+export function mapGallery(gallery: DiscoveryGallery): ManifestGallery {
+  return {
+    id: gallery.id,
+    name: gallery.name || 'Untitled Gallery',
+    photo_ids: []
+  };
+}
+
+/**
+ * Merge this run's galleries with the manifest's
+ */
+export function mergeGalleries(
+  current: ManifestGallery[],
+  previous: ManifestGallery[],
+  options: GalleryMergeOptions
+): ManifestGallery[] {
+  const logger = getLogger();
+  const previousById = new Map(previous.map((gallery) => [gallery.id, gallery]));
+  const legacyByName = new Map(
+    previous.filter((gallery) => LEGACY_GALLERY_ID.test(gallery.id)).map((gallery) => [gallery.name, gallery])
+  );
+  const matched = new Set<ManifestGallery>();
+
+  const merged = current.map((gallery) => {
+    const prior = previousById.get(gallery.id) ?? legacyByName.get(gallery.name);
+    if (prior) {
+      matched.add(prior);
+    }
+    if (!prior || gallery.photo_ids.length > 0 || prior.photo_ids.length === 0) {
+      return gallery;
+    }
+
+    logger.debug(`Keeping ${prior.photo_ids.length} previously known photos for gallery "${gallery.name}"`);
+    return {
+      ...gallery,
+      description: gallery.description ?? prior.description,
+      cover_photo_url: gallery.cover_photo_url ?? prior.cover_photo_url,
+      photo_ids: prior.photo_ids
+    };
+  });
+
+  const unmatched = previous.filter((gallery) => !matched.has(gallery));
+  if (unmatched.length === 0) {
+    return merged;
+  }
+  if (!options.complete) {
+    logger.debug(`Keeping ${unmatched.length} galleries the gallery list did not show this run`);
+    return [...merged, ...unmatched];
+  }
+
+  logger.info(
+    `${unmatched.length} galleries are no longer on VSCO: ${unmatched.map((gallery) => `"${gallery.name}"`).join(', ')}`
+  );
+  return merged;
+}
@@ -0,0 +1,131 @@
+/**
+ * Tests for incremental file checks and for deciding when discovery must sweep the whole profile
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { BackupManifest, BackupRun, Photo } from '../manifest/types.js';
+import { getMediaDir } from '../utils/paths.js';
+import { buildContentTypeMap, detectIncrementalPhotos, isFullSweepDue } from './incremental.js';
+
+function run(status: BackupRun['status'], fullSweep?: boolean): BackupRun {
+  return {
+    run_id: `run-${Math.random()}`,
+    ts: '2025-01-01T00:00:00.000Z',
+    new_content_count: 0,
+    missing_content_count: 0,
+    invalid_content_count: 0,
+    downloaded_items: [],
+    status,
+    ...(fullSweep !== undefined && { full_sweep: fullSweep }),
+  };
+}
+
+function manifest(runs: BackupRun[], photos: Photo[] = []): BackupManifest {
+  return {
+    schemaVersion: '1.0.0',
+    profile: {
+      username: 'foo',
+      profile_url: 'https://vsco.co/foo',
+      last_backup_ts: '2025-01-01T00:00:00.000Z',
+      backup_version: '1.0.0',
+    },
+    content: { photos, galleries: [], blog_posts: [] },
+    backup_runs: [...runs, run('running')],
+  };
+}
+
+describe('detectIncrementalPhotos', () => {
+  it('should report a missing or empty poster of an intact video on its own', async () => {
+    const backupRoot = await mkdtemp(join(tmpdir(), 'vsco-incremental-'));
+    const video = (id: string): Photo => ({
+      id,
+      url_highres: `https://img.vsco.co/${id}/video.mp4`,
+      media_type: 'video',
+      content_type: 'video/mp4',
+      url_poster: `https://im.vsco.co/${id}/poster.jpg`,
+      downloaded_at: '2025-01-01T00:00:00.000Z',
+    });
+
+    try {
+      const mediaDir = getMediaDir(backupRoot);
+      await mkdir(mediaDir, { recursive: true });
+      for (const id of ['ok', 'noposter', 'emptyposter']) {
+        await writeFile(join(mediaDir, `${id}.mp4`), 'video');
+      }
+      await writeFile(join(mediaDir, 'ok-poster.jpg'), 'poster');
+      await writeFile(join(mediaDir, 'emptyposter-poster.jpg'), '');
+
+      const photos = ['ok', 'noposter', 'emptyposter', 'gone'].map(video);
+      const result = await detectIncrementalPhotos(backupRoot, photos, manifest([], photos), {
+        contentTypeById: buildContentTypeMap(photos),
+      });
+
+      expect(result.posterItems.map((photo) => photo.id)).toEqual(['noposter', 'emptyposter']);
+      expect(result.missingItems.map((photo) => photo.id)).toEqual(['gone']);
+    } finally {
+      await rm(backupRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('should report photos removed from VSCO without a valid file instead of queuing them', async () => {
+    const backupRoot = await mkdtemp(join(tmpdir(), 'vsco-incremental-'));
+    const photo = (id: string, overrides: Partial<Photo> = {}): Photo => ({
+      id,
+      url_highres: `https://im.vsco.co/${id}.jpg`,
+      downloaded_at: '2025-01-01T00:00:00.000Z',
+      ...overrides,
+    });
+    const removed = '2025-02-01T00:00:00.000Z';
+    const photos = [
+      photo('gone', { deleted_upstream: removed }),
+      photo('broken', { deleted_upstream: removed }),
+      photo('kept', { deleted_upstream: removed }),
+      photo('missing'),
+    ];
+
+    try {
+      const mediaDir = getMediaDir(backupRoot);
+      await mkdir(mediaDir, { recursive: true });
+      await writeFile(join(mediaDir, 'broken.jpg'), '');
+      await writeFile(join(mediaDir, 'kept.jpg'), 'image');
+
+      const result = await detectIncrementalPhotos(backupRoot, [], manifest([], photos));
+
+      expect(result.lostItems.map((photo) => photo.id)).toEqual(['gone', 'broken']);
+      expect(result.invalidReasons.get('broken')).toBe('zero-byte file');
+      expect(result.missingItems.map((photo) => photo.id)).toEqual(['missing']);
+      expect(result.invalidItems).toEqual([]);
+    } finally {
+      await rm(backupRoot, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('isFullSweepDue', () => {
+  it('should sweep when no run has finished yet', () => {
+    expect(isFullSweepDue(manifest([]), 10)).toBe(true);
+    expect(isFullSweepDue(manifest([run('failed', true)]), 10)).toBe(true);
+  });
+
+  it('should sweep once the previous runs all stopped early', () => {
+    const earlyStops = (count: number) => Array.from({ length: count }, () => run('success', false));
+
+    expect(isFullSweepDue(manifest([run('success', true), ...earlyStops(8)]), 10)).toBe(false);
+    expect(isFullSweepDue(manifest([run('success', true), ...earlyStops(9)]), 10)).toBe(true);
+    expect(isFullSweepDue(manifest(earlyStops(3)), 10)).toBe(true);
+  });
+
+  it('should count runs from before incremental discovery as full sweeps', () => {
+    expect(isFullSweepDue(manifest([run('partial'), run('success', false)]), 3)).toBe(false);
+  });
+
+  it('should ignore failed and interrupted runs', () => {
+    const runs = [run('success', true), run('failed', false), run('running'), run('success', false)];
+
+    expect(isFullSweepDue(manifest(runs), 3)).toBe(false);
+    expect(isFullSweepDue(manifest(runs), 2)).toBe(true);
+  });
+});
@@ -1,17 +1,41 @@
 import { stat } from 'fs/promises';
 import type { BackupManifest, Photo } from '../manifest/types.js';
-import { generateMediaFilename, getMediaPath } from '../utils/paths.js';
+import { generateMediaFilename, getMediaPath, getPosterMediaId, inferContentTypeFromUrl } from '../utils/paths.js';
+import { checkMediaIntegrity } from '../utils/integrity.js';
+import type { MediaIntegrity } from '../utils/integrity.js';
 
 export interface IncrementalDetectionOptions {
   expectedSizesById?: Map<string, number>;
   contentTypeById?: Map<string, string>;
   filenameById?: Map<string, string>;
+  /**
+   * Re-hash every file and check its structure (verify pass)
+   * Without it only existence, size and the recorded integrity flag are checked
+   */
+  deep?: boolean;
 }
 
 export interface IncrementalDetectionResult<T> {
   newItems: T[];
   missingItems: T[];
   invalidItems: T[];
+  /** Videos whose own file is fine but whose poster frame is missing or unusable */
+  posterItems: T[];
+  /**
+   * Photos removed from VSCO whose local file is missing or invalid; VSCO no longer serves them,
+   * so they are reported rather than queued
+   */
+  lostItems: T[];
+  /** Why each invalid (or lost, invalid) item was rejected, keyed by photo ID */
+  invalidReasons: Map<string, string>;
+  /** Integrity of every existing file checked in a deep pass, keyed by photo ID */
+  integrityById: Map<string, MediaIntegrity>;
+}
+
+interface PhotoClassification {
+  status: 'missing' | 'invalid' | 'ok';
+  reason?: string;
+  integrity?: MediaIntegrity;
 }
 
 function resolveMediaPath(
@@ -29,31 +53,79 @@ async function classifyManifestPhoto(
   backupRoot: string,
   photo: Photo,
   options: IncrementalDetectionOptions
-): Promise<'missing' | 'invalid' | 'ok'> {
-  const expectedSize = options.expectedSizesById?.get(photo.id);
+): Promise<PhotoClassification> {
+  const expectedSize = options.expectedSizesById?.get(photo.id) ?? photo.size_bytes;
   const localPath = resolveMediaPath(backupRoot, photo.id, options);
 
   try {
     const stats = await stat(localPath);
 
     if (stats.size === 0) {
-      return 'invalid';
+      return { status: 'invalid', reason: 'zero-byte file' };
     }
 
     if (expectedSize !== undefined && expectedSize > 0 && stats.size !== expectedSize) {
-      return 'invalid';
+      return { status: 'invalid', reason: `size mismatch (expected ${expectedSize}, got ${stats.size})` };
+    }
+
+    if (!options.deep) {
+      return photo.integrity === 'invalid'
+        ? { status: 'invalid', reason: 'flagged by integrity check' }
+        : { status: 'ok' };
+    }
+
+    const integrity = await checkMediaIntegrity(localPath);
+    if (integrity.problem) {
+      return { status: 'invalid', reason: integrity.problem, integrity };
+    }
+    if (photo.sha256 && integrity.sha256 !== photo.sha256) {
+      return { status: 'invalid', reason: 'checksum mismatch', integrity };
     }
 
-    return 'ok';
+    return { status: 'ok', integrity };
   } catch (error) {
     if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-      return 'missing';
+      return { status: 'missing' };
     }
 
-    return 'invalid';
+    return { status: 'invalid', reason: `file check error: ${(error as Error).message}` };
+  }
+}
+
+/**
+ * Whether a video's poster frame is on disk and usable (always true for images and posterless videos)
+ * Posters have no recorded size or digest: only emptiness, and structure in a deep pass, are checked
+ */
+async function hasUsablePoster(
+  backupRoot: string,
+  photo: Photo,
+  options: IncrementalDetectionOptions
+): Promise<boolean> {
+  if (photo.media_type !== 'video' || !photo.url_poster) return true;
+
+  const filename = generateMediaFilename(getPosterMediaId(photo.id), inferContentTypeFromUrl(photo.url_poster));
+  const localPath = getMediaPath(backupRoot, filename);
+  try {
+    if ((await stat(localPath)).size === 0) return false;
+    return options.deep ? !(await checkMediaIntegrity(localPath)).problem : true;
+  } catch {
+    return false;
   }
 }
 
+/**
+ * Map photo IDs to their recorded content types so media filenames resolve correctly
+ */
+export function buildContentTypeMap(photos: Photo[]): Map<string, string> {
+  const contentTypeById = new Map<string, string>();
+  for (const photo of photos) {
+    if (photo.content_type) {
+      contentTypeById.set(photo.id, photo.content_type);
+    }
+  }
+  return contentTypeById;
+}
+
 export async function detectIncrementalPhotos(
   backupRoot: string,
   discoveredPhotos: Photo[],
@@ -63,6 +135,10 @@ export async function detectIncrementalPhotos(
   const newItems: Photo[] = [];
   const missingItems: Photo[] = [];
   const invalidItems: Photo[] = [];
+  const posterItems: Photo[] = [];
+  const lostItems: Photo[] = [];
+  const invalidReasons = new Map<string, string>();
+  const integrityById = new Map<string, MediaIntegrity>();
 
   const manifestPhotos = manifest.content.photos;
   const manifestIds = new Set(manifestPhotos.map((photo) => photo.id));
@@ -74,13 +150,53 @@ export async function detectIncrementalPhotos(
   }
 
   for (const photo of manifestPhotos) {
-    const status = await classifyManifestPhoto(backupRoot, photo, options);
-    if (status === 'missing') {
+    const { status, reason, integrity } = await classifyManifestPhoto(backupRoot, photo, options);
+    if (integrity) {
+      integrityById.set(photo.id, integrity);
+    }
+    if (status !== 'ok' && photo.deleted_upstream) {
+      lostItems.push(photo);
+      if (status === 'invalid') invalidReasons.set(photo.id, reason ?? 'invalid');
+    } else if (status === 'missing') {
       missingItems.push(photo);
     } else if (status === 'invalid') {
       invalidItems.push(photo);
+      invalidReasons.set(photo.id, reason ?? 'invalid');
+    } else if (!(await hasUsablePoster(backupRoot, photo, options))) {
+      // A missing or invalid video is queued with its poster; a valid one needs the poster alone
+      posterItems.push(photo);
+    }
+  }
+
+  return { newItems, missingItems, invalidItems, posterItems, lostItems, invalidReasons, integrityById };
+}
+
+/** Consecutive already-backed-up photos after which incremental discovery stops */
+export const DEFAULT_KNOWN_STREAK = 24;
+
+/** Every this many runs, incremental discovery walks the whole profile anyway */
+export const DEFAULT_FULL_SWEEP_EVERY = 10;
+
+/**
+ * Whether this run has to walk the whole profile even in incremental mode, so deletions
+ * and edits to older photos are still noticed
+ * A full sweep is due when the previous `fullSweepEvery - 1` finished runs all stopped early,
+ * or no finished run ever swept the whole profile
+ *
+ * @param manifest - Manifest including the current (running) run
+ * @param fullSweepEvery - Sweep the whole profile at least once every this many runs
+ */
+export function isFullSweepDue(manifest: BackupManifest, fullSweepEvery: number = DEFAULT_FULL_SWEEP_EVERY): boolean {
+  const finished = manifest.backup_runs.filter((run) => run.status === 'success' || run.status === 'partial');
+
+  let runsSinceSweep = 0;
+  for (const run of [...finished].reverse()) {
+    if (run.full_sweep !== false) {
+      // Runs from before incremental discovery always walked the whole profile
+      return runsSinceSweep + 1 >= fullSweepEvery;
     }
+    runsSinceSweep++;
   }
 
-  return { newItems, missingItems, invalidItems };
+  return true;
 }
@@ -1,17 +1,93 @@
 import { join } from 'path';
 import { getLogger } from '../utils/logger.js';
-import { discoverProfile } from '../vsco/index.js';
-import { loadManifest, saveManifestAtomic, recordBackupRunStart, recordBackupRunFinish } from '../manifest/io.js';
-import { detectIncrementalPhotos } from './incremental.js';
+import { discoverProfile, scrapeGalleries, scrapeBlogPosts, VSCO_ORIGIN } from '../vsco/index.js';
+import {
+  loadManifest,
+  saveManifestAtomic,
+  recordBackupRunStart,
+  recordBackupRunResume,
+  recordBackupRunFinish,
+  recordRobotsPolicy
+} from '../manifest/io.js';
+import { detectIncrementalPhotos, buildContentTypeMap, isFullSweepDue } from './incremental.js';
+import { applyUpstreamChanges, keepReplacedFiles } from './changes.js';
+import { mapGallery, mergeGalleries } from './galleries.js';
+import { mergeBlogPosts } from './blog-posts.js';
+import { applyProfileIdentity, mapProfileIdentity } from './profile-identity.js';
+import {
+  readCheckpoint,
+  recordCheckpointDiscovery,
+  recordCheckpointAsset,
+  removeCheckpoint,
+  findResumableRun
+} from './checkpoint.js';
+import type { Checkpoint, CheckpointAsset, CheckpointDiscovery } from './checkpoint.js';
+import { mapPhotoMetadata, applyFileMetadata, refreshPhotoMetadata } from './photo-metadata.js';
 import { createVscoSession } from './session.js';
+import type { VscoSession } from './session.js';
 import { downloadAssets } from '../download/downloader.js';
+import type { DownloadTask } from '../download/downloader.js';
+import { buildDownloadQueue } from '../download/queue.js';
+import {
+  writeFailureReport,
+  buildFailureSummary,
+  buildFailureEntries,
+  buildSkippedImageEntries,
+  DEFAULT_FAIL_THRESHOLD
+} from '../download/failure-report.js';
+import { DownloadError, InvalidInputError, RobotsDisallowedError } from '../utils/errors.js';
+import { checkRobotsPolicy } from '../utils/robots.js';
+import { createHostRateLimiter } from '../utils/ratelimit.js';
+import type { HostRateLimiter } from '../utils/ratelimit.js';
 import { generateSite } from '../site/index.js';
+import { writeRunSnapshot } from './snapshots.js';
+import {
+  createFixtureRecorder,
+  createFixtureReplay,
+  getFixtureBundlePath,
+  readFixtureBundle,
+  writeFixtureBundle
+} from '../qa/fixtures.js';
 import { normalizeRemoteUrl } from '../utils/url.js';
-import type { Photo as ManifestPhoto, Gallery as ManifestGallery, BlogPost as ManifestBlogPost } from '../manifest/types.js';
-import type { Photo as DiscoveryPhoto, Gallery as DiscoveryGallery, BlogPost as DiscoveryBlogPost } from '../vsco/types.js';
+import { inferContentTypeFromUrl } from '../utils/paths.js';
+import { readImageMetadata } from '../utils/exif.js';
+import type { Photo as ManifestPhoto, BlogPost as ManifestBlogPost } from '../manifest/types.js';
+import type { Photo as DiscoveryPhoto, BlogPost as DiscoveryBlogPost } from '../vsco/types.js';
 
-function mapPhoto(photo: DiscoveryPhoto): ManifestPhoto | null {
+/** Save the manifest after this many completed downloads... */
+const CHECKPOINT_SAVE_EVERY = 25;
+/** ...or once this much time has passed since the last save */
+const CHECKPOINT_SAVE_INTERVAL_MS = 30000;
+
+/**
+ * Store digest, size and detected MIME type for every photo downloaded in this run,
+ * plus whatever dimensions/EXIF the file adds to VSCO's metadata
+ * Clears an 'invalid' integrity flag once the file has been replaced
+ */
+function recordDownloadedIntegrity(photos: ManifestPhoto[], completed: Map<string, CheckpointAsset>): void {
+  for (const photo of photos) {
+    const asset = completed.get(photo.id);
+    if (!asset) continue;
+
+    photo.sha256 = asset.sha256;
+    photo.size_bytes = asset.size_bytes;
+    photo.mime_type = asset.mime_type;
+    photo.integrity = 'ok';
+    applyFileMetadata(photo, asset);
+  }
+}
+
+function mapPhoto(photo: DiscoveryPhoto, baseUrl: string): ManifestPhoto | null {
   const logger = getLogger();
+
+  if (photo.mediaType === 'video') {
+    const video = mapVideo(photo, baseUrl);
+    if (video) {
+      return video;
+    }
+    logger.warn(`No downloadable MP4 rendition for video ${photo.id}; backing up its poster frame only`);
+  }
+
   const normalized = normalizeRemoteUrl(photo.imageUrl || '');
   
   if (!normalized.ok) {
@@ -22,16 +98,29 @@ function mapPhoto(photo: DiscoveryPhoto): ManifestPhoto | null {
   return {
     id: photo.id,
     url_highres: normalized.url,
-    caption: photo.caption,
+    media_type: 'image',
+    content_type: inferContentTypeFromUrl(normalized.url),
+    ...mapPhotoMetadata(photo, baseUrl),
     downloaded_at: new Date().toISOString()
   };
 }
 
-function mapGallery(gallery: DiscoveryGallery): ManifestGallery {
+function mapVideo(photo: DiscoveryPhoto, baseUrl: string): ManifestPhoto | null {
+  const normalized = normalizeRemoteUrl(photo.videoUrl || '');
+  if (!normalized.ok) {
+    return null;
+  }
+
+  const poster = normalizeRemoteUrl(photo.posterUrl || photo.imageUrl || '');
+
   return {
-    id: gallery.id,
-    name: gallery.name || 'Untitled Gallery',
-    photo_ids: []
+    id: photo.id,
+    url_highres: normalized.url,
+    media_type: 'video',
+    content_type: inferContentTypeFromUrl(normalized.url, 'video/mp4'),
+    url_poster: poster.ok ? poster.url : undefined,
+    ...mapPhotoMetadata(photo, baseUrl),
+    downloaded_at: new Date().toISOString()
   };
 }
 
@@ -45,89 +134,478 @@ function mapBlogPost(post: DiscoveryBlogPost): ManifestBlogPost {
   };
 }
 
+/**
+ * Discover photos, galleries and blog posts, mapped to manifest entities
+ */
+async function discoverContent(
+  page: VscoSession['page'],
+  username: string,
+  backupRoot: string,
+  runId: string,
+  previousPosts: ManifestBlogPost[],
+  options?: BackupOptions,
+  knownIds?: ReadonlySet<string>
+): Promise<CheckpointDiscovery> {
+  const discovery = await discoverProfile(username, {
+    navigationTimeout: options?.timeoutMs,
+    maxScrollCycles: options?.maxScrollCycles,
+    maxItems: options?.maxItems,
+    headless: options?.headless,
+    page,
+    backupRoot,
+    runId,
+    baseUrl: options?.baseUrl,
+    knownIds,
+    knownStreak: knownIds ? options?.knownStreak : undefined
+  });
+  if (discovery.errorMessage) {
+    throw new Error(discovery.errorMessage);
+  }
+
+  const scrapedGalleries = await scrapeGalleries(page, username, {
+    navigationTimeout: options?.timeoutMs,
+    baseUrl: options?.baseUrl
+  });
+  const journal = await scrapeBlogPosts(page, username, options?.baseUrl);
+
+  return {
+    photos: discovery.photos
+      .map((photo) => mapPhoto(photo, options?.baseUrl ?? VSCO_ORIGIN))
+      .filter((photo): photo is ManifestPhoto => photo !== null),
+    galleries: scrapedGalleries.length > 0
+      ? scrapedGalleries
+      : discovery.galleries.map(mapGallery),
+    galleries_complete: scrapedGalleries.length > 0,
+    blog_posts: mergeBlogPosts(
+      journal.posts.length > 0 ? journal.posts : discovery.blogPosts.map(mapBlogPost),
+      previousPosts,
+      { complete: journal.complete }
+    ),
+    discovered_count: discovery.photos.length,
+    complete: discovery.isComplete === true,
+    identity: discovery.identity && mapProfileIdentity(discovery.identity)
+  };
+}
+
 export interface BackupOptions {
   timeoutMs?: number;
   maxScrollCycles?: number;
   maxItems?: number;
   headless?: boolean;
+  /** Maximum tolerated download failure rate (0-1) before the run fails */
+  failThreshold?: number;
+  /** Proceed even when robots.txt disallows crawling the profile */
+  ignoreRobots?: boolean;
+  /**
+   * Browser session to reuse (batch mode)
+   * The caller owns it: orchestrateBackup never closes a session it did not create
+   */
+  session?: VscoSession;
+  /** Per-host rate limiter shared across profiles (batch mode) */
+  rateLimiter?: HostRateLimiter;
+  /** Number of concurrent downloads */
+  concurrency?: number;
+  /** Sustained requests per second per host (ignored when rateLimiter is given) */
+  requestsPerSecond?: number;
+  /**
+   * Continue an interrupted run instead of starting a new one
+   * true resumes the most recent run; a string names the run_id
+   */
+  resume?: boolean | string;
+  /** Photos per page in the generated archive */
+  pageSize?: number;
+  /** Theme directory for the generated site */
+  theme?: string;
+  /** Badge photos removed from VSCO in the generated site */
+  markRemoved?: boolean;
+  /** Directory to save this run's network traffic to, as <username>.har.json */
+  recordFixtures?: string;
+  /** Directory of recorded bundles to answer every request from, instead of the network */
+  replayFixtures?: string;
+  /** Origin to scrape instead of https://vsco.co, e.g. a local mock server in end-to-end tests */
+  baseUrl?: string;
+  /**
+   * Incremental discovery: stop after this many consecutive already backed-up photos
+   * Off (whole profile every run) when unset
+   */
+  knownStreak?: number;
+  /** In incremental mode, walk the whole profile at least once every this many runs (default 10) */
+  fullSweepEvery?: number;
+}
+
+export interface BackupResult {
+  username: string;
+  backupRoot: string;
+  runId: string;
+  status: 'success' | 'partial';
+  newCount: number;
+  downloadedCount: number;
+  failedCount: number;
 }
 
-export async function orchestrateBackup(username: string, outRoot: string, options?: BackupOptions): Promise<void> {
+export async function orchestrateBackup(
+  username: string,
+  outRoot: string,
+  options?: BackupOptions
+): Promise<BackupResult> {
   const logger = getLogger();
   const backupRoot = join(outRoot, username);
-  const profileUrl = `https://vsco.co/${username}`;
-  let session: Awaited<ReturnType<typeof createVscoSession>> | null = null;
+  const baseUrl = options?.baseUrl ?? VSCO_ORIGIN;
+  const profileUrl = `${baseUrl}/${username}`;
+  let session: VscoSession | null = null;
+  const ownsSession = !options?.session;
+
+  // Fixture bundles: record this run's traffic, or answer it from a recording with no network
+  const recorder = options?.recordFixtures ? createFixtureRecorder() : null;
+  const replay = options?.replayFixtures
+    ? createFixtureReplay(await readFixtureBundle(getFixtureBundlePath(options.replayFixtures, username)))
+    : null;
+  const fetchImpl = replay?.fetch ?? recorder?.fetch;
+  let detachFixtures: (() => void | Promise<void>) | null = null;
 
-  logger.info(`Starting backup for ${username}`);
-  
   const manifest = await loadManifest(backupRoot, username, profileUrl);
-  const runId = recordBackupRunStart(manifest);
+
+  let runId: string;
+  let checkpoint: Checkpoint | null = null;
+  if (options?.resume) {
+    const requestedRunId = typeof options.resume === 'string' ? options.resume : undefined;
+    const resumeRun = findResumableRun(manifest, requestedRunId);
+    if (!resumeRun) {
+      throw InvalidInputError.fromNoResumableRun(username, requestedRunId);
+    }
+
+    runId = resumeRun.run_id;
+    recordBackupRunResume(manifest, runId);
+    checkpoint = await readCheckpoint(backupRoot, runId);
+    logger.info(`Resuming backup run ${runId} for ${username}`);
+  } else {
+    runId = recordBackupRunStart(manifest);
+    logger.info(`Starting backup for ${username}`);
+  }
+  await saveManifestAtomic(backupRoot, manifest);
+  // Set once the run's outcome is recorded with its real counts
+  let runFinished = false;
 
   try {
-    session = await createVscoSession({
-      headless: options?.headless,
-    });
-    const discovery = await discoverProfile(username, {
-      navigationTimeout: options?.timeoutMs,
-      maxScrollCycles: options?.maxScrollCycles,
-      maxItems: options?.maxItems,
+    const robots = await checkRobotsPolicy(username, fetchImpl, baseUrl);
+    const robotsPolicy = {
+      allowed: robots.allowed,
+      reason: robots.reason ?? '',
+      fetch_success: robots.fetchSuccess,
+      ignored: options?.ignoreRobots ?? false
+    };
+    recordRobotsPolicy(manifest, runId, robotsPolicy);
+
+    if (!robots.fetchSuccess) {
+      logger.warn(`Could not fetch robots.txt: ${robots.reason}`);
+    }
+    if (!robots.allowed) {
+      if (!robotsPolicy.ignored) {
+        throw RobotsDisallowedError.fromRobotsPolicy(username);
+      }
+      logger.warn(`robots.txt disallows crawling ${username}; continuing because --ignore-robots was set`);
+    } else {
+      logger.debug(`Robots policy: ${robots.reason}`);
+    }
+
+    session = options?.session ?? await createVscoSession({
       headless: options?.headless,
-      page: session.page,
-      backupRoot,
-      runId
     });
-    if (discovery.errorMessage) {
-      throw new Error(discovery.errorMessage);
+    if (replay) {
+      detachFixtures = await replay.attach(session.page);
+    } else if (recorder) {
+      detachFixtures = recorder.attach(session.page);
     }
 
-    const manifestPhotos = discovery.photos
-      .map(mapPhoto)
-      .filter((photo): photo is ManifestPhoto => photo !== null);
-    const incremental = await detectIncrementalPhotos(backupRoot, manifestPhotos, manifest);
-    
-    const itemsToDownload = [...incremental.newItems, ...incremental.missingItems, ...incremental.invalidItems];
+    let discovered: CheckpointDiscovery;
+    if (checkpoint?.discovery) {
+      discovered = checkpoint.discovery;
+      logger.info(
+        `Using checkpointed discovery (${discovered.photos.length} items, ` +
+          `${checkpoint.completed.size} downloads already done); skipping profile scroll`
+      );
+    } else {
+      if (options?.resume) {
+        logger.warn(`No discovery checkpoint for run ${runId}; discovering the profile again`);
+      }
+      let knownIds: Set<string> | undefined;
+      if (options?.knownStreak !== undefined) {
+        if (isFullSweepDue(manifest, options.fullSweepEvery)) {
+          logger.info('Incremental discovery: full sweep due, walking the whole profile');
+        } else {
+          knownIds = new Set(manifest.content.photos.map((photo) => photo.id));
+          logger.info(`Incremental discovery: stopping after ${options.knownStreak} consecutive known photos`);
+        }
+      }
+      discovered = await discoverContent(
+        session.page,
+        username,
+        backupRoot,
+        runId,
+        manifest.content.blog_posts,
+        options,
+        knownIds
+      );
+      await recordCheckpointDiscovery(backupRoot, runId, discovered);
+    }
+
+    const { photos: manifestPhotos, galleries, blog_posts: blogPosts } = discovered;
+    const upstream = applyUpstreamChanges(manifest.content.photos, manifestPhotos, {
+      runId,
+      now: new Date().toISOString(),
+      complete: discovered.complete === true
+    });
+    if (upstream.edited.length > 0) {
+      logger.info(`${upstream.edited.length} backed-up photos were edited on VSCO (recorded as revisions)`);
+    }
+    const keptFiles = await keepReplacedFiles(backupRoot, upstream.replacedFiles);
+    if (keptFiles > 0) {
+      logger.info(`${keptFiles} photos were replaced on VSCO; the previous files are kept next to the new ones`);
+    }
+    if (upstream.deleted.length > 0) {
+      logger.info(`${upstream.deleted.length} backed-up photos are no longer on VSCO; local copies are kept`);
+    }
+    if (upstream.restored.length > 0) {
+      logger.debug(`${upstream.restored.length} photos marked as removed are back on VSCO`);
+    }
+    const identityChanges = applyProfileIdentity(manifest.profile, discovered.identity, {
+      runId,
+      now: new Date().toISOString()
+    });
+    if (identityChanges.some((change) => change.field === 'site_id')) {
+      logger.warn(`${username} now belongs to a different VSCO account (site ID changed); its history is kept`);
+    }
+    if (identityChanges.length > 0) {
+      logger.info(`Profile details changed on VSCO: ${identityChanges.map((change) => change.field).join(', ')}`);
+    }
+    const refreshed = refreshPhotoMetadata(manifest.content.photos, manifestPhotos);
+    if (refreshed > 0) {
+      logger.debug(`Updated metadata for ${refreshed} previously backed-up photos`);
+    }
+    const contentTypeById = buildContentTypeMap([...manifest.content.photos, ...manifestPhotos]);
+    const incremental = await detectIncrementalPhotos(backupRoot, manifestPhotos, manifest, {
+      contentTypeById
+    });
     
-    const downloadTasks = itemsToDownload.map(photo => ({
-      url: photo.url_highres,
+    if (incremental.lostItems.length > 0) {
+      logger.warn(
+        `${incremental.lostItems.length} photos removed from VSCO have no valid local copy and cannot be ` +
+          `downloaded again: ${incremental.lostItems.map((photo) => photo.id).join(', ')}`
+      );
+    }
+
+    const { queue } = buildDownloadQueue(
+      {
+        new: incremental.newItems,
+        missing: incremental.missingItems,
+        invalid: incremental.invalidItems,
+        posters: [...incremental.posterItems, ...upstream.posters]
+      },
+      blogPosts,
+      contentTypeById
+    );
+
+    // Assets finished before an interruption are kept unless they have since gone missing
+    const completed = new Map(checkpoint?.completed);
+    const downloadTasks: DownloadTask[] = queue.map(item => ({
+      url: item.url,
       backupRoot,
-      mediaId: photo.id,
-      contentType: 'image/jpeg'
+      mediaId: item.mediaId,
+      contentType: item.contentType ?? 'image/jpeg',
+      force: item.force && !completed.has(item.mediaId)
     }));
+    const { avatar } = manifest.profile;
+    if (avatar) {
+      downloadTasks.push({
+        url: avatar.url,
+        backupRoot,
+        mediaId: avatar.media_id,
+        contentType: avatar.content_type
+      });
+    }
+
+    // New photos join the manifest as their files land, so a crash loses at most one save interval
+    const pendingNew = new Map(incremental.newItems.map((photo) => [photo.id, photo]));
+    const flushCompleted = async () => {
+      for (const id of completed.keys()) {
+        const photo = pendingNew.get(id);
+        if (photo) {
+          manifest.content.photos.push(photo);
+          pendingNew.delete(id);
+        }
+      }
+      recordDownloadedIntegrity(manifest.content.photos, completed);
+      await saveManifestAtomic(backupRoot, manifest);
+    };
+
+    let savedAt = Date.now();
+    let completedSinceSave = 0;
+    let saving: Promise<void> = Promise.resolve();
+
+    const { results } = await downloadAssets(downloadTasks, {
+      page: session.page,
+      rateLimiter: options?.rateLimiter ?? createHostRateLimiter({
+        requestsPerSecond: options?.requestsPerSecond
+      }),
+      concurrency: options?.concurrency,
+      fetchImpl,
+      origin: baseUrl,
+      onResult: async (result) => {
+        if (!result.success || !result.downloaded) {
+          return;
+        }
 
-    const { results } = await downloadAssets(downloadTasks);
+        const asset: CheckpointAsset = {
+          media_id: result.task.mediaId,
+          size_bytes: result.sizeBytes,
+          sha256: result.sha256,
+          mime_type: result.mimeType
+        };
+        if (result.localPath) {
+          try {
+            Object.assign(asset, await readImageMetadata(result.localPath, result.mimeType));
+          } catch (error) {
+            logger.debug(`Could not read image metadata for ${asset.media_id}: ${(error as Error).message}`);
+          }
+        }
+        completed.set(asset.media_id, asset);
+        await recordCheckpointAsset(backupRoot, runId, asset);
 
-    for (const photo of incremental.newItems) {
+        completedSinceSave++;
+        if (completedSinceSave >= CHECKPOINT_SAVE_EVERY || Date.now() - savedAt >= CHECKPOINT_SAVE_INTERVAL_MS) {
+          completedSinceSave = 0;
+          savedAt = Date.now();
+          saving = saving.then(flushCompleted);
+          await saving;
+        }
+      }
+    });
+    await saving;
+
+    const failureSummary = buildFailureSummary(
+      results,
+      discovered.discovered_count,
+      options?.failThreshold ?? DEFAULT_FAIL_THRESHOLD
+    );
+    const skippedImages = buildSkippedImageEntries(blogPosts);
+    if (failureSummary.failed > 0 || skippedImages.length > 0) {
+      await writeFailureReport(backupRoot, runId, failureSummary, buildFailureEntries(results), skippedImages);
+    }
+    if (failureSummary.failed > 0) {
+      logger.warn(
+        `${failureSummary.failed}/${failureSummary.attempted} downloads failed ` +
+          `(see .vsco-backup/logs/download-failures-${runId}.json)`
+      );
+    }
+    if (skippedImages.length > 0) {
+      logger.warn(
+        `${skippedImages.length} journal images could not be downloaded and stay remote ` +
+          `(see .vsco-backup/logs/download-failures-${runId}.json)`
+      );
+    }
+
+    for (const photo of pendingNew.values()) {
       manifest.content.photos.push(photo);
     }
+    recordDownloadedIntegrity(manifest.content.photos, completed);
     
-    manifest.content.galleries = discovery.galleries.map(mapGallery);
-    manifest.content.blog_posts = discovery.blogPosts.map(mapBlogPost);
+    manifest.content.galleries = mergeGalleries(galleries, manifest.content.galleries, {
+      complete: discovered.galleries_complete === true
+    });
+    manifest.content.blog_posts = blogPosts;
 
-    recordBackupRunFinish(manifest, runId, {
+    const runCounts = {
       new_content_count: incremental.newItems.length,
       missing_content_count: incremental.missingItems.length,
       invalid_content_count: incremental.invalidItems.length,
-      downloaded_items: results.filter(r => r.success && r.downloaded).map(r => r.task.mediaId)
-    });
+      downloaded_items: [...completed.keys()],
+      edited_content_count: upstream.edited.length,
+      deleted_upstream_count: upstream.deleted.length,
+      full_sweep: discovered.complete === true
+    };
+    if (failureSummary.verdict === 'FAIL') {
+      // The merged content and real counts are saved by the catch below; the checkpoint stays for --resume
+      const error = DownloadError.fromPartialDownload(failureSummary.succeeded, failureSummary.attempted);
+      recordBackupRunFinish(manifest, runId, runCounts, 'failed', error.message);
+      runFinished = true;
+      throw error;
+    }
+
+    recordBackupRunFinish(manifest, runId, runCounts, failureSummary.failed > 0 ? 'partial' : 'success',
+      failureSummary.failed > 0 ? `${failureSummary.failed} downloads failed` : undefined);
 
     await saveManifestAtomic(backupRoot, manifest);
+    await removeCheckpoint(backupRoot, runId);
+    await writeRunSnapshot(backupRoot, manifest, runId);
 
-    await generateSite(backupRoot);
+    await generateSite(backupRoot, {
+      pageSize: options?.pageSize,
+      theme: options?.theme,
+      markRemoved: options?.markRemoved
+    });
+
+    logger.summary({
+      discovered: {
+        photos: discovered.discovered_count,
+        galleries: manifest.content.galleries.length,
+        blog: manifest.content.blog_posts.length
+      },
+      queue: {
+        size: results.length,
+        completed: failureSummary.succeeded + failureSummary.skippedValid,
+        failed: failureSummary.failed
+      },
+      summary: {
+        new: incremental.newItems.length,
+        missing: incremental.missingItems.length,
+        invalid: incremental.invalidItems.length,
+        redownloaded: failureSummary.succeeded
+      },
+      robots: robotsPolicy
+    });
+
+    if (failureSummary.failed > 0) {
+      logger.info(`Backup completed with ${failureSummary.failed} failed downloads for ${username}`);
+    } else {
+      logger.info(`Backup completed successfully for ${username}`);
+    }
 
-    logger.info(`Backup completed successfully for ${username}`);
+    return {
+      username,
+      backupRoot,
+      runId,
+      status: failureSummary.failed > 0 ? 'partial' : 'success',
+      newCount: incremental.newItems.length,
+      downloadedCount: failureSummary.succeeded,
+      failedCount: failureSummary.failed
+    };
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     logger.error(`Backup failed: ${message}`);
-    recordBackupRunFinish(manifest, runId, {
-      new_content_count: 0,
-      missing_content_count: 0,
-      invalid_content_count: 0,
-      downloaded_items: []
-    }, 'failed', message);
+    if (!runFinished) {
+      recordBackupRunFinish(manifest, runId, {
+        new_content_count: 0,
+        missing_content_count: 0,
+        invalid_content_count: 0,
+        downloaded_items: []
+      }, 'failed', message);
+    }
     await saveManifestAtomic(backupRoot, manifest);
     throw error;
   } finally {
-    if (session) {
+    try {
+      await detachFixtures?.();
+      if (recorder && options?.recordFixtures) {
+        const bundlePath = getFixtureBundlePath(options.recordFixtures, username);
+        await writeFixtureBundle(bundlePath, await recorder.finish());
+        logger.info(`Fixture bundle written to ${bundlePath}`);
+      }
+    } catch (fixtureError) {
+      const fixtureMessage = fixtureError instanceof Error ? fixtureError.message : String(fixtureError);
+      logger.warn(`Failed to save fixture bundle: ${fixtureMessage}`);
+    }
+
+    if (session && ownsSession) {
       try {
         await session.close();
       } catch (closeError) {
@@ -0,0 +1,133 @@
+/**
+ * Offline inspection of an existing backup: status counts and file verification
+ * Nothing here touches the network or the browser
+ */
+
+import { readManifest } from '../manifest/io.js';
+import type { BackupManifest, BackupRun, Photo } from '../manifest/types.js';
+import { InvalidInputError } from '../utils/errors.js';
+import { detectIncrementalPhotos, buildContentTypeMap } from './incremental.js';
+
+export interface BackupStatus {
+  username: string;
+  profileUrl: string;
+  displayName?: string;
+  /** VSCO's stable site ID, if a backup has read it */
+  siteId?: string;
+  /** Backup runs that noticed profile identity edits (name, bio, avatar, links) */
+  profileRevisionCount: number;
+  photoCount: number;
+  videoCount: number;
+  galleryCount: number;
+  blogPostCount: number;
+  /** Photos and videos kept locally after being removed from VSCO */
+  deletedUpstreamCount: number;
+  /** Photos and videos with recorded upstream edits */
+  editedCount: number;
+  runCount: number;
+  lastRun?: BackupRun;
+}
+
+export interface VerifyResult {
+  checked: number;
+  missing: Photo[];
+  invalid: Photo[];
+  /** Photos removed from VSCO whose file is missing or invalid; a backup cannot download them again */
+  lost: Photo[];
+  /** Why each invalid (or lost, invalid) photo was rejected, keyed by photo ID */
+  invalidReasons: Map<string, string>;
+  /** Whether any photo's integrity fields changed (the manifest needs saving) */
+  updated: boolean;
+}
+
+/**
+ * Read the manifest of an existing backup
+ * A missing manifest is reported as invalid input rather than a raw ENOENT
+ */
+export async function openBackup(backupRoot: string): Promise<BackupManifest> {
+  try {
+    return await readManifest(backupRoot);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw InvalidInputError.fromMissingBackup(backupRoot);
+    }
+    throw error;
+  }
+}
+
+export function summarizeBackup(manifest: BackupManifest): BackupStatus {
+  const { photos, galleries, blog_posts } = manifest.content;
+  const videoCount = photos.filter((photo) => photo.media_type === 'video').length;
+
+  return {
+    username: manifest.profile.username,
+    profileUrl: manifest.profile.profile_url,
+    displayName: manifest.profile.display_name,
+    siteId: manifest.profile.site_id,
+    profileRevisionCount: manifest.profile.identity_revisions?.length ?? 0,
+    photoCount: photos.length - videoCount,
+    videoCount,
+    galleryCount: galleries.length,
+    blogPostCount: blog_posts.length,
+    deletedUpstreamCount: photos.filter((photo) => photo.deleted_upstream).length,
+    editedCount: photos.filter((photo) => photo.revisions?.length).length,
+    runCount: manifest.backup_runs.length,
+    lastRun: manifest.backup_runs[manifest.backup_runs.length - 1],
+  };
+}
+
+/**
+ * Re-hash and structurally check every media file recorded in the manifest
+ * Corrupted photos are flagged 'invalid' so the next backup re-downloads them;
+ * intact photos without a recorded digest get one, unless they are already flagged
+ */
+export async function verifyBackup(
+  backupRoot: string,
+  manifest: BackupManifest
+): Promise<VerifyResult> {
+  const photos = manifest.content.photos;
+  const { missingItems, invalidItems, lostItems, invalidReasons, integrityById } = await detectIncrementalPhotos(
+    backupRoot,
+    photos,
+    manifest,
+    { contentTypeById: buildContentTypeMap(photos), deep: true }
+  );
+
+  const invalidIds = new Set(
+    [...invalidItems, ...lostItems].map((photo) => photo.id).filter((id) => invalidReasons.has(id))
+  );
+  let updated = false;
+
+  for (const photo of photos) {
+    if (invalidIds.has(photo.id)) {
+      if (photo.integrity !== 'invalid') {
+        photo.integrity = 'invalid';
+        updated = true;
+      }
+      continue;
+    }
+
+    // Without a digest a flagged file cannot be cleared: it may be the image VSCO has since replaced
+    if (photo.integrity === 'invalid' && !photo.sha256) {
+      continue;
+    }
+
+    const integrity = integrityById.get(photo.id);
+    if (integrity && (!photo.sha256 || photo.integrity !== 'ok')) {
+      photo.sha256 = integrity.sha256;
+      photo.size_bytes = integrity.sizeBytes;
+      photo.mime_type = integrity.mimeType ?? undefined;
+      photo.integrity = 'ok';
+      updated = true;
+    }
+  }
+
+  return {
+    checked: photos.length,
+    missing: missingItems,
+    invalid: invalidItems,
+    lost: lostItems,
+    invalidReasons,
+    updated,
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * Tests for mapping and merging descriptive photo metadata
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { mapPhotoMetadata, applyFileMetadata, refreshPhotoMetadata } from './photo-metadata.js';
+import type { Photo } from '../manifest/types.js';
+
+function manifestPhoto(overrides: Partial<Photo> = {}): Photo {
+  return {
+    id: 'p1',
+    url_highres: 'https://im.vsco.co/p1.jpg',
+    downloaded_at: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('mapPhotoMetadata', () => {
+  it('should map discovery fields and resolve relative permalinks', () => {
+    const fields = mapPhotoMetadata({
+      id: 'p1',
+      permalink: '/alice/media/p1',
+      uploadDate: '2023-06-15T03:33:20.000Z',
+      width: 3000,
+      height: 2000,
+      preset: 'A6',
+      exif: { make: 'FUJIFILM', exposureTime: '1/250' },
+      tags: ['film'],
+    });
+
+    expect(fields).toEqual({
+      permalink: 'https://vsco.co/alice/media/p1',
+      uploaded_at: '2023-06-15T03:33:20.000Z',
+      width: 3000,
+      height: 2000,
+      preset: 'A6',
+      exif: { camera_make: 'FUJIFILM', exposure_time: '1/250' },
+      tags: ['film'],
+    });
+  });
+
+  it('should resolve relative permalinks against the scraped origin', () => {
+    expect(mapPhotoMetadata({ id: 'p1', permalink: '/alice/media/p1' }, 'http://127.0.0.1:8080').permalink).toBe(
+      'http://127.0.0.1:8080/alice/media/p1'
+    );
+  });
+});
+
+describe('applyFileMetadata', () => {
+  it('should only fill fields VSCO left out', () => {
+    const photo = manifestPhoto({ width: 3000, exif: { camera_model: 'X100V' } });
+
+    applyFileMetadata(photo, {
+      width: 1600,
+      height: 1067,
+      exif: { model: 'X100 V', iso: 400, capturedAt: '2023-06-14T18:42:07' },
+    });
+
+    expect(photo.width).toBe(3000);
+    expect(photo.height).toBe(1067);
+    expect(photo.captured_at).toBe('2023-06-14T18:42:07');
+    expect(photo.exif).toEqual({ camera_model: 'X100V', iso: 400 });
+  });
+});
+
+describe('refreshPhotoMetadata', () => {
+  it('should update existing photos from this run without touching download fields', () => {
+    const existing = [
+      manifestPhoto({ sha256: 'abc', exif: { iso: 400 } }),
+      manifestPhoto({ id: 'p2', preset: 'C1' }),
+    ];
+    const discovered = [
+      manifestPhoto({
+        downloaded_at: '2026-02-01T00:00:00.000Z',
+        uploaded_at: '2023-06-15T03:33:20.000Z',
+        exif: { camera_make: 'FUJIFILM' },
+      }),
+      manifestPhoto({ id: 'p2', preset: 'C1' }),
+    ];
+
+    expect(refreshPhotoMetadata(existing, discovered)).toBe(1);
+    expect(existing[0]).toEqual({
+      ...manifestPhoto({ sha256: 'abc' }),
+      uploaded_at: '2023-06-15T03:33:20.000Z',
+      exif: { iso: 400, camera_make: 'FUJIFILM' },
+    });
+  });
+});
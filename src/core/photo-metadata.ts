@@ -0,0 +1,124 @@
+/**
+ * Descriptive photo metadata: dates, permalink, dimensions, preset, camera data and tags
+ * VSCO's own values win; the downloaded file's SOF/EXIF only fills gaps
+ */
+
+import type { Photo as ManifestPhoto, PhotoExif } from '../manifest/types.js';
+import type { Photo as DiscoveryPhoto } from '../vsco/types.js';
+import type { ExifData, ImageMetadata } from '../utils/exif.js';
+import { VSCO_ORIGIN } from '../vsco/url.js';
+
+/** Manifest fields derived from discovery metadata (refreshed on every run) */
+const DISCOVERY_FIELDS = [
+  'permalink',
+  'uploaded_at',
+  'captured_at',
+  'width',
+  'height',
+  'preset',
+  'exif',
+  'tags',
+  'caption',
+] as const;
+
+type DiscoveryField = (typeof DISCOVERY_FIELDS)[number];
+
+type PhotoMetadataFields = Pick<ManifestPhoto, DiscoveryField>;
+
+function toPhotoExif(exif: ExifData | undefined): PhotoExif | undefined {
+  if (!exif) return undefined;
+
+  const mapped: PhotoExif = {
+    camera_make: exif.make,
+    camera_model: exif.model,
+    lens: exif.lens,
+    aperture: exif.aperture,
+    exposure_time: exif.exposureTime,
+    iso: exif.iso,
+    focal_length: exif.focalLength,
+  };
+  const present = Object.fromEntries(Object.entries(mapped).filter(([, value]) => value !== undefined));
+  return Object.keys(present).length > 0 ? (present as PhotoExif) : undefined;
+}
+
+function toAbsolutePermalink(permalink: string | undefined, baseUrl: string): string | undefined {
+  if (!permalink) return undefined;
+  try {
+    return new URL(permalink, baseUrl).toString();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Map discovery metadata to manifest fields, leaving out anything VSCO did not provide
+ * @param baseUrl - Origin the profile was scraped from; relative permalinks resolve against it
+ */
+export function mapPhotoMetadata(
+  photo: DiscoveryPhoto,
+  baseUrl: string = VSCO_ORIGIN
+): Partial<PhotoMetadataFields> {
+  const fields: PhotoMetadataFields = {
+    permalink: toAbsolutePermalink(photo.permalink, baseUrl),
+    uploaded_at: photo.uploadDate,
+    captured_at: photo.captureDate,
+    width: photo.width,
+    height: photo.height,
+    preset: photo.preset,
+    exif: toPhotoExif(photo.exif),
+    tags: photo.tags,
+    caption: photo.caption,
+  };
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Fill dimensions, camera data and capture time the API left out from the file itself
+ */
+export function applyFileMetadata(photo: ManifestPhoto, file: ImageMetadata): void {
+  photo.width ??= file.width;
+  photo.height ??= file.height;
+  photo.captured_at ??= file.exif?.capturedAt;
+
+  const fileExif = toPhotoExif(file.exif);
+  if (fileExif) {
+    photo.exif = { ...fileExif, ...photo.exif };
+  }
+}
+
+/**
+ * Set a metadata field if the value is known and differs
+ * @returns Whether the photo changed
+ */
+function refreshField<K extends DiscoveryField>(photo: ManifestPhoto, field: K, value: ManifestPhoto[K]): boolean {
+  if (value === undefined || JSON.stringify(value) === JSON.stringify(photo[field])) return false;
+  photo[field] = value;
+  return true;
+}
+
+/**
+ * Copy this run's discovery metadata onto photos already in the manifest,
+ * so entries backed up before a field existed (or edited upstream since) catch up
+ * @returns Number of photos whose metadata changed
+ */
+export function refreshPhotoMetadata(existing: ManifestPhoto[], discovered: ManifestPhoto[]): number {
+  const byId = new Map(discovered.map((photo) => [photo.id, photo]));
+  let changed = 0;
+
+  for (const photo of existing) {
+    const fresh = byId.get(photo.id);
+    if (!fresh) continue;
+
+    let updated = false;
+    for (const field of DISCOVERY_FIELDS) {
+      // File-derived camera fields survive a refresh; VSCO's win where both exist
+      const value = field === 'exif' && fresh.exif ? { ...photo.exif, ...fresh.exif } : fresh[field];
+      if (refreshField(photo, field, value)) {
+        updated = true;
+      }
+    }
+    if (updated) changed++;
+  }
+
+  return changed;
+}
@@ -0,0 +1,87 @@
+/**
+ * Tests for applying profile identity readings and keeping their history
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { Profile } from '../manifest/types.js';
+import { applyProfileIdentity, getAvatarMediaId, mapProfileIdentity } from './profile-identity.js';
+
+const first = { runId: 'run-1', now: '2025-01-01T00:00:00.000Z' };
+const second = { runId: 'run-2', now: '2025-02-01T00:00:00.000Z' };
+
+function profile(): Profile {
+  return {
+    username: 'foo',
+    profile_url: 'https://vsco.co/foo',
+    last_backup_ts: '2025-01-01T00:00:00.000Z',
+    backup_version: '0.1.0',
+  };
+}
+
+describe('mapProfileIdentity', () => {
+  it('should give each avatar URL its own media ID', () => {
+    const identity = mapProfileIdentity({ siteId: '1', avatarUrl: 'https://im.vsco.co/avatar.png' });
+
+    expect(identity.avatar).toEqual({
+      media_id: getAvatarMediaId('https://im.vsco.co/avatar.png'),
+      url: 'https://im.vsco.co/avatar.png',
+      content_type: 'image/png',
+    });
+    expect(identity.avatar?.media_id).not.toBe(getAvatarMediaId('https://im.vsco.co/avatar-2.png'));
+  });
+});
+
+describe('applyProfileIdentity', () => {
+  it('should backfill the first reading without a revision', () => {
+    const stored = profile();
+
+    const changes = applyProfileIdentity(stored, { site_id: '1', display_name: 'Foo', links: [] }, first);
+
+    expect(changes).toEqual([]);
+    expect(stored).toMatchObject({ site_id: '1', display_name: 'Foo' });
+    expect(stored.links).toBeUndefined();
+    expect(stored.identity_revisions).toBeUndefined();
+  });
+
+  it('should record edits, clear emptied fields and keep unread ones', () => {
+    const stored = profile();
+    applyProfileIdentity(
+      stored,
+      {
+        site_id: '1',
+        display_name: 'Foo',
+        bio: 'Old bio',
+        avatar: mapProfileIdentity({ avatarUrl: 'https://im.vsco.co/a.jpg' }).avatar,
+      },
+      first
+    );
+
+    const changes = applyProfileIdentity(
+      stored,
+      {
+        display_name: 'Foo Bar',
+        bio: '',
+        avatar: mapProfileIdentity({ avatarUrl: 'https://im.vsco.co/b.jpg' }).avatar,
+        links: ['https://foo.example/'],
+      },
+      second
+    );
+
+    expect(changes).toEqual([
+      { field: 'display_name', previous: 'Foo', current: 'Foo Bar' },
+      { field: 'bio', previous: 'Old bio', current: undefined },
+      { field: 'avatar', previous: 'https://im.vsco.co/a.jpg', current: 'https://im.vsco.co/b.jpg' },
+      { field: 'links', previous: undefined, current: ['https://foo.example/'] },
+    ]);
+    expect(stored.bio).toBeUndefined();
+    expect(stored.site_id).toBe('1');
+    expect(stored.identity_revisions).toEqual([{ detected_at: second.now, run_id: 'run-2', changes }]);
+  });
+
+  it('should leave the profile alone when nothing was read', () => {
+    const stored = profile();
+
+    expect(applyProfileIdentity(stored, undefined, first)).toEqual([]);
+    expect(stored).toEqual(profile());
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Profile identity: display name, bio, profile picture, external links and VSCO's stable IDs
+ * - Each run's reading is applied to the manifest profile; edits are kept as revisions
+ * - A field VSCO reports as empty is cleared; a field discovery could not read is kept
+ * - The first reading is a backfill, not an edit
+ */
+
+import { createHash } from 'crypto';
+import type { PhotoFieldChange, Profile, ProfileIdentity, RevisionValue } from '../manifest/types.js';
+import type { ProfileIdentity as DiscoveryIdentity } from '../vsco/types.js';
+import { inferContentTypeFromUrl } from '../utils/paths.js';
+import { normalizeRemoteUrl } from '../utils/url.js';
+
+/** Identity fields whose edits are recorded as revisions */
+export const IDENTITY_FIELDS = ['site_id', 'user_id', 'display_name', 'bio', 'avatar', 'links'] as const;
+
+type IdentityField = (typeof IDENTITY_FIELDS)[number];
+
+export interface IdentityChangeOptions {
+  runId: string;
+  /** Timestamp recorded on the revision (ISO 8601) */
+  now: string;
+}
+
+/**
+ * Media ID of a profile picture, derived from its URL so a new picture never
+ * overwrites the previous one
+ */
+export function getAvatarMediaId(url: string): string {
+  return `avatar-${createHash('sha256').update(url).digest('hex').substring(0, 16)}`;
+}
+
+/**
+ * Map discovered identity to manifest fields
+ */
+export function mapProfileIdentity(identity: DiscoveryIdentity): ProfileIdentity {
+  const avatarUrl = identity.avatarUrl ? normalizeRemoteUrl(identity.avatarUrl) : null;
+
+  return {
+    site_id: identity.siteId,
+    user_id: identity.userId,
+    display_name: identity.displayName,
+    bio: identity.bio,
+    avatar: avatarUrl?.ok
+      ? {
+          media_id: getAvatarMediaId(avatarUrl.url),
+          url: avatarUrl.url,
+          content_type: inferContentTypeFromUrl(avatarUrl.url),
+        }
+      : undefined,
+    links: identity.links,
+  };
+}
+
+/** Value kept in revisions: the avatar's URL, and nothing for empty fields */
+function revisionValue(field: IdentityField, value: ProfileIdentity[IdentityField]): RevisionValue | undefined {
+  if (field === 'avatar') return (value as Profile['avatar'])?.url;
+  if (value === '' || (Array.isArray(value) && value.length === 0)) return undefined;
+  return value as RevisionValue | undefined;
+}
+
+/** Set an identity field, or remove it when VSCO reports it as empty */
+function setIdentityField<K extends IdentityField>(profile: Profile, field: K, value: Profile[K] | undefined): void {
+  if (value === undefined) {
+    delete profile[field];
+  } else {
+    profile[field] = value;
+  }
+}
+
+/**
+ * Apply this run's identity reading to the manifest profile in place
+ * @returns The fields that changed since the last reading (recorded as one revision)
+ */
+export function applyProfileIdentity(
+  profile: Profile,
+  identity: ProfileIdentity | undefined,
+  options: IdentityChangeOptions
+): PhotoFieldChange[] {
+  if (!identity) return [];
+
+  const captured = profile.identity_revisions !== undefined || IDENTITY_FIELDS.some((field) => profile[field] !== undefined);
+  const changes: PhotoFieldChange[] = [];
+
+  for (const field of IDENTITY_FIELDS) {
+    const reported = identity[field];
+    if (reported === undefined) continue;
+
+    const previous = revisionValue(field, profile[field]);
+    const current = revisionValue(field, reported);
+    setIdentityField(profile, field, current === undefined ? undefined : reported);
+
+    if (captured && JSON.stringify(previous) !== JSON.stringify(current)) {
+      changes.push({ field, previous, current });
+    }
+  }
+
+  if (changes.length > 0) {
+    profile.identity_revisions = [
+      ...(profile.identity_revisions ?? []),
+      { detected_at: options.now, run_id: options.runId, changes },
+    ];
+  }
+
+  return changes;
+}
@@ -0,0 +1,74 @@
+/**
+ * Tests for profiles file parsing (batch mode)
+ */
+
+import { parseProfilesFile } from './profiles-file';
+import { InvalidInputError } from '../utils/errors';
+
+describe('parseProfilesFile', () => {
+  it('should read URLs and bare usernames from plain text, skipping comments', () => {
+    const content = [
+      '# team accounts',
+      'https://vsco.co/alice/gallery',
+      '',
+      'bob  # personal',
+    ].join('\n');
+
+    const entries = parseProfilesFile(content, 'profiles.txt');
+
+    expect(entries).toEqual([
+      { username: 'alice', url: 'https://vsco.co/alice' },
+      { username: 'bob', url: 'https://vsco.co/bob' },
+    ]);
+  });
+
+  it('should apply defaults and per-profile overrides from YAML', () => {
+    const content = [
+      'defaults:',
+      '  maxItems: 100',
+      '  failThreshold: 0.2',
+      'profiles:',
+      '  - https://vsco.co/alice',
+      '  - url: https://vsco.co/bob',
+      '    maxItems: 5',
+      '    ignoreRobots: true',
+    ].join('\n');
+
+    const entries = parseProfilesFile(content, 'profiles.yaml');
+
+    expect(entries).toEqual([
+      { username: 'alice', url: 'https://vsco.co/alice', maxItems: 100, failThreshold: 0.2 },
+      {
+        username: 'bob',
+        url: 'https://vsco.co/bob',
+        maxItems: 5,
+        failThreshold: 0.2,
+        ignoreRobots: true,
+      },
+    ]);
+  });
+
+  it('should accept a top-level JSON array', () => {
+    const entries = parseProfilesFile('["alice", {"url": "https://vsco.co/bob", "timeoutMs": 5000}]', 'p.json');
+
+    expect(entries.map((entry) => entry.username)).toEqual(['alice', 'bob']);
+    expect(entries[1].timeoutMs).toBe(5000);
+  });
+
+  it('should reject invalid entries with an input error', () => {
+    expect(() => parseProfilesFile('https://example.com/alice', 'p.txt')).toThrow(InvalidInputError);
+    expect(() => parseProfilesFile('{"profiles": [{"url": "alice", "maxItems": "ten"}]}', 'p.json')).toThrow(
+      /"maxItems" must be a number/
+    );
+    expect(() => parseProfilesFile('# nothing here\n', 'p.txt')).toThrow(/No profiles listed/);
+  });
+
+  it('should reject a profile listed twice, naming both places', () => {
+    expect(() => parseProfilesFile('alice\nbob\nhttps://vsco.co/alice/gallery', 'p.txt')).toThrow(
+      /line 3: "alice" is already listed at line 1/
+    );
+    expect(() =>
+      parseProfilesFile('{"profiles": ["alice", {"url": "vsco.co/alice", "maxItems": 5}]}', 'p.json')
+    ).toThrow(/profile 2: "alice" is already listed at profile 1/);
+  });
+});
@@ -0,0 +1,179 @@
+import { readFile } from 'fs/promises';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { InvalidInputError } from '../utils/errors.js';
+import { parseProfileInput } from '../vsco/url.js';
+
+/**
+ * Per-profile options that may appear in a profiles file
+ * Names follow the CLI flags so a file entry reads like a command line
+ */
+export interface ProfileEntryOptions {
+  maxItems?: number;
+  maxScrolls?: number;
+  timeoutMs?: number;
+  failThreshold?: number;
+  ignoreRobots?: boolean;
+}
+
+export interface ProfileEntry extends ProfileEntryOptions {
+  username: string;
+  url: string;
+}
+
+function readEntryOptions(
+  raw: Record<string, unknown>,
+  filePath: string,
+  label: string
+): ProfileEntryOptions {
+  const options: ProfileEntryOptions = {};
+
+  for (const key of ['maxItems', 'maxScrolls', 'timeoutMs', 'failThreshold'] as const) {
+    const value = raw[key];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw InvalidInputError.fromProfilesFile(filePath, `${label}: "${key}" must be a number`);
+    }
+    options[key] = value;
+  }
+
+  if (options.failThreshold !== undefined && (options.failThreshold < 0 || options.failThreshold > 1)) {
+    throw InvalidInputError.fromProfilesFile(filePath, `${label}: "failThreshold" must be between 0 and 1`);
+  }
+
+  if (raw.ignoreRobots !== undefined) {
+    if (typeof raw.ignoreRobots !== 'boolean') {
+      throw InvalidInputError.fromProfilesFile(filePath, `${label}: "ignoreRobots" must be true or false`);
+    }
+    options.ignoreRobots = raw.ignoreRobots;
+  }
+
+  return options;
+}
+
+function toProfileEntry(value: string, filePath: string, label: string): ProfileEntry {
+  try {
+    const { username, normalized } = parseProfileInput(value);
+    return { username, url: normalized };
+  } catch {
+    throw InvalidInputError.fromProfilesFile(filePath, `${label}: "${value.trim()}" is not a VSCO profile`);
+  }
+}
+
+/** A parsed entry with the line or list position it came from, for error messages */
+interface LabeledEntry {
+  entry: ProfileEntry;
+  label: string;
+}
+
+function parseTextProfiles(content: string, filePath: string): LabeledEntry[] {
+  const entries: LabeledEntry[] = [];
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.replace(/#.*$/, '').trim();
+    if (!trimmed) return;
+    const label = `line ${index + 1}`;
+    entries.push({ entry: toProfileEntry(trimmed, filePath, label), label });
+  });
+
+  return entries;
+}
+
+function parseStructuredProfiles(data: unknown, filePath: string): LabeledEntry[] {
+  let defaults: ProfileEntryOptions = {};
+  let list: unknown;
+
+  if (Array.isArray(data)) {
+    list = data;
+  } else if (data && typeof data === 'object') {
+    const root = data as Record<string, unknown>;
+    if (root.defaults !== undefined) {
+      if (!root.defaults || typeof root.defaults !== 'object' || Array.isArray(root.defaults)) {
+        throw InvalidInputError.fromProfilesFile(filePath, '"defaults" must be an object');
+      }
+      defaults = readEntryOptions(root.defaults as Record<string, unknown>, filePath, 'defaults');
+    }
+    list = root.profiles;
+  }
+
+  if (!Array.isArray(list)) {
+    throw InvalidInputError.fromProfilesFile(filePath, 'Expected a "profiles" array');
+  }
+
+  return list.map((item, index) => {
+    const label = `profile ${index + 1}`;
+
+    if (typeof item === 'string') {
+      return { entry: { ...defaults, ...toProfileEntry(item, filePath, label) }, label };
+    }
+
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      throw InvalidInputError.fromProfilesFile(filePath, `${label}: expected a URL or an object`);
+    }
+
+    const raw = item as Record<string, unknown>;
+    const target = raw.url ?? raw.username;
+    if (typeof target !== 'string') {
+      throw InvalidInputError.fromProfilesFile(filePath, `${label}: missing "url"`);
+    }
+
+    return {
+      entry: {
+        ...defaults,
+        ...readEntryOptions(raw, filePath, label),
+        ...toProfileEntry(target, filePath, label),
+      },
+      label,
+    };
+  });
+}
+
+/**
+ * Parse profiles file content
+ * Plain text lists one URL (or username) per line with # comments;
+ * JSON and YAML take a "profiles" array plus optional "defaults"
+ * A profile listed twice is rejected, since only one of its option sets could apply
+ */
+export function parseProfilesFile(content: string, filePath: string): ProfileEntry[] {
+  const ext = extname(filePath).toLowerCase();
+  let entries: LabeledEntry[];
+
+  if (ext === '.json' || ext === '.yaml' || ext === '.yml') {
+    let data: unknown;
+    try {
+      data = ext === '.json' ? JSON.parse(content) : parseYaml(content);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw InvalidInputError.fromProfilesFile(filePath, `Could not parse: ${reason}`);
+    }
+    entries = parseStructuredProfiles(data, filePath);
+  } else {
+    entries = parseTextProfiles(content, filePath);
+  }
+
+  if (entries.length === 0) {
+    throw InvalidInputError.fromProfilesFile(filePath, 'No profiles listed');
+  }
+
+  const seen = new Map<string, string>();
+  for (const { entry, label } of entries) {
+    const first = seen.get(entry.username);
+    if (first) {
+      throw InvalidInputError.fromProfilesFile(filePath, `${label}: "${entry.username}" is already listed at ${first}`);
+    }
+    seen.set(entry.username, label);
+  }
+
+  return entries.map(({ entry }) => entry);
+}
+
+export async function readProfilesFile(filePath: string): Promise<ProfileEntry[]> {
+  let content: string;
+  try {
+    content = await readFile(filePath, 'utf-8');
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw InvalidInputError.fromProfilesFile(filePath, reason);
+  }
+  return parseProfilesFile(content, filePath);
+}
@@ -0,0 +1,141 @@
+/**
+ * Per-run content snapshots, so any two runs can be compared later
+ * - One JSON file per finished run under .vsco-backup/snapshots/
+ * - Only the fields a changelog shows are kept (journal bodies as a SHA-256)
+ * - Runs recorded before snapshots existed have none and cannot be diffed
+ */
+
+import { createHash } from 'crypto';
+import { access, mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import type { BackupManifest } from '../manifest/types.js';
+import { OUTPUT_LAYOUT } from '../utils/paths.js';
+
+const SNAPSHOT_VERSION = 1;
+
+/** Label used for the live manifest in place of a run ID */
+export const CURRENT_SNAPSHOT = 'current';
+
+export interface SnapshotPhoto {
+  id: string;
+  media_type?: 'image' | 'video';
+  caption?: string;
+  tags?: string[];
+  preset?: string;
+  url_highres: string;
+  permalink?: string;
+  uploaded_at?: string;
+  deleted_upstream?: string;
+}
+
+export interface SnapshotGallery {
+  id: string;
+  name: string;
+  description?: string;
+  photo_ids: string[];
+}
+
+export interface SnapshotBlogPost {
+  id: string;
+  slug: string;
+  title: string;
+  published_at: string;
+  /** SHA-256 of the post's HTML, to notice edits without storing every body twice */
+  content_sha256: string;
+}
+
+export interface ContentSnapshot {
+  version: number;
+  /** Run the snapshot was taken at the end of, or CURRENT_SNAPSHOT */
+  run_id: string;
+  taken_at: string;
+  photos: SnapshotPhoto[];
+  galleries: SnapshotGallery[];
+  blog_posts: SnapshotBlogPost[];
+}
+
+export function getSnapshotPath(backupRoot: string, runId: string): string {
+  return join(backupRoot, OUTPUT_LAYOUT.BACKUP_DIR, 'snapshots', `${runId}.json`);
+}
+
+/**
+ * Reduce the manifest's content to what the changelog compares
+ */
+export function createSnapshot(manifest: BackupManifest, runId: string, takenAt = new Date().toISOString()): ContentSnapshot {
+  const { photos, galleries, blog_posts } = manifest.content;
+
+  return {
+    version: SNAPSHOT_VERSION,
+    run_id: runId,
+    taken_at: takenAt,
+    photos: photos.map((photo) => ({
+      id: photo.id,
+      media_type: photo.media_type,
+      caption: photo.caption,
+      tags: photo.tags,
+      preset: photo.preset,
+      url_highres: photo.url_highres,
+      permalink: photo.permalink,
+      uploaded_at: photo.uploaded_at,
+      deleted_upstream: photo.deleted_upstream,
+    })),
+    galleries: galleries.map((gallery) => ({
+      id: gallery.id,
+      name: gallery.name,
+      description: gallery.description,
+      photo_ids: gallery.photo_ids,
+    })),
+    blog_posts: blog_posts.map((post) => ({
+      id: post.id,
+      slug: post.slug,
+      title: post.title,
+      published_at: post.published_at,
+      content_sha256: createHash('sha256').update(post.content_html).digest('hex'),
+    })),
+  };
+}
+
+/**
+ * Snapshot the manifest at the end of a run (written atomically)
+ */
+export async function writeRunSnapshot(backupRoot: string, manifest: BackupManifest, runId: string): Promise<void> {
+  const snapshotPath = getSnapshotPath(backupRoot, runId);
+  const tempPath = `${snapshotPath}.tmp`;
+  await mkdir(dirname(snapshotPath), { recursive: true });
+  await writeFile(tempPath, JSON.stringify(createSnapshot(manifest, runId)), 'utf-8');
+  await rename(tempPath, snapshotPath);
+}
+
+/**
+ * Read a run's snapshot
+ * @returns The snapshot, or null if the run has none (or it is unreadable)
+ */
+export async function readRunSnapshot(backupRoot: string, runId: string): Promise<ContentSnapshot | null> {
+  try {
+    const parsed = JSON.parse(await readFile(getSnapshotPath(backupRoot, runId), 'utf-8'));
+    if (parsed?.version === SNAPSHOT_VERSION && Array.isArray(parsed.photos)) {
+      return parsed as ContentSnapshot;
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT' && !(error instanceof SyntaxError)) {
+      throw error;
+    }
+  }
+  return null;
+}
+
+/**
+ * Run IDs with a snapshot on disk, oldest first
+ */
+export async function listSnapshotRuns(backupRoot: string, manifest: BackupManifest): Promise<string[]> {
+  const runIds: string[] = [];
+  for (const run of manifest.backup_runs) {
+    try {
+      await access(getSnapshotPath(backupRoot, run.run_id));
+      runIds.push(run.run_id);
+    } catch {
+      // No snapshot: the run predates them, failed, or is still running
+    }
+  }
+  return runIds;
+}
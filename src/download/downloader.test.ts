@@ -3,8 +3,11 @@
  * Validates URL normalization, deterministic error classification, and retry behavior
  */
 
-import { downloadAsset } from './downloader';
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { downloadAsset, downloadAssets } from './downloader';
 import { DownloadTask } from './downloader';
+import type { Page } from 'playwright';
+import { createHostRateLimiter } from '../utils/ratelimit';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
@@ -186,4 +189,125 @@ describe('downloader', () => {
       expect(result.downloaded).toBe(false);
     });
   });
+
+  describe('worker pool', () => {
+    const jpeg = Buffer.concat([Buffer.from([0xff, 0xd8, 0xff, 0xe0]), Buffer.alloc(64, 0x55), Buffer.from([0xff, 0xd9])]);
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    function makeTasks(count: number): DownloadTask[] {
+      return Array.from({ length: count }, (_, i) => ({
+        url: `https://im.vsco.co/photo-${i}.jpg`,
+        backupRoot: tempDir,
+        mediaId: `photo-${i}`,
+        contentType: 'image/jpeg',
+      }));
+    }
+
+    it('should keep task order and stats with several downloads in flight', async () => {
+      let inFlight = 0;
+      let peak = 0;
+      jest.spyOn(global, 'fetch').mockImplementation(async () => {
+        inFlight++;
+        peak = Math.max(peak, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        inFlight--;
+        return new Response(jpeg, { status: 200, headers: { 'content-type': 'image/jpeg' } });
+      });
+
+      const { results, stats } = await downloadAssets(makeTasks(6), {
+        concurrency: 3,
+        rateLimiter: createHostRateLimiter({ requestsPerSecond: 1000, burst: 10 }),
+      });
+
+      expect(results.map((result) => result.task.mediaId)).toEqual(makeTasks(6).map((task) => task.mediaId));
+      expect(stats).toEqual({ total: 6, successful: 6, failed: 0, skipped: 0, redownloaded: 6 });
+      expect(peak).toBe(3);
+      expect(results[0].sha256).toHaveLength(64);
+    });
+
+    it('should send the scraped origin as the Referer', async () => {
+      const fetchImpl = jest.fn(async (_url: string | URL | Request, _init?: RequestInit) =>
+        new Response(jpeg, { status: 200, headers: { 'content-type': 'image/jpeg' } })
+      );
+
+      await downloadAssets(makeTasks(1), {
+        fetchImpl: fetchImpl as unknown as typeof fetch,
+        origin: 'http://127.0.0.1:8080',
+        rateLimiter: createHostRateLimiter({ requestsPerSecond: 1000, burst: 10 }),
+      });
+
+      expect(fetchImpl.mock.calls[0][1]?.headers).toMatchObject({ Referer: 'http://127.0.0.1:8080/' });
+    });
+
+    it('should back off on 429 and retry after the server-provided delay', async () => {
+      const limiter = createHostRateLimiter({ requestsPerSecond: 1000, burst: 10 });
+      const penalize = jest.spyOn(limiter, 'penalize');
+      let calls = 0;
+      jest.spyOn(global, 'fetch').mockImplementation(async () => {
+        calls++;
+        return calls === 1
+          ? new Response('slow down', { status: 429, headers: { 'retry-after': '0' } })
+          : new Response(jpeg, { status: 200, headers: { 'content-type': 'image/jpeg' } });
+      });
+
+      const { stats } = await downloadAssets(makeTasks(1), { rateLimiter: limiter });
+
+      expect(stats.successful).toBe(1);
+      expect(penalize).toHaveBeenCalledWith('https://im.vsco.co/photo-0.jpg', 0);
+    });
+  });
+
+  describe('Playwright fallback', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    /** Page whose browser fetch answers every request with the given body */
+    function fakePage(body: Buffer): Page {
+      let handler: ((route: unknown) => Promise<void>) | undefined;
+      const page = {
+        route: async (_url: string, routeHandler: (route: unknown) => Promise<void>) => {
+          handler = routeHandler;
+        },
+        unroute: async () => undefined,
+        goto: async () => {
+          await handler?.({
+            fetch: async () => ({
+              status: () => 200,
+              statusText: () => 'OK',
+              ok: () => true,
+              headers: () => ({ 'content-type': 'image/jpeg' }),
+              body: async () => body,
+            }),
+            fulfill: async () => undefined,
+            abort: async () => undefined,
+          });
+        },
+      };
+      return page as unknown as Page;
+    }
+
+    it('should keep the existing file when the browser download is corrupt', async () => {
+      const localPath = path.join(tempDir, '.vsco-backup', 'media', 'photo.jpg');
+      await fs.mkdir(path.dirname(localPath), { recursive: true });
+      await fs.writeFile(localPath, 'previous copy');
+      jest.spyOn(global, 'fetch').mockImplementation(async () => new Response('blocked', { status: 403 }));
+
+      const { results } = await downloadAssets(
+        [{ url: 'https://im.vsco.co/photo.jpg', backupRoot: tempDir, mediaId: 'photo', force: true }],
+        {
+          page: fakePage(Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00])),
+          rateLimiter: createHostRateLimiter({ requestsPerSecond: 1000, burst: 10 }),
+        }
+      );
+
+      expect(results[0].success).toBe(false);
+      expect(results[0].error).toContain('integrity check');
+      expect(await fs.readFile(localPath, 'utf-8')).toBe('previous copy');
+      expect(await fs.readdir(path.dirname(localPath))).toEqual(['photo.jpg']);
+    });
+  });
 });
@@ -2,22 +2,32 @@
  * Binary asset downloader with validation and re-download policy
  * - Downloads media to .vsco-backup/media/
  * - Validates files before/after download
- * - Re-downloads if: file missing, size == 0, or size mismatch
- * - Sequential downloads with conservative rate limiting
+ * - Re-downloads if: file missing, size == 0, size mismatch, or flagged invalid (force)
+ * - Hashes and structurally checks every downloaded file; truncated transfers are retried
+ * - Bounded worker pool (default 2) with a per-host token bucket (default 1 req/s)
+ * - Backs off adaptively on 429/503 and honours Retry-After
  * - Uses retry wrapper for transient failures
+ * - Falls back to the browser session (Playwright) when Node fetch is blocked
  */
 
 import { stat, mkdir, rename, unlink } from 'fs/promises';
 import { createWriteStream } from 'fs';
 import { dirname } from 'path';
 import { pipeline } from 'stream/promises';
+import type { Page } from 'playwright';
 import { getLogger } from '../utils/logger.js';
-import { retry } from '../utils/retry.js';
-import { rateLimit } from '../utils/ratelimit.js';
+import { retry, parseRetryAfter } from '../utils/retry.js';
+import type { RetryError } from '../utils/retry.js';
+import { createHostRateLimiter } from '../utils/ratelimit.js';
+import type { HostRateLimiter } from '../utils/ratelimit.js';
 import { getMediaPath, generateMediaFilename } from '../utils/paths.js';
 import { normalizeRemoteUrl } from '../utils/url.js';
 import { DEFAULT_USER_AGENT } from '../vsco/discovery.js';
-import { isCloudflareBlocked } from '../utils/cloudflare-block.js';
+import { VSCO_ORIGIN } from '../vsco/url.js';
+import { detectCloudflareBlock } from '../utils/cloudflare-block.js';
+import { checkMediaIntegrity } from '../utils/integrity.js';
+import { downloadWithPlaywright } from './playwright-transport.js';
+import type { FailureAttempt } from './failure-report.js';
 
 export interface DownloadTask {
   /** URL to download */
@@ -30,6 +40,8 @@ export interface DownloadTask {
   contentType?: string;
   /** Expected file size in bytes (if known) */
   expectedSize?: number;
+  /** Re-download even if the local file looks valid (e.g. it failed an integrity check) */
+  force?: boolean;
 }
 
 export interface DownloadResult {
@@ -45,6 +57,60 @@ export interface DownloadResult {
   downloaded: boolean;
   /** File size in bytes */
   sizeBytes?: number;
+  /** Hex SHA-256 digest of the downloaded file */
+  sha256?: string;
+  /** MIME type detected from the downloaded file's magic bytes */
+  mimeType?: string;
+  /** Normalized URL that was requested (if the URL passed preflight) */
+  normalizedUrl?: string;
+  /** Transport that produced the file */
+  transport?: 'node' | 'playwright';
+  /** Diagnostics from the Node fetch attempt (if it failed) */
+  nodeAttempt?: FailureAttempt;
+  /** Diagnostics from the Playwright fallback attempt (if one was made) */
+  playwrightAttempt?: FailureAttempt;
+}
+
+export interface DownloadOptions {
+  /**
+   * Browser page from the discovery session
+   * When set, assets blocked for Node fetch (Cloudflare or 403) are retried through the browser
+   */
+  page?: Page;
+  /**
+   * Per-host rate limiter, e.g. shared with other profiles in batch mode
+   * Defaults to a fresh conservative limiter for each downloadAssets() call
+   */
+  rateLimiter?: HostRateLimiter;
+  /** Number of downloads in flight at once (default 2) */
+  concurrency?: number;
+  /** Called (and awaited) as each download finishes, e.g. to journal progress */
+  onResult?: (result: DownloadResult) => void | Promise<void>;
+  /** fetch used for Node downloads (defaults to the global one; fixtures record or replay through it) */
+  fetchImpl?: typeof fetch;
+  /** Origin of the scraped pages, sent as the Referer of Node downloads (defaults to VSCO_ORIGIN) */
+  origin?: string;
+}
+
+/** Default number of concurrent downloads */
+export const DEFAULT_DOWNLOAD_CONCURRENCY = 2;
+
+/**
+ * Error raised by a single fetch attempt, carrying response diagnostics
+ */
+interface HttpAttemptError extends Error {
+  status?: number;
+  contentType?: string;
+  snippetMarker?: string;
+  /** Server-requested delay from a Retry-After header */
+  retryAfterMs?: number;
+}
+
+/**
+ * Whether a status code means the host is asking us to slow down
+ */
+function isThrottleStatus(status?: number): boolean {
+  return status === 429 || status === 503;
 }
 
 export interface DownloadStats {
@@ -61,7 +127,8 @@ export interface DownloadStats {
  */
 async function needsDownload(
   localPath: string,
-  expectedSize?: number
+  expectedSize?: number,
+  force?: boolean
 ): Promise<{ needs: boolean; reason?: string }> {
   try {
     const stats = await stat(localPath);
@@ -79,6 +146,11 @@ async function needsDownload(
       };
     }
 
+    // Flagged by an earlier integrity check → re-download
+    if (force) {
+      return { needs: true, reason: 'failed integrity check' };
+    }
+
     // File exists with valid size → skip
     return { needs: false };
   } catch (error) {
@@ -95,9 +167,13 @@ async function needsDownload(
  * Download a single file with validation
  * Wrapped with retry for transient failures
  */
-async function downloadFile(task: DownloadTask): Promise<DownloadResult> {
+async function downloadFile(
+  task: DownloadTask,
+  limiter: HostRateLimiter,
+  options: DownloadOptions = {}
+): Promise<DownloadResult> {
   const logger = getLogger();
-  const { url, backupRoot, mediaId, contentType = 'image/jpeg', expectedSize } = task;
+  const { url, backupRoot, mediaId, contentType = 'image/jpeg', expectedSize, force } = task;
 
   // Generate filename and path
   const filename = generateMediaFilename(mediaId, contentType);
@@ -119,7 +195,7 @@ async function downloadFile(task: DownloadTask): Promise<DownloadResult> {
   const normalizedUrl = normalizationResult.url;
 
   // Check if download is needed
-  const validation = await needsDownload(localPath, expectedSize);
+  const validation = await needsDownload(localPath, expectedSize, force);
   if (!validation.needs) {
     logger.debug(`Skipping download (already valid): ${filename}`);
     return {
@@ -143,29 +219,42 @@ async function downloadFile(task: DownloadTask): Promise<DownloadResult> {
 
   try {
     // Download with retry wrapper
-    await retry(async () => {
-      const response = await fetch(normalizedUrl, {
-        headers: {
-          'User-Agent': DEFAULT_USER_AGENT,
-          'Accept': 'image/avif,image/webp,image/apng,image/svg+xml,image/*,*/*;q=0.8',
-          'Referer': 'https://vsco.co/',
-        },
-        redirect: 'follow', // Follow 3xx redirects to final destination
-      });
+    const integrity = await retry(async () => {
+      const response = await limiter.schedule(normalizedUrl, () =>
+        (options.fetchImpl ?? fetch)(normalizedUrl, {
+          headers: {
+            'User-Agent': DEFAULT_USER_AGENT,
+            'Accept': 'image/avif,image/webp,image/apng,image/svg+xml,image/*,*/*;q=0.8',
+            'Referer': `${options.origin ?? VSCO_ORIGIN}/`,
+          },
+          redirect: 'follow', // Follow 3xx redirects to final destination
+        })
+      );
+
+      const contentType = response.headers.get('content-type') || '';
+      // Reads the body of HTML responses only; media bodies are left for streaming
+      const block = await detectCloudflareBlock(response);
 
       if (!response.ok) {
-        const error = new Error(`HTTP ${response.status}: ${response.statusText}`) as any;
+        const error = new Error(`HTTP ${response.status}: ${response.statusText}`) as HttpAttemptError;
         error.status = response.status;
+        error.contentType = contentType;
+        error.snippetMarker = block?.marker;
+        error.retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
         throw error;
       }
 
       // Detect content-type mismatch (200 + text/html = potential block page)
-      const contentType = response.headers.get('content-type') || '';
       if (contentType.toLowerCase().includes('text/html')) {
-        // Check if this is a Cloudflare block page
-        if (await isCloudflareBlocked(response)) {
-          throw new Error('Cloudflare block detected (HTML response)');
-        }
+        const error = new Error(
+          block
+            ? 'Cloudflare block detected (HTML response)'
+            : 'Unexpected HTML response instead of media'
+        ) as HttpAttemptError;
+        error.status = response.status;
+        error.contentType = contentType;
+        error.snippetMarker = block?.marker;
+        throw error;
       }
 
       // Validate Content-Length if provided
@@ -189,20 +278,30 @@ async function downloadFile(task: DownloadTask): Promise<DownloadResult> {
 
       // Use pipeline for proper error handling and backpressure
       await pipeline(response.body as any, writeStream);
+
+      // A cut-off transfer is worth retrying; the next attempt overwrites the .tmp file
+      const checked = await checkMediaIntegrity(tmpPath);
+      if (checked.problem) {
+        throw new Error(`Downloaded file failed integrity check: ${checked.problem}`);
+      }
+      return checked;
+    }, {
+      onRetry: (error) => {
+        const attempt = error as HttpAttemptError;
+        if (isThrottleStatus(attempt.status)) {
+          limiter.penalize(normalizedUrl, attempt.retryAfterMs);
+        }
+      },
     });
 
-    // Validate downloaded file size
-    const tmpStats = await stat(tmpPath);
-    if (tmpStats.size === 0) {
-      throw new Error('Downloaded file is empty (0 bytes)');
-    }
+    limiter.reward(normalizedUrl);
 
     // Atomic rename: move .tmp to final path
     await rename(tmpPath, localPath);
     tmpFileCreated = false; // Successfully renamed, no cleanup needed
 
     logger.debug(
-      `Successfully downloaded ${filename} (${tmpStats.size} bytes)`
+      `Successfully downloaded ${filename} (${integrity.sizeBytes} bytes)`
     );
 
     return {
@@ -210,12 +309,15 @@ async function downloadFile(task: DownloadTask): Promise<DownloadResult> {
       success: true,
       localPath,
       downloaded: true,
-      sizeBytes: tmpStats.size,
+      sizeBytes: integrity.sizeBytes,
+      sha256: integrity.sha256,
+      mimeType: integrity.mimeType ?? undefined,
+      normalizedUrl,
+      transport: 'node',
     };
   } catch (error) {
     const errorMsg =
       error instanceof Error ? error.message : String(error);
-    logger.error(`Failed to download ${filename}: ${errorMsg}`);
 
     // Cleanup: remove .tmp file if it was created
     if (tmpFileCreated) {
@@ -226,24 +328,97 @@ async function downloadFile(task: DownloadTask): Promise<DownloadResult> {
       }
     }
 
+    const nodeAttempt = describeAttempt(error);
+    const blocked = nodeAttempt.status === 403 || nodeAttempt.snippetMarker !== undefined;
+
+    if (blocked && options.page) {
+      logger.debug(`Node fetch blocked for ${filename} (${errorMsg}); retrying via Playwright`);
+      const page = options.page;
+      // Like the fetch path, the file only replaces the existing one once it passes the integrity check
+      const fallback = await limiter.schedule(normalizedUrl, () =>
+        downloadWithPlaywright(page, normalizedUrl, tmpPath)
+      );
+      const playwrightAttempt: FailureAttempt = {
+        status: fallback.status,
+        contentType: fallback.contentType,
+        snippetMarker: fallback.snippetMarker,
+      };
+
+      const fallbackIntegrity = fallback.success ? await checkMediaIntegrity(tmpPath) : null;
+      if (fallbackIntegrity?.problem) {
+        fallback.success = false;
+        fallback.error = `Downloaded file failed integrity check: ${fallbackIntegrity.problem}`;
+        await unlink(tmpPath).catch(() => undefined);
+      }
+
+      if (fallback.success && fallbackIntegrity) {
+        await rename(tmpPath, localPath);
+        logger.debug(`Downloaded ${filename} via Playwright fallback (${fallbackIntegrity.sizeBytes} bytes)`);
+        return {
+          task,
+          success: true,
+          localPath,
+          downloaded: true,
+          sizeBytes: fallbackIntegrity.sizeBytes,
+          sha256: fallbackIntegrity.sha256,
+          mimeType: fallbackIntegrity.mimeType ?? undefined,
+          normalizedUrl,
+          transport: 'playwright',
+          nodeAttempt,
+          playwrightAttempt,
+        };
+      }
+
+      logger.error(`Failed to download ${filename}: ${errorMsg}; Playwright fallback: ${fallback.error}`);
+      return {
+        task,
+        success: false,
+        error: `${errorMsg}; Playwright fallback: ${fallback.error}`,
+        downloaded: false,
+        normalizedUrl,
+        nodeAttempt,
+        playwrightAttempt,
+      };
+    }
+
+    logger.error(`Failed to download ${filename}: ${errorMsg}`);
+
     return {
       task,
       success: false,
       error: errorMsg,
       downloaded: false,
+      normalizedUrl,
+      nodeAttempt,
     };
   }
 }
 
 /**
- * Download multiple assets sequentially with rate limiting
+ * Pull response diagnostics out of a (possibly retry-wrapped) fetch error
+ */
+function describeAttempt(error: unknown): FailureAttempt {
+  const cause = ((error as RetryError)?.lastError ?? error) as HttpAttemptError;
+  return {
+    status: cause?.status,
+    contentType: cause?.contentType,
+    snippetMarker: cause?.snippetMarker,
+  };
+}
+
+/**
+ * Download multiple assets with a bounded worker pool
+ * Requests are spaced per host by the rate limiter; results keep task order
  * Returns download results and statistics
  */
 export async function downloadAssets(
-  tasks: DownloadTask[]
+  tasks: DownloadTask[],
+  options: DownloadOptions = {}
 ): Promise<{ results: DownloadResult[]; stats: DownloadStats }> {
   const logger = getLogger();
-  const results: DownloadResult[] = [];
+  const limiter = options.rateLimiter ?? createHostRateLimiter();
+  const concurrency = Math.max(1, Math.min(options.concurrency ?? DEFAULT_DOWNLOAD_CONCURRENCY, tasks.length || 1));
+  const results: DownloadResult[] = new Array(tasks.length);
   const stats: DownloadStats = {
     total: tasks.length,
     successful: 0,
@@ -252,36 +427,42 @@ export async function downloadAssets(
     redownloaded: 0,
   };
 
-  logger.info(`Starting download of ${tasks.length} assets`);
+  logger.info(`Starting download of ${tasks.length} assets (${concurrency} at a time)`);
 
-  for (let i = 0; i < tasks.length; i++) {
-    const task = tasks[i];
+  let nextIndex = 0;
+  let completed = 0;
 
-    // Download with rate limiting (except for first request)
-    const result =
-      i === 0
-        ? await downloadFile(task)
-        : await rateLimit(() => downloadFile(task));
+  const worker = async (): Promise<void> => {
+    while (nextIndex < tasks.length) {
+      const index = nextIndex++;
+      const result = await downloadFile(tasks[index], limiter, options);
+      results[index] = result;
 
-    results.push(result);
-
-    if (result.success) {
-      stats.successful++;
-      if (result.downloaded) {
-        stats.redownloaded++;
+      if (result.success) {
+        stats.successful++;
+        if (result.downloaded) {
+          stats.redownloaded++;
+        } else {
+          stats.skipped++;
+        }
       } else {
-        stats.skipped++;
+        stats.failed++;
       }
-    } else {
-      stats.failed++;
+
+      if (options.onResult) {
+        await options.onResult(result);
+      }
+
+      completed++;
+      logger.progress({
+        phase: 'Download',
+        current: completed,
+        total: tasks.length,
+      });
     }
+  };
 
-    logger.progress({
-      phase: 'Download',
-      current: i + 1,
-      total: tasks.length,
-    });
-  }
+  await Promise.all(Array.from({ length: concurrency }, () => worker()));
 
   logger.phaseComplete(
     'Download',
@@ -294,7 +475,10 @@ export async function downloadAssets(
 /**
  * Download a single asset (convenience wrapper)
  */
-export async function downloadAsset(task: DownloadTask): Promise<DownloadResult> {
-  const { results } = await downloadAssets([task]);
+export async function downloadAsset(
+  task: DownloadTask,
+  options: DownloadOptions = {}
+): Promise<DownloadResult> {
+  const { results } = await downloadAssets([task], options);
   return results[0];
 }
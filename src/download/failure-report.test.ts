@@ -10,9 +10,13 @@ import { tmpdir } from 'os';
 import {
   writeFailureReport,
   generateManualRecovery,
+  buildFailureSummary,
+  buildFailureEntries,
+  buildSkippedImageEntries,
   FailureEntry,
   FailureSummary,
 } from './failure-report.js';
+import type { DownloadResult } from './downloader.js';
 
 describe('failure-report', () => {
   let testDir: string;
@@ -459,4 +463,100 @@ describe('failure-report', () => {
       expect(guidance[1]).toMatch(/DevTools Network/);
     });
   });
+
+  describe('buildFailureSummary', () => {
+    const result = (mediaId: string, success: boolean, downloaded: boolean): DownloadResult => ({
+      task: { url: `https://im.vsco.co/${mediaId}.jpg`, backupRoot: testDir, mediaId },
+      success,
+      downloaded,
+    });
+
+    it('should exclude already-valid files from the failure rate', () => {
+      const summary = buildFailureSummary(
+        [result('a', true, false), result('b', true, true), result('c', false, false)],
+        3,
+        0.5
+      );
+
+      expect(summary.attempted).toBe(2);
+      expect(summary.skippedValid).toBe(1);
+      expect(summary.failRate).toBe(0.5);
+      expect(summary.verdict).toBe('PASS');
+    });
+
+    it('should fail when the rate exceeds the threshold', () => {
+      const results = ['a', 'b', 'c', 'd', 'e'].map((id, i) => result(id, i > 1, i > 1));
+      const summary = buildFailureSummary(results, 5, 0.25);
+
+      expect(summary.verdict).toBe('FAIL');
+    });
+
+    it('should not judge the rate of too few attempts', () => {
+      const summary = buildFailureSummary([result('a', false, false)], 1, 0.5);
+
+      expect(summary.failRate).toBe(1);
+      expect(summary.verdict).toBe('PASS');
+    });
+  });
+
+  describe('buildFailureEntries', () => {
+    it('should record both transport attempts for each failure', () => {
+      const entries = buildFailureEntries([
+        {
+          task: { url: '//im.vsco.co/x.jpg', backupRoot: testDir, mediaId: 'x' },
+          success: false,
+          downloaded: false,
+          error: 'Cloudflare block detected (HTML response)',
+          normalizedUrl: 'https://im.vsco.co/x.jpg',
+          nodeAttempt: { status: 200, contentType: 'text/html', snippetMarker: 'cf-ray' },
+          playwrightAttempt: { status: 403, snippetMarker: 'Cloudflare' },
+        },
+      ]);
+
+      expect(entries).toHaveLength(1);
+      expect(entries[0].normalizedUrl).toBe('https://im.vsco.co/x.jpg');
+      expect(entries[0].nodeAttempt.snippetMarker).toBe('cf-ray');
+      expect(entries[0].playwrightAttempt.status).toBe(403);
+      expect(entries[0].manualRecovery).toHaveLength(2);
+    });
+  });
+
+  describe('buildSkippedImageEntries', () => {
+    it('should list journal images left as remote URLs in the report', async () => {
+      const skippedImages = buildSkippedImageEntries([
+        {
+          id: 'post1',
+          slug: 'first-post',
+          title: 'First post',
+          content_html: '<img src="blob:https://vsco.co/abc">',
+          published_at: '2024-01-01T00:00:00.000Z',
+          assets: [],
+          skipped_images: [{ url: 'blob:https://vsco.co/abc', reason: 'Unsupported protocol: blob:' }],
+        },
+        {
+          id: 'post2',
+          slug: 'second-post',
+          title: 'Second post',
+          content_html: '<p>Text</p>',
+          published_at: '2024-01-02T00:00:00.000Z',
+          assets: [],
+        },
+      ]);
+      const summary = buildFailureSummary([], 2);
+
+      await writeFailureReport(testDir, 'run-images', summary, [], skippedImages);
+
+      const report = JSON.parse(
+        await readFile(join(testDir, '.vsco-backup', 'logs', 'download-failures-run-images.json'), 'utf-8')
+      );
+      expect(report.skippedImages).toEqual([
+        {
+          postId: 'post1',
+          postTitle: 'First post',
+          url: 'blob:https://vsco.co/abc',
+          reason: 'Unsupported protocol: blob:',
+        },
+      ]);
+    });
+  });
 });
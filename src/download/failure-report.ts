@@ -7,6 +7,19 @@
 import { mkdir, writeFile } from 'fs/promises';
 import { join } from 'path';
 import { getLogger } from '../utils/logger.js';
+import type { BlogPost } from '../manifest/types.js';
+import type { DownloadResult } from './downloader.js';
+
+/**
+ * Default maximum failure rate (failed / attempted) before a run is failed
+ */
+export const DEFAULT_FAIL_THRESHOLD = 0.5;
+
+/**
+ * Attempted downloads below which the failure rate is not judged (a run that retries
+ * one file fails it outright otherwise); such runs end partial instead
+ */
+export const MIN_ATTEMPTS_FOR_FAIL_RATE = 5;
 
 export interface FailureAttempt {
   status?: number;
@@ -25,6 +38,17 @@ export interface FailureEntry {
   manualRecovery: string[];
 }
 
+/**
+ * Journal image that was never queued for download, so the offline page still
+ * references the remote URL
+ */
+export interface SkippedImageEntry {
+  postId: string;
+  postTitle: string;
+  url: string;
+  reason: string;
+}
+
 export interface FailureSummary {
   discovered: number;
   attempted: number;
@@ -41,10 +65,11 @@ export interface FailureReport {
   timestamp: string;
   summary: FailureSummary;
   failures: FailureEntry[];
+  skippedImages: SkippedImageEntry[];
 }
 
 /**
- * Write a JSON failure report when downloads fail
+ * Write a JSON failure report when downloads fail or journal images were skipped
  * Creates log directory if needed
  * Handles write errors gracefully (logs but doesn't throw)
  *
@@ -52,13 +77,15 @@ export interface FailureReport {
  * @param runId - Run identifier
  * @param summary - Summary statistics
  * @param failures - Array of failure entries
+ * @param skippedImages - Journal images that could not be downloaded
  * @returns Promise that resolves when write completes
  */
 export async function writeFailureReport(
   backupRoot: string,
   runId: string,
   summary: FailureSummary,
-  failures: FailureEntry[]
+  failures: FailureEntry[],
+  skippedImages: SkippedImageEntry[] = []
 ): Promise<void> {
   const logger = getLogger();
 
@@ -76,6 +103,7 @@ export async function writeFailureReport(
       timestamp: new Date().toISOString(),
       summary,
       failures,
+      skippedImages,
     };
 
     // Write pretty-printed JSON
@@ -110,3 +138,78 @@ export function generateManualRecovery(failure: FailureEntry): string[] {
 
   return guidance;
 }
+
+/**
+ * Summarize download results against the failure threshold
+ * Skipped (already valid) files count as neither attempted nor failed, and fewer than
+ * MIN_ATTEMPTS_FOR_FAIL_RATE attempts always pass
+ *
+ * @param results - Download results for this run
+ * @param discovered - Number of items discovered this run
+ * @param failThreshold - Maximum tolerated failure rate (0-1)
+ * @returns Summary with PASS/FAIL verdict
+ */
+export function buildFailureSummary(
+  results: DownloadResult[],
+  discovered: number,
+  failThreshold: number = DEFAULT_FAIL_THRESHOLD
+): FailureSummary {
+  const skippedValid = results.filter((r) => r.success && !r.downloaded).length;
+  const succeeded = results.filter((r) => r.success && r.downloaded).length;
+  const failed = results.filter((r) => !r.success).length;
+  const attempted = succeeded + failed;
+  const failRate = attempted > 0 ? failed / attempted : 0;
+
+  return {
+    discovered,
+    attempted,
+    skippedValid,
+    succeeded,
+    failed,
+    failRate,
+    failThreshold,
+    verdict: attempted >= MIN_ATTEMPTS_FOR_FAIL_RATE && failRate > failThreshold ? 'FAIL' : 'PASS',
+  };
+}
+
+/**
+ * Convert failed download results into report entries
+ *
+ * @param results - Download results for this run
+ * @returns Failure entries with manual recovery guidance
+ */
+export function buildFailureEntries(results: DownloadResult[]): FailureEntry[] {
+  return results
+    .filter((r) => !r.success)
+    .map((r) => {
+      const entry: FailureEntry = {
+        mediaId: r.task.mediaId,
+        originalUrl: r.task.url,
+        normalizedUrl: r.normalizedUrl ?? r.task.url,
+        nodeAttempt: r.nodeAttempt ?? {},
+        playwrightAttempt: r.playwrightAttempt ?? {},
+        errorMessage: r.error ?? 'Unknown error',
+        timestamp: new Date().toISOString(),
+        manualRecovery: [],
+      };
+      entry.manualRecovery = generateManualRecovery(entry);
+      return entry;
+    });
+}
+
+/**
+ * List the journal images that were left as remote URLs
+ *
+ * @param posts - Journal posts of the backup
+ * @returns One entry per skipped image
+ */
+export function buildSkippedImageEntries(posts: BlogPost[]): SkippedImageEntry[] {
+  return posts.flatMap((post) =>
+    (post.skipped_images ?? []).map((image) => ({
+      postId: post.id,
+      postTitle: post.title,
+      url: image.url,
+      reason: image.reason,
+    }))
+  );
+}
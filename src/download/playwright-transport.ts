@@ -11,7 +11,7 @@ import { mkdir } from 'fs/promises';
 import { dirname } from 'path';
 import type { Page } from 'playwright';
 import { getLogger } from '../utils/logger.js';
-import { isCloudflareBlocked } from '../utils/cloudflare-block.js';
+import { detectCloudflareBlock } from '../utils/cloudflare-block.js';
 
 export interface PlaywrightDownloadResult {
   /** Whether download succeeded */
@@ -22,6 +22,8 @@ export interface PlaywrightDownloadResult {
   contentType?: string;
   /** Error message (if failed) */
   error?: string;
+  /** Cloudflare marker found in a blocked response ('Cloudflare' when the status gave it away) */
+  snippetMarker?: string;
   /** File size in bytes (if successful) */
   sizeBytes?: number;
 }
@@ -52,6 +54,7 @@ export async function downloadWithPlaywright(
     let responseStatus: number | undefined;
     let responseContentType: string | undefined;
     let routeError: string | null = null;
+    let snippetMarker: string | undefined;
 
     // Set up route handler to intercept the request
     await page.route(url, async (route) => {
@@ -68,7 +71,7 @@ export async function downloadWithPlaywright(
         const body = await response.body();
         
         // Check if response is blocked HTML (for both 403 and 200 with HTML markers)
-        const blocked = await isCloudflareBlocked({
+        const block = await detectCloudflareBlock({
           status: responseStatus,
           headers: {
             get: (name: string) => response.headers()[name.toLowerCase()] || null,
@@ -76,7 +79,8 @@ export async function downloadWithPlaywright(
           arrayBuffer: async () => body.buffer as ArrayBuffer,
         });
 
-        if (blocked) {
+        if (block) {
+          snippetMarker = block.marker ?? 'Cloudflare';
           routeError = `Cloudflare block detected: status=${responseStatus}, content-type=${responseContentType}`;
           await route.abort();
           return;
@@ -125,6 +129,7 @@ export async function downloadWithPlaywright(
         status: responseStatus,
         contentType: responseContentType,
         error: routeError,
+        snippetMarker,
       };
     }
 
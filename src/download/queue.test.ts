@@ -0,0 +1,90 @@
+/**
+ * Tests for download queue building
+ * Covers video posters and recorded blog assets
+ */
+
+import { buildDownloadQueue } from './queue';
+import type { Photo, BlogPost } from '../manifest/types';
+
+describe('buildDownloadQueue', () => {
+  const now = new Date().toISOString();
+
+  it('should queue a poster frame after each video', () => {
+    const video: Photo = {
+      id: 'vid1',
+      url_highres: 'https://img.vsco.co/vid1/video.mp4',
+      media_type: 'video',
+      content_type: 'video/mp4',
+      url_poster: 'https://im.vsco.co/vid1/poster.jpg',
+      downloaded_at: now,
+    };
+
+    const { queue, stats } = buildDownloadQueue({ new: [video], missing: [], invalid: [] }, []);
+
+    expect(queue.map((item) => item.localPath)).toEqual([
+      '.vsco-backup/media/vid1.mp4',
+      '.vsco-backup/media/vid1-poster.jpg',
+    ]);
+    expect(stats.new).toBe(1);
+  });
+
+  it('should queue a poster on its own for an intact video', () => {
+    const video: Photo = {
+      id: 'vid1',
+      url_highres: 'https://img.vsco.co/vid1/video.mp4',
+      media_type: 'video',
+      content_type: 'video/mp4',
+      url_poster: 'https://im.vsco.co/vid1/poster.jpg',
+      downloaded_at: now,
+    };
+
+    const { queue, stats } = buildDownloadQueue({ new: [], missing: [], invalid: [], posters: [video] }, []);
+
+    expect(queue).toEqual([
+      expect.objectContaining({ mediaId: 'vid1-poster', localPath: '.vsco-backup/media/vid1-poster.jpg', force: true }),
+    ]);
+    expect(stats).toEqual({ new: 0, missing: 0, invalid: 0 });
+  });
+
+  it('should queue recorded blog assets with their media IDs', () => {
+    const post: BlogPost = {
+      id: 'post-1',
+      slug: 'hello',
+      title: 'Hello',
+      content_html: '<img src="../../.vsco-backup/media/blog-post-1-img-abc.png">',
+      published_at: now,
+      assets: [
+        {
+          media_id: 'blog-post-1-img-abc',
+          url: 'https://im.vsco.co/journal/abc.png',
+          content_type: 'image/png',
+        },
+      ],
+    };
+
+    const { queue } = buildDownloadQueue({ new: [], missing: [], invalid: [] }, [post, post]);
+
+    expect(queue).toHaveLength(1);
+    expect(queue[0]).toMatchObject({
+      url: 'https://im.vsco.co/journal/abc.png',
+      mediaId: 'blog-post-1-img-abc',
+      type: 'blog-asset',
+      localPath: '.vsco-backup/media/blog-post-1-img-abc.png',
+    });
+  });
+
+  it('should still scan remote image sources in posts without recorded assets', () => {
+    const post: BlogPost = {
+      id: 'post-2',
+      slug: 'legacy',
+      title: 'Legacy',
+      content_html: '<img src="https://im.vsco.co/a.jpg"><img src="../.vsco-backup/media/x.jpg">',
+      published_at: now,
+    };
+
+    const { queue } = buildDownloadQueue({ new: [], missing: [], invalid: [] }, [post]);
+
+    expect(queue).toHaveLength(1);
+    expect(queue[0].url).toBe('https://im.vsco.co/a.jpg');
+  });
+});
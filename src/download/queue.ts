@@ -4,7 +4,7 @@
  */
 
 import type { Photo, BlogPost } from '../manifest/types.js';
-import { generateMediaFilename } from '../utils/paths.js';
+import { generateMediaFilename, getPosterMediaId, inferContentTypeFromUrl } from '../utils/paths.js';
 import { createHash } from 'crypto';
 
 export interface QueueItem {
@@ -20,6 +20,8 @@ export interface QueueItem {
   contentType?: string;
   /** Expected size in bytes (if known) */
   expectedSize?: number;
+  /** Re-download even if the local file looks valid (queued as invalid) */
+  force?: boolean;
 }
 
 export interface QueueStats {
@@ -51,11 +53,25 @@ function generateIdFromUrl(url: string): string {
  * Extract embedded asset URLs from blog post HTML content
  * Matches image sources that need to be downloaded
  */
-function extractBlogAssetUrls(posts: BlogPost[]): Array<{ url: string; mediaId: string }> {
-  const assets: Array<{ url: string; mediaId: string }> = [];
+function extractBlogAssetUrls(
+  posts: BlogPost[]
+): Array<{ url: string; mediaId: string; contentType?: string }> {
+  const assets: Array<{ url: string; mediaId: string; contentType?: string }> = [];
   const seenUrls = new Set<string>();
 
   for (const post of posts) {
+    // Scraped posts record their embedded assets explicitly (content_html already points at local copies)
+    if (post.assets) {
+      for (const asset of post.assets) {
+        if (seenUrls.has(asset.url)) {
+          continue;
+        }
+        seenUrls.add(asset.url);
+        assets.push({ url: asset.url, mediaId: asset.media_id, contentType: asset.content_type });
+      }
+      continue;
+    }
+
     // Match src="..." in img tags and other embedded assets
     const imgMatches = post.content_html.matchAll(/src="([^"]+)"/g);
 
@@ -90,7 +106,8 @@ function extractBlogAssetUrls(posts: BlogPost[]): Array<{ url: string; mediaId:
 /**
  * Build download queue from scraped entities
  * 
- * @param photos - Array of photos to download (new, missing, or invalid)
+ * @param photos - Array of photos to download (new, missing, or invalid), and videos
+ *   whose poster frame must be downloaded again (not counted in the stats)
  * @param blogPosts - Array of blog posts (for extracting embedded assets)
  * @param contentTypeById - Map of media ID to content type
  * @param expectedSizesById - Map of media ID to expected size in bytes
@@ -101,6 +118,7 @@ export function buildDownloadQueue(
     new: Photo[];
     missing: Photo[];
     invalid: Photo[];
+    posters?: Photo[];
   },
   blogPosts: BlogPost[],
   contentTypeById: Map<string, string> = new Map(),
@@ -145,32 +163,70 @@ export function buildDownloadQueue(
       type,
       contentType: contentType ?? contentTypeById.get(mediaId),
       expectedSize: expectedSize ?? expectedSizesById.get(mediaId),
+      ...(category === 'invalid' ? { force: true } : {}),
     });
 
     // Update stats
     stats[category]++;
   };
 
+  // Helper to queue a video's poster frame
+  const addPoster = (photo: Photo, force: boolean) => {
+    if (photo.media_type !== 'video' || !photo.url_poster) {
+      return;
+    }
+    const posterId = getPosterMediaId(photo.id);
+    if (seenMediaIds.has(posterId)) {
+      // Already queued with its video; a replaced poster must not be skipped as intact
+      const queued = queue.find((item) => item.mediaId === posterId);
+      if (force && queued) {
+        queued.force = true;
+      }
+      return;
+    }
+    seenMediaIds.add(posterId);
+    const posterType = inferContentTypeFromUrl(photo.url_poster);
+    queue.push({
+      url: photo.url_poster,
+      localPath: `.vsco-backup/media/${generateMediaFilename(posterId, posterType)}`,
+      mediaId: posterId,
+      type: 'photo',
+      contentType: posterType,
+      ...(force ? { force: true } : {}),
+    });
+  };
+
+  // Helper to queue a photo (and its poster frame, for videos)
+  const addPhoto = (photo: Photo, category: 'new' | 'missing' | 'invalid') => {
+    addToQueue(photo.url_highres, photo.id, 'photo', category, photo.content_type);
+    addPoster(photo, false);
+  };
+
   // Process new photos
   for (const photo of photos.new) {
-    addToQueue(photo.url_highres, photo.id, 'photo', 'new');
+    addPhoto(photo, 'new');
   }
 
   // Process missing photos
   for (const photo of photos.missing) {
-    addToQueue(photo.url_highres, photo.id, 'photo', 'missing');
+    addPhoto(photo, 'missing');
   }
 
   // Process invalid photos
   for (const photo of photos.invalid) {
-    addToQueue(photo.url_highres, photo.id, 'photo', 'invalid');
+    addPhoto(photo, 'invalid');
+  }
+
+  // Posters that are unusable on disk or were replaced upstream
+  for (const photo of photos.posters ?? []) {
+    addPoster(photo, true);
   }
 
   // Extract and process blog embedded assets
   // All blog assets are treated as "new" since they're discovered from current blog content
   const blogAssets = extractBlogAssetUrls(blogPosts);
   for (const asset of blogAssets) {
-    addToQueue(asset.url, asset.mediaId, 'blog-asset', 'new');
+    addToQueue(asset.url, asset.mediaId, 'blog-asset', 'new', asset.contentType);
   }
 
   return { queue, stats };
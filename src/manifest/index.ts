@@ -5,9 +5,17 @@
 export {
   SCHEMA_VERSION,
   type Profile,
+  type ProfileIdentity,
+  type ProfileAvatar,
   type Photo,
+  type PhotoExif,
+  type PhotoRevision,
+  type PhotoFieldChange,
+  type RevisionValue,
   type Gallery,
   type BlogPost,
+  type BlogAsset,
+  type BlogSkippedImage,
   type BackupRun,
   type BackupContent,
   type BackupManifest,
@@ -21,8 +29,21 @@ export {
 export {
   ensureBackupRoot,
   loadManifest,
+  readManifest,
+  updateManifest,
   saveManifestAtomic,
   recordBackupRunStart,
+  recordBackupRunResume,
   recordBackupRunFinish,
+  recordRobotsPolicy,
   getManifestPath,
 } from './io.js';
+
+export {
+  type ManifestMigration,
+  type RawManifest,
+  MANIFEST_MIGRATIONS,
+  compareSchemaVersions,
+  findMigrationPath,
+  applyMigrations,
+} from './migrations.js';
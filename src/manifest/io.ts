@@ -1,9 +1,9 @@
 /**
- * Manifest IO operations: initialization, loading, atomic saving, and run recording
+ * Manifest IO operations: initialization, loading and migration, atomic saving, and run recording
  */
 
-import { mkdir, readFile, writeFile, rename } from 'fs/promises';
-import { join } from 'path';
+import { copyFile, mkdir, readFile, writeFile, rename } from 'fs/promises';
+import { dirname, join } from 'path';
 import { randomBytes } from 'crypto';
 import {
   BackupManifest,
@@ -12,6 +12,10 @@ import {
   SCHEMA_VERSION,
   isValidBackupManifest,
 } from './types.js';
+import { applyMigrations, compareSchemaVersions, findMigrationPath } from './migrations.js';
+import type { RawManifest } from './migrations.js';
+import { InvalidInputError } from '../utils/errors.js';
+import { getLogger } from '../utils/logger.js';
 
 const MANIFEST_DIR = '.vsco-backup';
 const MANIFEST_FILENAME = 'manifest.json';
@@ -31,51 +35,142 @@ export async function ensureBackupRoot(backupRoot: string): Promise<void> {
   await mkdir(manifestDir, { recursive: true });
 }
 
+/** Original files of migrated manifests, under .vsco-backup/ */
+const BACKUPS_DIR = 'manifest-backups';
+/** Corrupt manifests moved aside by loadManifest, under .vsco-backup/ */
+const QUARANTINE_DIR = 'quarantine';
+
+type OpenedManifest = { manifest: BackupManifest } | { corrupt: string };
+
+function fileTimestamp(): string {
+  return new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
+}
+
 /**
- * Read manifest from disk without initialization
- * Throws error if manifest is missing or invalid
+ * Replace the manifest file with its upgraded version, copying the original to manifest-backups/ first
  */
-export async function readManifest(backupRoot: string): Promise<BackupManifest> {
+async function upgradeManifestFile(backupRoot: string, manifest: BackupManifest, fromVersion: string): Promise<void> {
+  const backupPath = join(backupRoot, MANIFEST_DIR, BACKUPS_DIR, `manifest-${fromVersion}-${fileTimestamp()}.json`);
+  await mkdir(dirname(backupPath), { recursive: true });
+  await copyFile(getManifestPath(backupRoot), backupPath);
+
+  await saveManifestAtomic(backupRoot, manifest);
+  getLogger().info(
+    `Upgraded manifest from schema ${fromVersion} to ${manifest.schemaVersion} (original saved to ${backupPath})`
+  );
+}
+
+/**
+ * Read the manifest on disk and bring it up to SCHEMA_VERSION
+ * Older versions are migrated step by step; with `persist`, the upgraded manifest
+ * replaces the file (after its original is kept), otherwise it only lives in memory
+ * @returns The manifest, or why it is corrupt (unparseable or the wrong shape)
+ * @throws ENOENT if there is no manifest
+ * @throws InvalidInputError if its version is newer than SCHEMA_VERSION or cannot be migrated
+ */
+async function openManifest(backupRoot: string, persist: boolean): Promise<OpenedManifest> {
   const manifestPath = getManifestPath(backupRoot);
   const content = await readFile(manifestPath, 'utf-8');
-  const parsed = JSON.parse(content);
 
-  if (!isValidBackupManifest(parsed)) {
-    throw new Error('Invalid manifest structure');
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    return { corrupt: `not valid JSON (${(error as Error).message})` };
+  }
+  if (!parsed || typeof parsed !== 'object' || typeof (parsed as RawManifest).schemaVersion !== 'string') {
+    return { corrupt: 'missing schemaVersion' };
+  }
+
+  const raw = parsed as RawManifest;
+  const version = raw.schemaVersion as string;
+  if (compareSchemaVersions(version, SCHEMA_VERSION) > 0) {
+    throw InvalidInputError.fromNewerManifest(manifestPath, version, SCHEMA_VERSION);
+  }
+  const steps = findMigrationPath(version);
+  if (!steps) {
+    throw InvalidInputError.fromUnsupportedManifestVersion(manifestPath, version, SCHEMA_VERSION);
+  }
+
+  const manifest = applyMigrations(raw, steps);
+  if (!isValidBackupManifest(manifest)) {
+    return { corrupt: 'unexpected structure' };
+  }
+
+  if (steps.length > 0) {
+    const logger = getLogger();
+    for (const step of steps) {
+      logger.debug(`Manifest migration ${step.from} -> ${step.to}: ${step.description}`);
+    }
+    if (persist) {
+      await upgradeManifestFile(backupRoot, manifest, version);
+    }
+  }
+
+  return { manifest };
+}
+
+/**
+ * Read manifest from disk without initialization
+ * Older schema versions are migrated in memory only; the file is upgraded by the next backup
+ * @throws ENOENT if the manifest is missing
+ * @throws InvalidInputError if it is corrupt or its version is unsupported
+ */
+export async function readManifest(backupRoot: string): Promise<BackupManifest> {
+  const opened = await openManifest(backupRoot, false);
+  if ('corrupt' in opened) {
+    throw InvalidInputError.fromCorruptManifest(getManifestPath(backupRoot), opened.corrupt);
   }
 
-  return parsed;
+  return opened.manifest;
 }
 
 /**
- * Load manifest from disk, or initialize a new one if missing
+ * Save changes to a manifest opened with readManifest
+ * If it was migrated in memory, the original file is kept first, as a backup run would
+ */
+export async function updateManifest(backupRoot: string, manifest: BackupManifest): Promise<void> {
+  const onDisk = JSON.parse(await readFile(getManifestPath(backupRoot), 'utf-8')) as RawManifest;
+  const version = onDisk.schemaVersion;
+
+  if (typeof version === 'string' && compareSchemaVersions(version, manifest.schemaVersion) < 0) {
+    await upgradeManifestFile(backupRoot, manifest, version);
+  } else {
+    await saveManifestAtomic(backupRoot, manifest);
+  }
+}
+
+/**
+ * Load manifest from disk for a backup run, or initialize a new one if missing
+ * An older schema version is upgraded on disk; a corrupt manifest is moved to quarantine/ (never overwritten) before starting afresh
+ * @throws InvalidInputError if the manifest's version is unsupported
  */
 export async function loadManifest(
   backupRoot: string,
   username: string,
   profileUrl: string
 ): Promise<BackupManifest> {
-  const manifestPath = getManifestPath(backupRoot);
-
+  let opened: OpenedManifest;
   try {
-    const content = await readFile(manifestPath, 'utf-8');
-    const parsed = JSON.parse(content);
-
-    if (!isValidBackupManifest(parsed)) {
-      throw new Error('Invalid manifest structure');
-    }
-
-    return parsed;
+    opened = await openManifest(backupRoot, true);
   } catch (error) {
-    // File doesn't exist or is invalid - create new manifest
-    if (
-      error instanceof Error &&
-      (error.message.includes('ENOENT') || error.message.includes('Invalid manifest'))
-    ) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
       return initializeManifest(username, profileUrl);
     }
     throw error;
   }
+
+  if ('corrupt' in opened) {
+    const quarantinePath = join(backupRoot, MANIFEST_DIR, QUARANTINE_DIR, `manifest-${fileTimestamp()}.json`);
+    await mkdir(dirname(quarantinePath), { recursive: true });
+    await rename(getManifestPath(backupRoot), quarantinePath);
+    getLogger().warn(
+      `Manifest is corrupt (${opened.corrupt}); moved it to ${quarantinePath} and starting a new one`
+    );
+    return initializeManifest(username, profileUrl);
+  }
+
+  return opened.manifest;
 }
 
 /**
@@ -149,7 +244,7 @@ export function recordBackupRunStart(manifest: BackupManifest): string {
     missing_content_count: 0,
     invalid_content_count: 0,
     downloaded_items: [],
-    status: 'success',
+    status: 'running',
   };
 
   manifest.backup_runs.push(run);
@@ -158,6 +253,21 @@ export function recordBackupRunStart(manifest: BackupManifest): string {
   return runId;
 }
 
+/**
+ * Reopen an interrupted or failed run so it can be resumed under the same run_id
+ */
+export function recordBackupRunResume(manifest: BackupManifest, runId: string): void {
+  const run = manifest.backup_runs.find((r) => r.run_id === runId);
+
+  if (!run) {
+    throw new Error(`Run ${runId} not found in manifest`);
+  }
+
+  run.status = 'running';
+  delete run.error_message;
+  manifest.profile.last_backup_ts = new Date().toISOString();
+}
+
 /**
  * Record the completion of a backup run with counts and status
  */
@@ -169,6 +279,9 @@ export function recordBackupRunFinish(
     missing_content_count: number;
     invalid_content_count: number;
     downloaded_items: string[];
+    edited_content_count?: number;
+    deleted_upstream_count?: number;
+    full_sweep?: boolean;
   },
   status: 'success' | 'partial' | 'failed' = 'success',
   errorMessage?: string
@@ -183,9 +296,35 @@ export function recordBackupRunFinish(
   run.missing_content_count = counts.missing_content_count;
   run.invalid_content_count = counts.invalid_content_count;
   run.downloaded_items = counts.downloaded_items;
+  if (counts.edited_content_count !== undefined) {
+    run.edited_content_count = counts.edited_content_count;
+  }
+  if (counts.deleted_upstream_count !== undefined) {
+    run.deleted_upstream_count = counts.deleted_upstream_count;
+  }
+  if (counts.full_sweep !== undefined) {
+    run.full_sweep = counts.full_sweep;
+  }
   run.status = status;
 
   if (errorMessage) {
     run.error_message = errorMessage;
   }
 }
+
+/**
+ * Record the robots.txt policy decision for a backup run
+ */
+export function recordRobotsPolicy(
+  manifest: BackupManifest,
+  runId: string,
+  policy: NonNullable<BackupRun['robots_policy']>
+): void {
+  const run = manifest.backup_runs.find((r) => r.run_id === runId);
+
+  if (!run) {
+    throw new Error(`Run ${runId} not found in manifest`);
+  }
+
+  run.robots_policy = policy;
+}
@@ -0,0 +1,153 @@
+/**
+ * Tests for manifest schema migrations, version checks and quarantine of corrupt manifests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdir, mkdtemp, readdir, readFile, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { applyMigrations, compareSchemaVersions, findMigrationPath } from './migrations.js';
+import type { ManifestMigration } from './migrations.js';
+import { getManifestPath, loadManifest, readManifest, updateManifest } from './io.js';
+import { SCHEMA_VERSION } from './types.js';
+import { InvalidInputError } from '../utils/errors.js';
+
+function legacyManifest(): Record<string, unknown> {
+  return {
+    schemaVersion: '1.0.0',
+    profile: {
+      username: 'testuser',
+      profile_url: 'https://vsco.co/testuser',
+      last_backup_ts: '2024-01-01T00:00:00.000Z',
+      backup_version: '1.0.0',
+    },
+    content: {
+      photos: [{ id: 'a', url_highres: 'https://im.vsco.co/a.jpg', downloaded_at: '2024-01-01T00:00:00.000Z' }],
+      galleries: [],
+      blog_posts: [],
+    },
+    backup_runs: [
+      {
+        run_id: 'run-1',
+        ts: '2024-01-01T00:00:00.000Z',
+        new_content_count: 1,
+        missing_content_count: 0,
+        invalid_content_count: 0,
+        downloaded_items: ['a'],
+        status: 'success',
+      },
+    ],
+  };
+}
+
+describe('compareSchemaVersions', () => {
+  it('should compare numerically, part by part', () => {
+    expect(compareSchemaVersions('1.10.0', '1.9.0')).toBeGreaterThan(0);
+    expect(compareSchemaVersions('1.0', '1.0.0')).toBe(0);
+    expect(compareSchemaVersions('0.9.0', '1.0.0')).toBeLessThan(0);
+  });
+});
+
+describe('findMigrationPath', () => {
+  const steps: ManifestMigration[] = [
+    { from: '1.0.0', to: '1.1.0', description: 'a', migrate: (m) => ({ ...m, a: true }) },
+    { from: '1.1.0', to: '2.0.0', description: 'b', migrate: (m) => ({ ...m, b: true }) },
+  ];
+
+  it('should chain migrations up to the target version', () => {
+    expect(findMigrationPath('1.0.0', '2.0.0', steps)).toEqual(steps);
+    expect(findMigrationPath('2.0.0', '2.0.0', steps)).toEqual([]);
+  });
+
+  it('should return null when no chain reaches the target', () => {
+    expect(findMigrationPath('0.9.0', '2.0.0', steps)).toBeNull();
+    expect(findMigrationPath('1.0.0', '1.5.0', steps)).toBeNull();
+  });
+
+  it('should apply each step and stamp its version', () => {
+    expect(applyMigrations({ schemaVersion: '1.0.0' }, steps)).toEqual({ schemaVersion: '2.0.0', a: true, b: true });
+  });
+});
+
+describe('loading manifests', () => {
+  let backupRoot: string;
+  let manifestPath: string;
+
+  beforeEach(async () => {
+    backupRoot = await mkdtemp(join(tmpdir(), 'vsco-manifest-'));
+    manifestPath = getManifestPath(backupRoot);
+    await mkdir(join(backupRoot, '.vsco-backup'));
+  });
+
+  afterEach(async () => {
+    await rm(backupRoot, { recursive: true, force: true });
+  });
+
+  it('should migrate an older manifest in memory when only reading it', async () => {
+    const original = JSON.stringify(legacyManifest());
+    await writeFile(manifestPath, original);
+
+    const manifest = await readManifest(backupRoot);
+
+    expect(manifest.schemaVersion).toBe(SCHEMA_VERSION);
+    expect(manifest.content.photos[0]).toMatchObject({ media_type: 'image', content_type: 'image/jpeg' });
+    expect(manifest.backup_runs).toHaveLength(1);
+    expect(await readFile(manifestPath, 'utf-8')).toBe(original);
+    expect(await readdir(join(backupRoot, '.vsco-backup'))).toEqual(['manifest.json']);
+  });
+
+  it('should upgrade an older manifest on disk for a backup and keep the original', async () => {
+    const original = JSON.stringify(legacyManifest());
+    await writeFile(manifestPath, original);
+
+    const manifest = await loadManifest(backupRoot, 'testuser', 'https://vsco.co/testuser');
+
+    expect(manifest.schemaVersion).toBe(SCHEMA_VERSION);
+    expect(JSON.parse(await readFile(manifestPath, 'utf-8')).schemaVersion).toBe(SCHEMA_VERSION);
+
+    const backups = await readdir(join(backupRoot, '.vsco-backup', 'manifest-backups'));
+    expect(backups).toHaveLength(1);
+    expect(backups[0]).toMatch(/^manifest-1\.0\.0-.*\.json$/);
+    expect(await readFile(join(backupRoot, '.vsco-backup', 'manifest-backups', backups[0]), 'utf-8')).toBe(original);
+  });
+
+  it('should keep the original when saving changes to a manifest migrated in memory', async () => {
+    const original = JSON.stringify(legacyManifest());
+    await writeFile(manifestPath, original);
+
+    const manifest = await readManifest(backupRoot);
+    manifest.content.photos[0].integrity = 'invalid';
+    await updateManifest(backupRoot, manifest);
+    await updateManifest(backupRoot, manifest);
+
+    expect(JSON.parse(await readFile(manifestPath, 'utf-8')).content.photos[0].integrity).toBe('invalid');
+    const backups = await readdir(join(backupRoot, '.vsco-backup', 'manifest-backups'));
+    expect(backups).toHaveLength(1);
+    expect(await readFile(join(backupRoot, '.vsco-backup', 'manifest-backups', backups[0]), 'utf-8')).toBe(original);
+  });
+
+  it('should refuse a manifest from a newer version without touching it', async () => {
+    const newer = JSON.stringify({ ...legacyManifest(), schemaVersion: '99.0.0' });
+    await writeFile(manifestPath, newer);
+
+    await expect(loadManifest(backupRoot, 'testuser', 'https://vsco.co/testuser')).rejects.toThrow(
+      /newer than this version supports/
+    );
+    expect(await readFile(manifestPath, 'utf-8')).toBe(newer);
+  });
+
+  it('should quarantine a corrupt manifest instead of overwriting it', async () => {
+    await writeFile(manifestPath, '{"schemaVersion": "1.1.0", "profile": ');
+
+    await expect(readManifest(backupRoot)).rejects.toThrow(InvalidInputError);
+
+    const manifest = await loadManifest(backupRoot, 'testuser', 'https://vsco.co/testuser');
+
+    expect(manifest.backup_runs).toEqual([]);
+    const quarantined = await readdir(join(backupRoot, '.vsco-backup', 'quarantine'));
+    expect(quarantined).toHaveLength(1);
+    expect(await readFile(join(backupRoot, '.vsco-backup', 'quarantine', quarantined[0]), 'utf-8')).toContain(
+      '"profile": '
+    );
+  });
+});
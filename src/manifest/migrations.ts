@@ -0,0 +1,89 @@
+/**
+ * Manifest schema migrations
+ * - Each migration upgrades a manifest from one schemaVersion to the next
+ * - Older manifests are upgraded step by step up to SCHEMA_VERSION
+ * - Migrations work on the raw JSON, since older manifests do not match today's types
+ */
+
+import { SCHEMA_VERSION } from './types.js';
+
+/** A manifest as parsed from disk, before it is known to match BackupManifest */
+export type RawManifest = Record<string, unknown>;
+
+export interface ManifestMigration {
+  from: string;
+  to: string;
+  /** One line for logs, e.g. "Record media types explicitly" */
+  description: string;
+  /** Return the upgraded manifest; may modify its argument */
+  migrate: (manifest: RawManifest) => RawManifest;
+}
+
+function records(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is Record<string, unknown> => Boolean(item) && typeof item === 'object')
+    : [];
+}
+
+/**
+ * Known migrations, oldest first
+ */
+export const MANIFEST_MIGRATIONS: ManifestMigration[] = [
+  {
+    from: '1.0.0',
+    to: '1.1.0',
+    description: 'Record media and content types explicitly',
+    migrate: (manifest) => {
+      // 1.0.0 predates video support: every entry is a JPEG image
+      const content = (manifest.content ?? {}) as Record<string, unknown>;
+      for (const photo of records(content.photos)) {
+        photo.media_type ??= 'image';
+        photo.content_type ??= 'image/jpeg';
+      }
+      return manifest;
+    },
+  },
+];
+
+/**
+ * Compare dotted numeric versions ("1.10.0" > "1.9.0")
+ * @returns Negative, zero or positive like a sort comparator
+ */
+export function compareSchemaVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const difference = (left[i] ?? 0) - (right[i] ?? 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+}
+
+/**
+ * Chain of migrations from `fromVersion` up to `toVersion`
+ * @returns The steps to apply (empty when already current), or null if no chain exists
+ */
+export function findMigrationPath(
+  fromVersion: string,
+  toVersion: string = SCHEMA_VERSION,
+  migrations: ManifestMigration[] = MANIFEST_MIGRATIONS
+): ManifestMigration[] | null {
+  const steps: ManifestMigration[] = [];
+  let version = fromVersion;
+
+  while (version !== toVersion) {
+    const next = migrations.find((migration) => migration.from === version);
+    if (!next || compareSchemaVersions(next.to, toVersion) > 0) return null;
+    steps.push(next);
+    version = next.to;
+  }
+
+  return steps;
+}
+
+/**
+ * Apply migrations in order, stamping each step's version
+ */
+export function applyMigrations(manifest: RawManifest, steps: ManifestMigration[]): RawManifest {
+  return steps.reduce((current, step) => ({ ...step.migrate(current), schemaVersion: step.to }), manifest);
+}
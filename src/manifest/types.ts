@@ -4,9 +4,10 @@
  */
 
 /**
- * Schema version constant - increment when manifest structure changes
+ * Schema version constant - increment when manifest structure changes,
+ * and add a step to MANIFEST_MIGRATIONS (migrations.ts) from the previous version
  */
-export const SCHEMA_VERSION = '1.0.0';
+export const SCHEMA_VERSION = '1.1.0';
 
 /**
  * Profile metadata
@@ -20,6 +21,78 @@ export interface Profile {
   last_backup_ts: string;
   /** Backup version that created this profile entry */
   backup_version: string;
+  /** VSCO's stable site ID; survives username changes */
+  site_id?: string;
+  /** VSCO's stable user ID */
+  user_id?: string;
+  /** Name shown on the profile */
+  display_name?: string;
+  /** Profile description */
+  bio?: string;
+  /** Profile picture, downloaded into the media directory */
+  avatar?: ProfileAvatar;
+  /** External links shown on the profile, in page order */
+  links?: string[];
+  /** Identity edits noticed on VSCO, oldest first (display name, bio, avatar URL, links, IDs) */
+  identity_revisions?: PhotoRevision[];
+}
+
+/**
+ * Identity fields of the profile, as a backup run reads them from VSCO
+ */
+export type ProfileIdentity = Pick<Profile, 'site_id' | 'user_id' | 'display_name' | 'bio' | 'avatar' | 'links'>;
+
+/**
+ * Profile picture; a new picture gets a new media ID, so earlier ones stay on disk
+ */
+export interface ProfileAvatar {
+  /** Media ID of the local copy (used for the filename) */
+  media_id: string;
+  /** Original remote URL */
+  url: string;
+  /** MIME type used to name the local file */
+  content_type: string;
+}
+
+/**
+ * Camera data for a photo, from the VSCO API or the image file's EXIF
+ */
+export interface PhotoExif {
+  camera_make?: string;
+  camera_model?: string;
+  lens?: string;
+  /** f-number, e.g. 2.8 */
+  aperture?: number;
+  /** Exposure time as a fraction string, e.g. "1/125" */
+  exposure_time?: string;
+  iso?: number;
+  /** Focal length in millimetres */
+  focal_length?: number;
+}
+
+/** Value of a tracked photo field before or after an upstream edit */
+export type RevisionValue = string | number | string[];
+
+/**
+ * One field that changed on VSCO between two backups
+ */
+export interface PhotoFieldChange {
+  field: string;
+  /** Value before the edit (absent if the field was unset) */
+  previous?: RevisionValue;
+  /** Value after the edit (absent if VSCO no longer reports it) */
+  current?: RevisionValue;
+}
+
+/**
+ * Upstream edits noticed by one backup run (of a photo, or of the profile's identity)
+ */
+export interface PhotoRevision {
+  /** When the edit was noticed (ISO 8601) */
+  detected_at: string;
+  /** Run that noticed it */
+  run_id: string;
+  changes: PhotoFieldChange[];
 }
 
 /**
@@ -28,18 +101,48 @@ export interface Profile {
 export interface Photo {
   /** Stable photo ID (VSCO-provided or hash of canonical URL) */
   id: string;
-  /** Highest-resolution available URL */
+  /** Highest-resolution available URL (the MP4 rendition for videos) */
   url_highres: string;
-  /** Image width in pixels (if discoverable) */
+  /** Media kind; absent on entries written before video support (treated as 'image') */
+  media_type?: 'image' | 'video';
+  /** MIME type used to name the local file (defaults to image/jpeg) */
+  content_type?: string;
+  /** Poster frame URL for videos */
+  url_poster?: string;
+  /** VSCO page for this photo */
+  permalink?: string;
+  /** Image width in pixels (from VSCO, else read from the downloaded file) */
   width?: number;
-  /** Image height in pixels (if discoverable) */
+  /** Image height in pixels (from VSCO, else read from the downloaded file) */
   height?: number;
   /** Photo caption/description (if present) */
   caption?: string;
+  /** When the photo was posted to VSCO (ISO 8601) */
+  uploaded_at?: string;
+  /** When the photo was taken, from VSCO or the file's EXIF (ISO 8601) */
+  captured_at?: string;
+  /** VSCO preset/filter applied, e.g. "A6" */
+  preset?: string;
+  /** Camera data */
+  exif?: PhotoExif;
+  /** Tags attached on VSCO */
+  tags?: string[];
   /** Gallery ID this photo belongs to (if part of a gallery) */
   source_gallery_id?: string;
   /** Timestamp when this photo was downloaded (ISO 8601) */
   downloaded_at: string;
+  /** Hex SHA-256 digest of the local file, recorded at download time */
+  sha256?: string;
+  /** Size of the local file in bytes */
+  size_bytes?: number;
+  /** MIME type detected from the file's magic bytes */
+  mime_type?: string;
+  /** Result of the last integrity check; 'invalid' forces a re-download on the next run */
+  integrity?: 'ok' | 'invalid';
+  /** When a complete discovery first no longer found this photo on VSCO (ISO 8601); the local copy is kept */
+  deleted_upstream?: string;
+  /** Upstream edits (caption, tags, image URL...), oldest first */
+  revisions?: PhotoRevision[];
 }
 
 /**
@@ -58,6 +161,29 @@ export interface Gallery {
   photo_ids: string[];
 }
 
+/**
+ * Image embedded in a blog post, downloaded into the media directory
+ */
+export interface BlogAsset {
+  /** Media ID of the local copy (used for the filename) */
+  media_id: string;
+  /** Original remote URL */
+  url: string;
+  /** MIME type used to name the local file */
+  content_type: string;
+}
+
+/**
+ * Image embedded in a blog post that could not be downloaded (blob: or unsupported URL);
+ * content_html still points at the remote URL
+ */
+export interface BlogSkippedImage {
+  /** URL as found in the post */
+  url: string;
+  /** Why the URL could not be downloaded */
+  reason: string;
+}
+
 /**
  * Blog post entity
  */
@@ -72,6 +198,10 @@ export interface BlogPost {
   content_html: string;
   /** Publication timestamp (ISO 8601) */
   published_at: string;
+  /** Embedded images referenced from content_html (absent when only an excerpt was captured) */
+  assets?: BlogAsset[];
+  /** Embedded images that are not available offline */
+  skipped_images?: BlogSkippedImage[];
 }
 
 /**
@@ -90,8 +220,17 @@ export interface BackupRun {
   invalid_content_count: number;
   /** Array of downloaded item IDs in this run */
   downloaded_items: string[];
-  /** Run status: 'success' | 'partial' | 'failed' */
-  status: 'success' | 'partial' | 'failed';
+  /** Count of backed-up items whose details were edited on VSCO */
+  edited_content_count?: number;
+  /** Count of backed-up items newly found to be removed from VSCO */
+  deleted_upstream_count?: number;
+  /**
+   * Whether discovery walked the whole profile; false when an incremental early stop
+   * or a --max-items / --max-scrolls limit cut it short
+   */
+  full_sweep?: boolean;
+  /** Run status: 'running' until the run finishes (or if it was interrupted), then 'success' | 'partial' | 'failed' */
+  status: 'running' | 'success' | 'partial' | 'failed';
   /** Optional error message if status is 'failed' or 'partial' */
   error_message?: string;
   /** Robots.txt policy decision for this run */
@@ -152,6 +291,7 @@ export function isValidBackupManifest(value: unknown): value is BackupManifest {
   ) {
     return false;
   }
+  if (!isValidProfileIdentity(profile)) return false;
 
   // Check content
   if (!obj.content || typeof obj.content !== 'object') return false;
@@ -170,6 +310,29 @@ export function isValidBackupManifest(value: unknown): value is BackupManifest {
   return true;
 }
 
+/**
+ * Check the optional identity fields of a profile
+ */
+function isValidProfileIdentity(profile: Record<string, unknown>): boolean {
+  const avatar = profile.avatar as Record<string, unknown> | undefined;
+  return (
+    (profile.site_id === undefined || typeof profile.site_id === 'string') &&
+    (profile.user_id === undefined || typeof profile.user_id === 'string') &&
+    (profile.display_name === undefined || typeof profile.display_name === 'string') &&
+    (profile.bio === undefined || typeof profile.bio === 'string') &&
+    (avatar === undefined ||
+      (typeof avatar === 'object' &&
+        avatar !== null &&
+        typeof avatar.media_id === 'string' &&
+        typeof avatar.url === 'string' &&
+        typeof avatar.content_type === 'string')) &&
+    (profile.links === undefined ||
+      (Array.isArray(profile.links) && profile.links.every((link) => typeof link === 'string'))) &&
+    (profile.identity_revisions === undefined ||
+      (Array.isArray(profile.identity_revisions) && profile.identity_revisions.every(isValidPhotoRevision)))
+  );
+}
+
 /**
  * Type guard: check if value is a valid Photo
  */
@@ -181,10 +344,39 @@ export function isValidPhoto(value: unknown): value is Photo {
     typeof obj.id === 'string' &&
     typeof obj.url_highres === 'string' &&
     typeof obj.downloaded_at === 'string' &&
+    (obj.media_type === undefined || obj.media_type === 'image' || obj.media_type === 'video') &&
+    (obj.content_type === undefined || typeof obj.content_type === 'string') &&
+    (obj.url_poster === undefined || typeof obj.url_poster === 'string') &&
     (obj.width === undefined || typeof obj.width === 'number') &&
     (obj.height === undefined || typeof obj.height === 'number') &&
     (obj.caption === undefined || typeof obj.caption === 'string') &&
-    (obj.source_gallery_id === undefined || typeof obj.source_gallery_id === 'string')
+    (obj.permalink === undefined || typeof obj.permalink === 'string') &&
+    (obj.uploaded_at === undefined || typeof obj.uploaded_at === 'string') &&
+    (obj.captured_at === undefined || typeof obj.captured_at === 'string') &&
+    (obj.preset === undefined || typeof obj.preset === 'string') &&
+    (obj.exif === undefined || (typeof obj.exif === 'object' && obj.exif !== null)) &&
+    (obj.tags === undefined || (Array.isArray(obj.tags) && obj.tags.every((tag) => typeof tag === 'string'))) &&
+    (obj.source_gallery_id === undefined || typeof obj.source_gallery_id === 'string') &&
+    (obj.sha256 === undefined || typeof obj.sha256 === 'string') &&
+    (obj.size_bytes === undefined || typeof obj.size_bytes === 'number') &&
+    (obj.mime_type === undefined || typeof obj.mime_type === 'string') &&
+    (obj.integrity === undefined || obj.integrity === 'ok' || obj.integrity === 'invalid') &&
+    (obj.deleted_upstream === undefined || typeof obj.deleted_upstream === 'string') &&
+    (obj.revisions === undefined || (Array.isArray(obj.revisions) && obj.revisions.every(isValidPhotoRevision)))
+  );
+}
+
+function isValidPhotoRevision(value: unknown): value is PhotoRevision {
+  if (!value || typeof value !== 'object') return false;
+
+  const obj = value as Record<string, unknown>;
+  return (
+    typeof obj.detected_at === 'string' &&
+    typeof obj.run_id === 'string' &&
+    Array.isArray(obj.changes) &&
+    obj.changes.every(
+      (change) => change && typeof change === 'object' && typeof (change as Record<string, unknown>).field === 'string'
+    )
   );
 }
 
@@ -216,7 +408,9 @@ export function isValidBlogPost(value: unknown): value is BlogPost {
     typeof obj.slug === 'string' &&
     typeof obj.title === 'string' &&
     typeof obj.content_html === 'string' &&
-    typeof obj.published_at === 'string'
+    typeof obj.published_at === 'string' &&
+    (obj.assets === undefined || Array.isArray(obj.assets)) &&
+    (obj.skipped_images === undefined || Array.isArray(obj.skipped_images))
   );
 }
 
@@ -227,7 +421,7 @@ export function isValidBackupRun(value: unknown): value is BackupRun {
   if (!value || typeof value !== 'object') return false;
 
   const obj = value as Record<string, unknown>;
-  const validStatuses = ['success', 'partial', 'failed'];
+  const validStatuses = ['running', 'success', 'partial', 'failed'];
 
   const robotsPolicyValid =
     obj.robots_policy === undefined ||
@@ -247,6 +441,9 @@ export function isValidBackupRun(value: unknown): value is BackupRun {
     Array.isArray(obj.downloaded_items) &&
     validStatuses.includes(obj.status as string) &&
     (obj.error_message === undefined || typeof obj.error_message === 'string') &&
+    (obj.edited_content_count === undefined || typeof obj.edited_content_count === 'number') &&
+    (obj.deleted_upstream_count === undefined || typeof obj.deleted_upstream_count === 'number') &&
+    (obj.full_sweep === undefined || typeof obj.full_sweep === 'boolean') &&
     robotsPolicyValid
   );
 }
@@ -0,0 +1,112 @@
+/**
+ * End-to-end run of the full backup pipeline against the local mock VSCO server
+ * Real discovery (headless Chromium), downloads and site generation, with throttling,
+ * a truncated transfer and a Cloudflare block injected along the way
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { orchestrateBackup } from '../core/index.js';
+import { readManifest } from '../manifest/io.js';
+import { getIndexPath } from '../utils/paths.js';
+import { MOCK_MEDIA_API_PATH, startMockVscoServer } from './mock-vsco-server.js';
+import type { MockPhoto, MockProfile, MockVscoServer } from './mock-vsco-server.js';
+
+const USERNAME = 'mockuser';
+
+function photos(count: number, offset: number = 0): MockPhoto[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `photo${String(offset + i).padStart(3, '0')}`,
+    caption: `Photo ${offset + i}`,
+    uploadedAt: new Date(Date.UTC(2024, 0, 1 + offset + i)).toISOString(),
+  }));
+}
+
+function profile(photoList: MockPhoto[], bio: string = 'Film photos'): MockProfile {
+  return {
+    username: USERNAME,
+    displayName: 'Mock User',
+    bio,
+    avatar: true,
+    links: ['https://mock.example/'],
+    photos: photoList,
+    galleries: [{ slug: 'travel', name: 'Travel', description: 'On the road', photoIds: photoList.slice(0, 3).map((p) => p.id) }],
+    journal: [
+      {
+        slug: 'first-post',
+        title: 'First post',
+        publishedAt: '2024-02-01T00:00:00.000Z',
+        html: '<p>Hello</p><img src="/i/journal1.jpg">',
+      },
+    ],
+  };
+}
+
+describe('mock VSCO end to end', () => {
+  const initial = photos(30);
+  let server: MockVscoServer;
+  let outRoot: string;
+  let options: { baseUrl: string; timeoutMs: number; requestsPerSecond: number; concurrency: number };
+
+  beforeAll(async () => {
+    outRoot = await mkdtemp(join(tmpdir(), 'vsco-e2e-'));
+    server = await startMockVscoServer({
+      profiles: [profile(initial), { username: 'privateuser', private: true, photos: photos(3) }],
+      pageSize: 12,
+      faults: [
+        { path: MOCK_MEDIA_API_PATH, kind: 'throttle', times: 1 },
+        { path: `/i/${initial[1].id}.jpg`, kind: 'truncate', times: 1 },
+        { path: `/i/${initial[2].id}.jpg`, kind: 'cloudflare' },
+      ],
+    });
+    options = { baseUrl: server.url, timeoutMs: 15000, requestsPerSecond: 20, concurrency: 4 };
+  });
+
+  afterAll(async () => {
+    await server?.close();
+    await rm(outRoot, { recursive: true, force: true });
+  });
+
+  it('should page through the grid and survive injected faults', async () => {
+    const result = await orchestrateBackup(USERNAME, outRoot, options);
+    const manifest = await readManifest(result.backupRoot);
+    const pagesRequested = server.requests.filter((path) => path.startsWith(MOCK_MEDIA_API_PATH)).length;
+
+    expect(manifest.content.photos).toHaveLength(initial.length);
+    // 3 grid pages plus the throttled retry
+    expect(pagesRequested).toBeGreaterThanOrEqual(4);
+    // Only the Cloudflare-blocked photo fails; the truncated one is retried
+    expect(result).toMatchObject({ status: 'partial', failedCount: 1 });
+    expect(manifest.content.photos.find((photo) => photo.id === initial[1].id)?.integrity).toBe('ok');
+    expect(manifest.content.galleries[0]?.photo_ids).toHaveLength(3);
+    expect(manifest.content.blog_posts[0]?.assets).toHaveLength(1);
+    expect(manifest.profile).toMatchObject({ display_name: 'Mock User', links: [expect.anything()] });
+    expect(manifest.profile.site_id).toBeTruthy();
+    expect(manifest.profile.avatar).toBeDefined();
+
+    const index = await readFile(getIndexPath(result.backupRoot), 'utf-8');
+    expect(index).toContain('class="avatar"');
+    expect(index).toContain('Mock User');
+  }, 180000);
+
+  it('should only pick up new photos and profile edits on the next run', async () => {
+    server.setProfile(profile([...photos(2, 100), ...initial], 'Film and travel photos'));
+
+    const result = await orchestrateBackup(USERNAME, outRoot, options);
+    const manifest = await readManifest(result.backupRoot);
+
+    expect(result.newCount).toBe(2);
+    expect(manifest.content.photos).toHaveLength(initial.length + 2);
+    expect(manifest.profile.identity_revisions).toHaveLength(1);
+    expect(manifest.profile.identity_revisions?.[0].changes[0]?.field).toBe('bio');
+  }, 180000);
+
+  it.each([
+    ['nosuchuser', /not found/i],
+    ['privateuser', /private/i],
+  ])('should report %s instead of backing it up', async (username, expected) => {
+    await expect(orchestrateBackup(username, outRoot, options)).rejects.toThrow(expected);
+  }, 120000);
+});
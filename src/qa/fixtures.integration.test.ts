@@ -0,0 +1,53 @@
+/**
+ * End-to-end replay of a committed fixture bundle: discovery (headless Chromium), downloads
+ * and site generation, answered entirely from src/qa/fixtures/replayuser.har.json
+ *
+ * The bundle was recorded from the mock VSCO server at RECORDED_ORIGIN. The backup pipeline
+ * reaches import.meta (site generator), which `npm test` supports by running jest as ESM
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { mkdtemp, readFile, rm, stat } from 'fs/promises';
+import { join, resolve } from 'path';
+import { tmpdir } from 'os';
+import { orchestrateBackup } from '../core/index.js';
+import { readManifest } from '../manifest/io.js';
+import { generateMediaFilename, getIndexPath, getMediaPath } from '../utils/paths.js';
+
+const USERNAME = 'replayuser';
+const FIXTURES_DIR = resolve('src/qa/fixtures');
+/** Origin the bundle was recorded from; nothing listens there during replay */
+const RECORDED_ORIGIN = 'http://127.0.0.1:47231';
+
+describe('fixture replay', () => {
+  it('should back up a recorded profile without network', async () => {
+    const outRoot = await mkdtemp(join(tmpdir(), 'vsco-replay-'));
+
+    try {
+      const result = await orchestrateBackup(USERNAME, outRoot, {
+        replayFixtures: FIXTURES_DIR,
+        baseUrl: RECORDED_ORIGIN,
+        timeoutMs: 15000,
+      });
+      const manifest = await readManifest(result.backupRoot);
+
+      expect(result.status).toBe('success');
+      expect(manifest.content.photos.map((photo) => photo.id).sort()).toEqual(['photo001', 'photo002', 'video003']);
+      expect(manifest.content.galleries).toEqual([
+        expect.objectContaining({ id: 'travel', name: 'Travel', photo_ids: ['photo001', 'photo002'] }),
+      ]);
+      expect(manifest.content.blog_posts).toHaveLength(1);
+      expect(manifest.content.blog_posts[0].assets).toHaveLength(1);
+      expect(manifest.profile).toMatchObject({ display_name: 'Replay User', bio: 'Recorded for replay tests' });
+
+      for (const photo of manifest.content.photos) {
+        expect(photo.integrity).toBe('ok');
+        const file = await stat(getMediaPath(result.backupRoot, generateMediaFilename(photo.id, photo.content_type)));
+        expect(file.size).toBe(photo.size_bytes);
+      }
+      expect(await readFile(getIndexPath(result.backupRoot), 'utf-8')).toContain('Replay User');
+    } finally {
+      await rm(outRoot, { recursive: true, force: true });
+    }
+  }, 120000);
+});
@@ -0,0 +1,209 @@
+/**
+ * Tests for recording and replaying fixture bundles
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { EventEmitter } from 'events';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { Page, Route } from 'playwright';
+import {
+  createFixtureRecorder,
+  createFixtureReplay,
+  createPlaceholderMedia,
+  getFixtureBundlePath,
+  readFixtureBundle,
+  writeFixtureBundle,
+} from './fixtures.js';
+import type { FixtureBundle, FixtureEntry } from './fixtures.js';
+import { checkMediaIntegrity } from '../utils/integrity.js';
+import { InvalidInputError } from '../utils/errors.js';
+
+function entry(url: string, status: number, mimeType: string, text?: string): FixtureEntry {
+  return {
+    startedDateTime: '2025-01-01T00:00:00.000Z',
+    request: { method: 'GET', url },
+    response: {
+      status,
+      headers: [
+        { name: 'content-type', value: mimeType },
+        { name: 'content-length', value: '999' },
+      ],
+      content: { mimeType, size: text?.length ?? 999, text },
+    },
+  };
+}
+
+function bundle(entries: FixtureEntry[]): FixtureBundle {
+  return { log: { version: '1.2', creator: { name: 'test', version: '0' }, entries } };
+}
+
+/** Stand-in for a Playwright response event */
+function pageResponse(url: string, contentType: string, body: string, headers: Record<string, string> = {}) {
+  return {
+    url: () => url,
+    status: () => 200,
+    headers: () => ({ 'content-type': contentType, ...headers }),
+    body: async () => Buffer.from(body),
+    request: () => ({ method: () => 'GET' }),
+  };
+}
+
+describe('createFixtureRecorder', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should keep page and API bodies and only the headers of media', async () => {
+    const recorder = createFixtureRecorder();
+    const page = new EventEmitter();
+    const detach = recorder.attach(page as unknown as Page);
+
+    page.emit('response', pageResponse('https://vsco.co/foo/gallery', 'text/html', '<html>profile</html>'));
+    page.emit('response', pageResponse('https://vsco.co/api/2.0/medias', 'application/json', '{"media":[]}'));
+    page.emit('response', pageResponse('https://im.vsco.co/a.jpg', 'image/jpeg', 'binary'));
+    detach();
+    page.emit('response', pageResponse('https://vsco.co/after', 'text/html', 'ignored'));
+
+    const { log } = await recorder.finish();
+
+    expect(log.entries.map((e) => e.request.url)).toEqual([
+      'https://vsco.co/foo/gallery',
+      'https://vsco.co/api/2.0/medias',
+      'https://im.vsco.co/a.jpg',
+    ]);
+    expect(log.entries[1].response.content.text).toBe('{"media":[]}');
+    expect(log.entries[2].response.content.text).toBeUndefined();
+  });
+
+  it('should record what fetch returns and pass the response through', async () => {
+    jest.spyOn(global, 'fetch').mockImplementation(async (input) =>
+      String(input).endsWith('.txt')
+        ? new Response('User-agent: *', { headers: { 'content-type': 'text/plain' } })
+        : new Response(Buffer.from([0xff, 0xd8, 0xff]), { headers: { 'content-type': 'image/jpeg' } })
+    );
+    const recorder = createFixtureRecorder();
+
+    expect(await (await recorder.fetch('https://vsco.co/robots.txt')).text()).toBe('User-agent: *');
+    expect((await (await recorder.fetch('https://im.vsco.co/a.jpg')).arrayBuffer()).byteLength).toBe(3);
+
+    const { log } = await recorder.finish();
+    expect(log.entries[0].response.content.text).toBe('User-agent: *');
+    expect(log.entries[1].response.content.text).toBeUndefined();
+  });
+
+  it('should leave cookies and credentials out of the bundle', async () => {
+    jest.spyOn(global, 'fetch').mockImplementation(
+      async () =>
+        new Response('User-agent: *', {
+          headers: { 'content-type': 'text/plain', 'set-cookie': 'sid=1', 'x-session-id': 'abc' },
+        })
+    );
+    const recorder = createFixtureRecorder();
+    const page = new EventEmitter();
+    recorder.attach(page as unknown as Page);
+
+    page.emit(
+      'response',
+      pageResponse('https://vsco.co/api/2.0/medias', 'application/json', '{}', {
+        'set-cookie': 'sid=1',
+        authorization: 'Bearer secret',
+        'x-csrf-token': 'secret',
+        'cache-control': 'no-cache',
+      })
+    );
+    await recorder.fetch('https://vsco.co/robots.txt');
+
+    const { log } = await recorder.finish();
+    expect(log.entries.map((e) => e.response.headers.map((header) => header.name))).toEqual([
+      ['content-type', 'cache-control'],
+      ['content-type'],
+    ]);
+  });
+});
+
+describe('createFixtureReplay', () => {
+  const recorded = bundle([
+    entry('https://vsco.co/api/page?cursor=1', 200, 'application/json', '{"page":1}'),
+    entry('https://vsco.co/api/page?cursor=1', 200, 'application/json', '{"page":2}'),
+    entry('https://im.vsco.co/a.jpg', 200, 'image/jpeg'),
+  ]);
+
+  it('should serve repeated requests in recorded order, then repeat the last', async () => {
+    const replay = createFixtureReplay(recorded);
+    const bodies = [];
+    for (let i = 0; i < 3; i++) {
+      bodies.push(await (await replay.fetch('https://vsco.co/api/page?cursor=1')).text());
+    }
+
+    expect(bodies).toEqual(['{"page":1}', '{"page":2}', '{"page":2}']);
+  });
+
+  it('should serve media as placeholders and unrecorded requests as 404', async () => {
+    const replay = createFixtureReplay(recorded);
+
+    const media = await replay.fetch('https://im.vsco.co/a.jpg?w=480');
+    expect(media.headers.get('content-type')).toBe('image/jpeg');
+    expect(media.headers.get('content-length')).not.toBe('999');
+    expect(Buffer.from(await media.arrayBuffer()).subarray(0, 3)).toEqual(Buffer.from([0xff, 0xd8, 0xff]));
+
+    expect((await replay.fetch('https://vsco.co/elsewhere')).status).toBe(404);
+  });
+
+  it('should route page requests and stop when detached', async () => {
+    const replay = createFixtureReplay(recorded);
+    let handler: ((route: Route) => Promise<void>) | undefined;
+    const page = {
+      route: jest.fn(async (_pattern: string, h: (route: Route) => Promise<void>) => {
+        handler = h;
+      }),
+      unroute: jest.fn(async (_pattern: string, _handler: unknown) => undefined),
+    };
+    const fulfill = jest.fn(async (_response: unknown) => undefined);
+
+    const detach = await replay.attach(page as unknown as Page);
+    await handler!({
+      request: () => ({ method: () => 'GET', url: () => 'https://vsco.co/api/page?cursor=1' }),
+      fulfill,
+    } as unknown as Route);
+    await detach();
+
+    expect(fulfill).toHaveBeenCalledWith(expect.objectContaining({ status: 200, body: Buffer.from('{"page":1}') }));
+    expect(page.unroute).toHaveBeenCalledWith('**/*', handler);
+  });
+});
+
+describe('createPlaceholderMedia', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'vsco-fixtures-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it.each(['image/jpeg', 'image/png', 'video/mp4'])('should produce a %s file that passes integrity checks', async (type) => {
+    const { body, contentType } = createPlaceholderMedia(type);
+    const filePath = join(dir, 'media');
+    await writeFile(filePath, body);
+
+    const integrity = await checkMediaIntegrity(filePath);
+
+    expect(integrity.mimeType).toBe(contentType);
+    expect(integrity.problem).toBeUndefined();
+  });
+
+  it('should round-trip bundles and reject malformed ones', async () => {
+    const bundlePath = getFixtureBundlePath(dir, 'foo');
+    await writeFixtureBundle(bundlePath, bundle([entry('https://vsco.co/foo', 200, 'text/html', '<html>')]));
+
+    expect((await readFixtureBundle(bundlePath)).log.entries).toHaveLength(1);
+
+    await writeFile(bundlePath, JSON.stringify({ log: { entries: [{ request: {} }] } }));
+    await expect(readFixtureBundle(bundlePath)).rejects.toThrow(InvalidInputError);
+    await expect(readFixtureBundle(join(dir, 'missing.har.json'))).rejects.toThrow('File not found');
+  });
+});
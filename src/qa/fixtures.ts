@@ -0,0 +1,378 @@
+/**
+ * Record-and-replay fixture bundles, so discovery, downloads and site generation run without network
+ * - Record: every response the browser page sees (profile, gallery and journal pages, their scripts,
+ *   API JSON) is kept with its body; media responses, from the page or Node fetch, keep status and headers only.
+ *   Cookies and credentials are left out, so bundles can be shared and committed
+ * - Replay: the page is routed and fetch is swapped so every request is answered from the bundle;
+ *   media are served as small placeholder files of the recorded type
+ * - One bundle per profile, in a subset of HAR 1.2 (log.entries[].request/response)
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import jpeg from 'jpeg-js';
+import { PNG } from 'pngjs';
+import type { Page, Response as PageResponse, Route } from 'playwright';
+import { InvalidInputError } from '../utils/errors.js';
+import { getLogger } from '../utils/logger.js';
+
+export interface FixtureHeader {
+  name: string;
+  value: string;
+}
+
+export interface FixtureEntry {
+  startedDateTime: string;
+  request: {
+    method: string;
+    url: string;
+  };
+  response: {
+    status: number;
+    headers: FixtureHeader[];
+    content: {
+      mimeType: string;
+      /** Body size in bytes, when known */
+      size: number;
+      /** Body; absent for media, which are replayed as placeholders */
+      text?: string;
+      encoding?: 'base64';
+    };
+  };
+}
+
+export interface FixtureBundle {
+  log: {
+    version: '1.2';
+    creator: { name: string; version: string };
+    entries: FixtureEntry[];
+  };
+}
+
+export interface FixtureRecorder {
+  /** Start recording the page's responses; returns a function that stops */
+  attach: (page: Page) => () => void;
+  /** fetch that records what it returns (downloads, robots.txt) */
+  fetch: typeof fetch;
+  /** Bundle of everything recorded, once responses still being read are in */
+  finish: () => Promise<FixtureBundle>;
+}
+
+export interface FixtureReplay {
+  /** Answer all of the page's requests from the bundle; returns a function that stops */
+  attach: (page: Page) => Promise<() => Promise<void>>;
+  /** fetch answered from the bundle */
+  fetch: typeof fetch;
+}
+
+/** Body served for requests the bundle does not have */
+const NOT_RECORDED_STATUS = 404;
+
+/** Side of the square placeholder images served for recorded media */
+const PLACEHOLDER_SIZE = 16;
+
+/** Headers that describe the recorded wire encoding rather than the replayed body */
+const HOP_HEADERS = new Set(['content-length', 'content-encoding', 'transfer-encoding']);
+
+/** Headers that carry cookies or credentials, never written to a bundle */
+const SECRET_HEADERS = new Set(['set-cookie', 'cookie', 'authorization', 'proxy-authorization', 'www-authenticate']);
+
+/** Session and token headers by name (x-session-id, x-csrf-token, x-auth-token...) */
+const SECRET_HEADER_PATTERN = /session|token|csrf|xsrf|auth/i;
+
+/** Statuses whose responses cannot carry a body */
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+export function getFixtureBundlePath(fixturesDir: string, username: string): string {
+  return join(fixturesDir, `${username}.har.json`);
+}
+
+/**
+ * Whether a response is media (recorded as headers only)
+ */
+export function isMediaResponse(url: string, contentType: string): boolean {
+  const type = contentType.toLowerCase();
+  if (type.startsWith('image/') || type.startsWith('video/') || type.startsWith('audio/')) {
+    return true;
+  }
+  return type.includes('octet-stream') && /\.(jpe?g|png|webp|gif|mp4)(\?|$)/i.test(url);
+}
+
+function isSecretHeader(name: string): boolean {
+  return SECRET_HEADERS.has(name.toLowerCase()) || SECRET_HEADER_PATTERN.test(name);
+}
+
+function isTextType(contentType: string): boolean {
+  return /^text\/|json|javascript|xml|mpegurl/i.test(contentType);
+}
+
+function createEntry(
+  method: string,
+  url: string,
+  status: number,
+  headers: Record<string, string>,
+  body?: Buffer
+): FixtureEntry {
+  const mimeType = headers['content-type'] ?? '';
+  const content: FixtureEntry['response']['content'] = {
+    mimeType,
+    size: body?.length ?? Number(headers['content-length'] ?? -1),
+  };
+  if (body && isTextType(mimeType)) {
+    content.text = body.toString('utf-8');
+  } else if (body) {
+    content.text = body.toString('base64');
+    content.encoding = 'base64';
+  }
+
+  return {
+    startedDateTime: new Date().toISOString(),
+    request: { method, url },
+    response: {
+      status,
+      headers: Object.entries(headers)
+        .filter(([name]) => !isSecretHeader(name))
+        .map(([name, value]) => ({ name, value })),
+      content,
+    },
+  };
+}
+
+function requestUrl(input: Parameters<typeof fetch>[0]): string {
+  return input instanceof Request ? input.url : String(input);
+}
+
+function requestMethod(input: Parameters<typeof fetch>[0], init?: RequestInit): string {
+  return (init?.method ?? (input instanceof Request ? input.method : 'GET')).toUpperCase();
+}
+
+export function createFixtureRecorder(): FixtureRecorder {
+  const logger = getLogger();
+  // In arrival order; page bodies are still being read when the next response comes in
+  const entries: Promise<FixtureEntry | null>[] = [];
+
+  const recordPageResponse = async (response: PageResponse): Promise<FixtureEntry | null> => {
+    const url = response.url();
+    if (url.startsWith('data:') || url.startsWith('blob:')) return null;
+
+    const headers = response.headers();
+    const status = response.status();
+    let body: Buffer | undefined;
+    if (!isMediaResponse(url, headers['content-type'] ?? '') && (status < 300 || status >= 400)) {
+      try {
+        body = await response.body();
+      } catch (error) {
+        logger.debug(`Fixture recorder could not read ${url}: ${(error as Error).message}`);
+      }
+    }
+    return createEntry(response.request().method(), url, status, headers, body);
+  };
+
+  return {
+    attach: (page) => {
+      const listener = (response: PageResponse) => {
+        entries.push(recordPageResponse(response));
+      };
+      page.on('response', listener);
+      return () => {
+        page.off('response', listener);
+      };
+    },
+
+    fetch: async (input, init) => {
+      const response = await fetch(input, init);
+      const url = requestUrl(input);
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, name) => {
+        headers[name] = value;
+      });
+      const body = isMediaResponse(url, headers['content-type'] ?? '')
+        ? undefined
+        : Buffer.from(await response.clone().arrayBuffer());
+      entries.push(Promise.resolve(createEntry(requestMethod(input, init), url, response.status, headers, body)));
+      return response;
+    },
+
+    finish: async () => ({
+      log: {
+        version: '1.2',
+        creator: { name: 'vsco-profile-backup-cli', version: '0.1.0' },
+        entries: (await Promise.all(entries)).filter((entry): entry is FixtureEntry => entry !== null),
+      },
+    }),
+  };
+}
+
+/**
+ * Write a bundle atomically
+ */
+export async function writeFixtureBundle(bundlePath: string, bundle: FixtureBundle): Promise<void> {
+  const tempPath = `${bundlePath}.tmp`;
+  await mkdir(dirname(bundlePath), { recursive: true });
+  await writeFile(tempPath, JSON.stringify(bundle, null, 2), 'utf-8');
+  await rename(tempPath, bundlePath);
+}
+
+function isValidFixtureEntry(value: unknown): value is FixtureEntry {
+  if (!value || typeof value !== 'object') return false;
+
+  const { request, response } = value as Record<string, Record<string, unknown> | undefined>;
+  return (
+    typeof request?.method === 'string' &&
+    typeof request?.url === 'string' &&
+    typeof response?.status === 'number' &&
+    Array.isArray(response?.headers) &&
+    Boolean(response?.content) &&
+    typeof response?.content === 'object'
+  );
+}
+
+/**
+ * Read a bundle written by a recording run
+ * @throws InvalidInputError if it is missing or malformed
+ */
+export async function readFixtureBundle(bundlePath: string): Promise<FixtureBundle> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await readFile(bundlePath, 'utf-8'));
+  } catch (error) {
+    const reason = (error as NodeJS.ErrnoException).code === 'ENOENT' ? 'File not found' : 'Not valid JSON';
+    throw InvalidInputError.fromFixtureBundle(bundlePath, reason);
+  }
+
+  const entries = (parsed as FixtureBundle | null)?.log?.entries;
+  if (!Array.isArray(entries)) {
+    throw InvalidInputError.fromFixtureBundle(bundlePath, 'Expected a HAR-style object with log.entries');
+  }
+  const invalid = entries.findIndex((entry) => !isValidFixtureEntry(entry));
+  if (invalid !== -1) {
+    throw InvalidInputError.fromFixtureBundle(bundlePath, `Entry ${invalid} has no request method/URL or response`);
+  }
+
+  return parsed as FixtureBundle;
+}
+
+/**
+ * Small valid file of a media type, standing in for a body that was not recorded
+ */
+export function createPlaceholderMedia(mimeType: string): { body: Buffer; contentType: string } {
+  if (mimeType.startsWith('video/')) {
+    // ftyp + empty moov: the smallest box layout the integrity check accepts
+    const ftyp = Buffer.alloc(16);
+    ftyp.writeUInt32BE(16, 0);
+    ftyp.write('ftypisom', 4, 'latin1');
+    const moov = Buffer.alloc(8);
+    moov.writeUInt32BE(8, 0);
+    moov.write('moov', 4, 'latin1');
+    return { body: Buffer.concat([ftyp, moov]), contentType: 'video/mp4' };
+  }
+
+  const pixels = Buffer.alloc(PLACEHOLDER_SIZE * PLACEHOLDER_SIZE * 4, 0x80);
+  if (mimeType === 'image/png') {
+    const png = new PNG({ width: PLACEHOLDER_SIZE, height: PLACEHOLDER_SIZE });
+    pixels.copy(png.data);
+    return { body: PNG.sync.write(png), contentType: 'image/png' };
+  }
+
+  const encoded = jpeg.encode({ data: pixels, width: PLACEHOLDER_SIZE, height: PLACEHOLDER_SIZE }, 80);
+  return { body: Buffer.from(encoded.data), contentType: 'image/jpeg' };
+}
+
+function withoutQuery(url: string): string {
+  const index = url.indexOf('?');
+  return index === -1 ? url : url.slice(0, index);
+}
+
+interface ReplayedResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: Buffer;
+}
+
+/**
+ * Turn a recorded entry back into a response, with a placeholder body for media
+ */
+export function replayEntry(entry: FixtureEntry): ReplayedResponse {
+  const headers: Record<string, string> = {};
+  for (const { name, value } of entry.response.headers) {
+    if (!HOP_HEADERS.has(name.toLowerCase())) {
+      headers[name.toLowerCase()] = value;
+    }
+  }
+
+  const { content } = entry.response;
+  if (content.text !== undefined) {
+    return {
+      status: entry.response.status,
+      headers,
+      body: Buffer.from(content.text, content.encoding === 'base64' ? 'base64' : 'utf-8'),
+    };
+  }
+  if (isMediaResponse(entry.request.url, content.mimeType) && entry.response.status < 300) {
+    const placeholder = createPlaceholderMedia(content.mimeType);
+    return {
+      status: entry.response.status,
+      headers: { ...headers, 'content-type': placeholder.contentType },
+      body: placeholder.body,
+    };
+  }
+
+  return { status: entry.response.status, headers, body: Buffer.alloc(0) };
+}
+
+export function createFixtureReplay(bundle: FixtureBundle): FixtureReplay {
+  const logger = getLogger();
+  const exact = new Map<string, FixtureEntry[]>();
+  const loose = new Map<string, FixtureEntry[]>();
+  const served = new Map<FixtureEntry[], number>();
+
+  for (const entry of bundle.log.entries) {
+    const method = entry.request.method.toUpperCase();
+    for (const [map, key] of [
+      [exact, `${method} ${entry.request.url}`],
+      [loose, `${method} ${withoutQuery(entry.request.url)}`],
+    ] as const) {
+      map.set(key, [...(map.get(key) ?? []), entry]);
+    }
+  }
+
+  // Repeated requests get the recorded responses in order, then the last one again
+  const lookup = (method: string, url: string): ReplayedResponse | null => {
+    const candidates =
+      exact.get(`${method} ${url}`) ?? loose.get(`${method} ${withoutQuery(url)}`);
+    if (!candidates) {
+      logger.debug(`Not in fixture bundle: ${method} ${url}`);
+      return null;
+    }
+    const index = served.get(candidates) ?? 0;
+    served.set(candidates, index + 1);
+    return replayEntry(candidates[Math.min(index, candidates.length - 1)]);
+  };
+
+  return {
+    attach: async (page) => {
+      const handler = async (route: Route) => {
+        const request = route.request();
+        const replayed = lookup(request.method().toUpperCase(), request.url());
+        await route.fulfill(
+          replayed
+            ? { status: replayed.status, headers: replayed.headers, body: replayed.body }
+            : { status: NOT_RECORDED_STATUS, contentType: 'text/plain', body: 'Not recorded in fixture bundle' }
+        );
+      };
+      await page.route('**/*', handler);
+      return async () => {
+        await page.unroute('**/*', handler);
+      };
+    },
+
+    fetch: async (input, init) => {
+      const replayed = lookup(requestMethod(input, init), requestUrl(input));
+      if (!replayed) {
+        return new Response('Not recorded in fixture bundle', { status: NOT_RECORDED_STATUS });
+      }
+      const body = NULL_BODY_STATUSES.has(replayed.status) ? null : new Uint8Array(replayed.body);
+      return new Response(body, { status: replayed.status, headers: replayed.headers });
+    },
+  };
+}
@@ -0,0 +1,132 @@
+/**
+ * Tests for the local mock VSCO server and the download path against it
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtemp, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { MOCK_MEDIA_API_PATH, startMockVscoServer } from './mock-vsco-server.js';
+import type { MockPhoto, MockVscoServer } from './mock-vsco-server.js';
+import { getNextPageUrl, parseMediaListResponse } from '../vsco/api.js';
+import { findSiteIdentity } from '../vsco/identity.js';
+import { downloadAssets } from '../download/downloader.js';
+import { createHostRateLimiter } from '../utils/ratelimit.js';
+import { isCloudflareBlocked } from '../utils/cloudflare-block.js';
+import { checkRobotsPolicy } from '../utils/robots.js';
+
+const photos: MockPhoto[] = Array.from({ length: 5 }, (_, i) => ({ id: `photo${i}`, caption: `Photo ${i}` }));
+
+describe('startMockVscoServer', () => {
+  let server: MockVscoServer;
+
+  beforeEach(async () => {
+    server = await startMockVscoServer({
+      profiles: [
+        {
+          username: 'foo',
+          displayName: 'Foo <Bar>',
+          bio: 'Hello',
+          avatar: true,
+          photos,
+          galleries: [{ slug: 'travel', name: 'Travel', photoIds: ['photo1'] }],
+          journal: [{ slug: 'hello', title: 'Hello', publishedAt: '2024-01-01T00:00:00.000Z', html: '<p>Hi</p>' }],
+        },
+        { username: 'hidden', private: true },
+      ],
+      pageSize: 2,
+      robotsTxt: 'User-agent: *\nDisallow: /hidden\n',
+    });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('should page the media list by cursor, with absolute CDN URLs', async () => {
+    const pages = [];
+    let nextUrl: string | null = `${server.url}${MOCK_MEDIA_API_PATH}?site_id=1&limit=2`;
+    while (nextUrl) {
+      const data = await (await fetch(nextUrl)).json();
+      const listPage = parseMediaListResponse(data);
+      pages.push(listPage?.photos.map((photo) => photo.id));
+      if (pages.length === 1) {
+        expect(listPage?.photos[0]).toMatchObject({ imageUrl: `${server.url}/i/photo0.jpg`, caption: 'Photo 0' });
+      }
+      nextUrl = listPage && getNextPageUrl(nextUrl, listPage);
+    }
+
+    expect(pages).toEqual([['photo0', 'photo1'], ['photo2', 'photo3'], ['photo4']]);
+  });
+
+  it('should serve profile, gallery and journal pages, 404s and private profiles', async () => {
+    expect(await (await fetch(`${server.url}/foo/gallery`)).text()).toContain('href="/foo/gallery/travel"');
+    expect(await (await fetch(`${server.url}/foo/gallery/travel`)).text()).toContain('data-photo-id="photo1"');
+    expect(await (await fetch(`${server.url}/foo/journal/hello`)).text()).toContain('<article><h1>Hello</h1>');
+
+    const missing = await fetch(`${server.url}/nobody/gallery`);
+    expect(missing.status).toBe(404);
+    expect(await missing.text()).toContain('Page not found');
+    expect(await (await fetch(`${server.url}/hidden/gallery`)).text()).toContain('This profile is private');
+
+    expect((await checkRobotsPolicy('foo', fetch, server.url)).allowed).toBe(true);
+    expect((await checkRobotsPolicy('hidden', fetch, server.url)).allowed).toBe(false);
+  });
+
+  it('should embed the site object in the profile page state', async () => {
+    const body = await (await fetch(`${server.url}/foo/gallery`)).text();
+    const state = JSON.parse(body.match(/__PRELOADED_STATE__ = (.*?);<\/script>/)![1]);
+
+    expect(findSiteIdentity(state, 'foo')).toEqual({
+      siteId: '1',
+      userId: '1001',
+      displayName: 'Foo <Bar>',
+      bio: 'Hello',
+      avatarUrl: `${server.url}/i/avatar-foo.jpg`,
+      links: undefined,
+    });
+    expect((await fetch(`${server.url}/i/avatar-foo.jpg`)).headers.get('content-type')).toBe('image/jpeg');
+  });
+
+  it('should throttle and serve Cloudflare challenges until a fault is used up', async () => {
+    server.addFault({ path: '/foo/gallery', kind: 'cloudflare', times: 1 });
+    server.addFault({ path: /^\/i\//, kind: 'throttle', times: 1, retryAfter: 7 });
+
+    expect(await isCloudflareBlocked(await fetch(`${server.url}/foo/gallery`))).toBe(true);
+    expect(await isCloudflareBlocked(await fetch(`${server.url}/foo/gallery`))).toBe(false);
+
+    const throttled = await fetch(`${server.url}/i/photo0.jpg`);
+    expect(throttled.status).toBe(429);
+    expect(throttled.headers.get('retry-after')).toBe('7');
+    expect((await fetch(`${server.url}/i/photo0.jpg`)).headers.get('content-type')).toBe('image/jpeg');
+    expect(server.requests).toHaveLength(4);
+  });
+
+  it('should retry throttled and truncated downloads and fail on a Cloudflare block', async () => {
+    const backupRoot = await mkdtemp(join(tmpdir(), 'vsco-mock-'));
+    server.addFault({ path: '/i/photo0.jpg', kind: 'throttle', times: 1 });
+    server.addFault({ path: '/i/photo1.jpg', kind: 'truncate', times: 1 });
+    server.addFault({ path: '/i/photo2.jpg', kind: 'cloudflare', status: 200 });
+
+    try {
+      const { results, stats } = await downloadAssets(
+        ['photo0', 'photo1', 'photo2'].map((id) => ({
+          url: `${server.url}/i/${id}.jpg`,
+          backupRoot,
+          mediaId: id,
+          contentType: 'image/jpeg',
+        })),
+        { rateLimiter: createHostRateLimiter({ requestsPerSecond: 50, burst: 5 }), concurrency: 3 }
+      );
+
+      expect(results.map((r) => r.success)).toEqual([true, true, false]);
+      expect(results[2].nodeAttempt?.snippetMarker).toBeDefined();
+      expect(stats.failed).toBe(1);
+      expect(server.requests.filter((path) => path === '/i/photo0.jpg')).toHaveLength(2);
+      expect(server.requests.filter((path) => path === '/i/photo1.jpg')).toHaveLength(2);
+      expect(server.requests.filter((path) => path === '/i/photo2.jpg')).toHaveLength(1);
+    } finally {
+      await rm(backupRoot, { recursive: true, force: true });
+    }
+  }, 30000);
+});
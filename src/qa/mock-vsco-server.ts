@@ -0,0 +1,442 @@
+/**
+ * Local stand-in for vsco.co, so the whole backup pipeline can run end to end without network
+ * - Profile grid with infinite scroll (VSCO's cursor-paged media list API, which the page script
+ *   calls as it nears the bottom)
+ * - Gallery, journal and media permalink pages shaped like the ones discovery scrapes
+ * - Image CDN serving small valid placeholder files of the requested type
+ * - 404 and private profiles, plus injectable faults: Cloudflare challenge pages,
+ *   429 throttling with Retry-After, truncated bodies and plain HTTP errors
+ * Point a run at it with orchestrateBackup(..., { baseUrl: server.url }) or --base-url
+ */
+
+import { createServer } from 'http';
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { createPlaceholderMedia } from './fixtures.js';
+
+export interface MockPhoto {
+  /** Alphanumeric media ID, as in /<username>/media/<id> */
+  id: string;
+  caption?: string;
+  /** ISO 8601 upload time */
+  uploadedAt?: string;
+  /** @default 'image' */
+  mediaType?: 'image' | 'video';
+}
+
+export interface MockGallery {
+  /** URL segment, as in /<username>/gallery/<slug> */
+  slug: string;
+  name: string;
+  description?: string;
+  photoIds: string[];
+}
+
+export interface MockJournalPost {
+  /** URL segment, as in /<username>/journal/<slug> */
+  slug: string;
+  title: string;
+  /** ISO 8601 publish time */
+  publishedAt: string;
+  /** Post body; images may use root-relative CDN paths such as /i/cover.jpg */
+  html: string;
+}
+
+export interface MockProfile {
+  username: string;
+  /** Private profiles render the "This profile is private" state instead of a grid */
+  private?: boolean;
+  /** Newest first, as VSCO lists them */
+  photos?: MockPhoto[];
+  galleries?: MockGallery[];
+  journal?: MockJournalPost[];
+  /** Identity, embedded in the page's preloaded state like VSCO's site object */
+  displayName?: string;
+  bio?: string;
+  /** Serve a profile picture at /i/avatar-<username>.jpg */
+  avatar?: boolean;
+  links?: string[];
+}
+
+export type MockFaultKind = 'cloudflare' | 'throttle' | 'truncate' | 'error';
+
+export interface MockFault {
+  /** Request path (without query string) the fault applies to, exactly or by pattern */
+  path: string | RegExp;
+  /**
+   * - cloudflare: challenge page with Cloudflare markers (status 403 unless `status` is given)
+   * - throttle: 429 with Retry-After
+   * - truncate: the normal response with its body cut in half
+   * - error: empty response with `status` (default 500)
+   */
+  kind: MockFaultKind;
+  /** Number of matching requests that fail before the path recovers (default: all of them) */
+  times?: number;
+  /** Retry-After in seconds for throttle faults (default 0) */
+  retryAfter?: number;
+  status?: number;
+}
+
+export interface MockVscoServerOptions {
+  profiles: MockProfile[];
+  /** Photos per infinite-scroll page (default 12) */
+  pageSize?: number;
+  faults?: MockFault[];
+  /** robots.txt body (default allows everything) */
+  robotsTxt?: string;
+  /** Port to listen on (default: any free port) */
+  port?: number;
+}
+
+export interface MockVscoServer {
+  /** Origin to use as the base URL, e.g. http://127.0.0.1:54321 */
+  url: string;
+  /** Every request path (with query string) served so far, in order */
+  requests: string[];
+  /** Inject a fault into a running server */
+  addFault: (fault: MockFault) => void;
+  /** Replace a profile (or add one), e.g. to post new photos between runs */
+  setProfile: (profile: MockProfile) => void;
+  close: () => Promise<void>;
+}
+
+/** Photos per infinite-scroll page unless configured */
+const DEFAULT_PAGE_SIZE = 12;
+
+/** Path of the cursor-paged media list the profile grid script calls */
+export const MOCK_MEDIA_API_PATH = '/api/3.0/medias/profile';
+
+const CLOUDFLARE_PAGE =
+  '<!DOCTYPE html><html><head><title>Attention Required! | Cloudflare</title></head>' +
+  '<body><h1>Sorry, you have been blocked</h1><p>Cloudflare Ray ID: mock</p></body></html>';
+
+const NOT_FOUND_PAGE = '<!DOCTYPE html><html><body><h1>Page not found</h1></body></html>';
+
+const CONTENT_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  png: 'image/png',
+  mp4: 'video/mp4',
+};
+
+interface ServedResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: Buffer;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function html(body: string, status: number = 200): ServedResponse {
+  return { status, headers: { 'content-type': 'text/html; charset=utf-8' }, body: Buffer.from(body) };
+}
+
+function json(data: unknown): ServedResponse {
+  return { status: 200, headers: { 'content-type': 'application/json' }, body: Buffer.from(JSON.stringify(data)) };
+}
+
+function page(title: string, content: string, head: string = ''): string {
+  return (
+    `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title>${head}` +
+    '<style>.tile{display:block;height:300px}.tile img{height:280px}</style></head>' +
+    `<body>${content}</body></html>`
+  );
+}
+
+function imagePath(photo: MockPhoto): string {
+  return `/i/${photo.id}.jpg`;
+}
+
+/** Media list entry in VSCO's 3.0 API shape, with absolute CDN URLs */
+function toMediaEntry(origin: string, username: string, siteId: number, photo: MockPhoto): Record<string, unknown> {
+  const type = photo.mediaType ?? 'image';
+  return {
+    type,
+    [type]: {
+      _id: photo.id,
+      site_id: siteId,
+      permalink: `/${username}/media/${photo.id}`,
+      responsive_url: origin + imagePath(photo),
+      description: photo.caption,
+      upload_date: photo.uploadedAt ? Date.parse(photo.uploadedAt) : undefined,
+      ...(type === 'video' && { is_video: true, video_url: `${origin}/v/${photo.id}.mp4` }),
+    },
+  };
+}
+
+/** Opaque cursor for the media list page starting at `offset` */
+function encodeCursor(offset: number): string {
+  return Buffer.from(`offset:${offset}`).toString('base64');
+}
+
+function decodeCursor(cursor: string | null): number {
+  const match = cursor ? Buffer.from(cursor, 'base64').toString().match(/^offset:(\d+)$/) : null;
+  return match ? Number(match[1]) : 0;
+}
+
+/**
+ * Infinite scroll: load the first page right away, then the next one whenever the
+ * viewport is near the bottom; a failed request is retried on the next tick
+ */
+function gridScript(siteId: number, pageSize: number): string {
+  return `<script>
+(() => {
+  const grid = document.getElementById('grid');
+  let cursor = '';
+  let loading = false;
+  async function loadMore() {
+    if (loading || cursor === null) return;
+    if (cursor && innerHeight + scrollY < document.body.scrollHeight - 100) return;
+    loading = true;
+    try {
+      const query = 'site_id=${siteId}&limit=${pageSize}' + (cursor ? '&cursor=' + encodeURIComponent(cursor) : '');
+      const response = await fetch('${MOCK_MEDIA_API_PATH}?' + query);
+      if (response.ok) {
+        const body = await response.json();
+        for (const entry of body.media) {
+          const media = entry[entry.type];
+          const tile = document.createElement('a');
+          tile.className = 'tile';
+          tile.href = media.permalink;
+          tile.dataset.id = media._id;
+          const img = document.createElement('img');
+          img.src = media.responsive_url;
+          tile.appendChild(img);
+          grid.appendChild(tile);
+        }
+        cursor = body.next_cursor || null;
+      }
+    } catch {}
+    loading = false;
+  }
+  loadMore();
+  setInterval(loadMore, 200);
+})();
+</script>`;
+}
+
+/**
+ * The profile's site object as VSCO embeds it in window.__PRELOADED_STATE__, plus Open Graph tags
+ */
+function siteHead(origin: string, profile: MockProfile, siteId: number): string {
+  const site = {
+    id: siteId,
+    user_id: 1000 + siteId,
+    subdomain: profile.username,
+    name: profile.displayName ?? profile.username,
+    description: profile.bio ?? '',
+    profile_image: profile.avatar ? `${origin}/i/avatar-${profile.username}.jpg` : undefined,
+    links: profile.links,
+  };
+  const state = JSON.stringify({ entities: { sites: { [siteId]: site } } }).replace(/</g, '\\u003c');
+
+  return (
+    `<meta property="og:title" content="${escapeHtml(site.name)} | VSCO">` +
+    (site.profile_image ? `<meta property="og:image" content="${site.profile_image}">` : '') +
+    `<script>window.__PRELOADED_STATE__ = ${state};</script>`
+  );
+}
+
+function renderProfile(profile: MockProfile, siteId: number, pageSize: number, origin: string): ServedResponse {
+  const { username } = profile;
+  if (profile.private) {
+    return html(page(username, '<div data-test="private-profile"><h1>This profile is private</h1></div>'));
+  }
+
+  const galleries = (profile.galleries ?? [])
+    .map(
+      (gallery) =>
+        `<a class="gallery-item" href="/${username}/gallery/${gallery.slug}"><h3>${escapeHtml(gallery.name)}</h3></a>`
+    )
+    .join('');
+  const grid = (profile.photos ?? []).length > 0 ? '<div id="grid"></div>' + gridScript(siteId, pageSize) : '<p>No images yet</p>';
+
+  return html(page(username, `<nav>${galleries}</nav>${grid}`, siteHead(origin, profile, siteId)));
+}
+
+function renderGallery(profile: MockProfile, gallery: MockGallery): ServedResponse {
+  const tiles = gallery.photoIds
+    .map((id) => `<a class="tile" href="/${profile.username}/media/${id}" data-photo-id="${id}"></a>`)
+    .join('');
+  const description = gallery.description
+    ? `<p class="gallery-description">${escapeHtml(gallery.description)}</p>`
+    : '';
+
+  return html(page(gallery.name, `<h1>${escapeHtml(gallery.name)}</h1>${description}${tiles}`));
+}
+
+function renderJournal(profile: MockProfile): ServedResponse {
+  const entries = (profile.journal ?? [])
+    .map(
+      (post) =>
+        `<article><a href="/${profile.username}/journal/${post.slug}"><h2>${escapeHtml(post.title)}</h2></a>` +
+        `<time datetime="${post.publishedAt}"></time></article>`
+    )
+    .join('');
+
+  return html(page(`${profile.username} journal`, entries));
+}
+
+function renderJournalPost(post: MockJournalPost): ServedResponse {
+  return html(
+    page(
+      post.title,
+      `<article><h1>${escapeHtml(post.title)}</h1><time datetime="${post.publishedAt}"></time>` +
+        `<div class="content">${post.html}</div></article>`
+    )
+  );
+}
+
+function renderMediaPage(photo: MockPhoto): ServedResponse {
+  return html(page(photo.id, `<img src="${imagePath(photo)}" alt="${escapeHtml(photo.caption ?? '')}">`));
+}
+
+function serveMedia(filename: string): ServedResponse | null {
+  const contentType = CONTENT_TYPES[filename.split('.').pop() ?? ''];
+  if (!contentType) return null;
+
+  const media = createPlaceholderMedia(contentType);
+  return { status: 200, headers: { 'content-type': media.contentType }, body: media.body };
+}
+
+function faultResponse(fault: MockFault): ServedResponse | null {
+  switch (fault.kind) {
+    case 'cloudflare':
+      return {
+        status: fault.status ?? 403,
+        headers: { 'content-type': 'text/html; charset=UTF-8', 'cf-ray': 'mock' },
+        body: Buffer.from(CLOUDFLARE_PAGE),
+      };
+    case 'throttle':
+      return {
+        status: 429,
+        headers: { 'content-type': 'text/plain', 'retry-after': String(fault.retryAfter ?? 0) },
+        body: Buffer.from('Too Many Requests'),
+      };
+    case 'error':
+      return { status: fault.status ?? 500, headers: { 'content-type': 'text/plain' }, body: Buffer.alloc(0) };
+    case 'truncate':
+      // Applied to the normal response once it is built
+      return null;
+  }
+}
+
+function matchesPath(fault: MockFault, pathname: string): boolean {
+  return typeof fault.path === 'string' ? fault.path === pathname : fault.path.test(pathname);
+}
+
+/**
+ * Start a mock VSCO server on 127.0.0.1
+ *
+ * @param options - Profiles to serve, paging and faults
+ * @returns Running server; call close() when done
+ */
+export async function startMockVscoServer(options: MockVscoServerOptions): Promise<MockVscoServer> {
+  const profiles = new Map(options.profiles.map((profile) => [profile.username, profile]));
+  // Numeric site IDs, as the media list API addresses profiles
+  const siteIds = new Map(options.profiles.map((profile, i) => [profile.username, i + 1]));
+  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  const robotsTxt = options.robotsTxt ?? 'User-agent: *\nAllow: /\n';
+  // Remaining failures per fault; undefined means the fault never clears
+  const faults: Array<{ fault: MockFault; remaining?: number }> = [];
+  const requests: string[] = [];
+
+  const addFault = (fault: MockFault) => {
+    faults.push({ fault, remaining: fault.times });
+  };
+  (options.faults ?? []).forEach(addFault);
+
+  function route(url: URL, origin: string): ServedResponse {
+    const segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+    if (url.pathname === '/robots.txt') {
+      return { status: 200, headers: { 'content-type': 'text/plain' }, body: Buffer.from(robotsTxt) };
+    }
+
+    if (url.pathname === MOCK_MEDIA_API_PATH) {
+      const siteId = Number(url.searchParams.get('site_id'));
+      const profile = Array.from(profiles.values()).find((p) => siteIds.get(p.username) === siteId);
+      if (!profile || profile.private) return html(NOT_FOUND_PAGE, 404);
+
+      const photos = profile.photos ?? [];
+      const limit = Number(url.searchParams.get('limit')) || pageSize;
+      const start = decodeCursor(url.searchParams.get('cursor'));
+      return json({
+        media: photos.slice(start, start + limit).map((photo) => toMediaEntry(origin, profile.username, siteId, photo)),
+        ...(start + limit < photos.length && { next_cursor: encodeCursor(start + limit) }),
+      });
+    }
+
+    if ((segments[0] === 'i' || segments[0] === 'v') && segments.length === 2) {
+      return serveMedia(segments[1]) ?? html(NOT_FOUND_PAGE, 404);
+    }
+
+    const profile = profiles.get(segments[0] ?? '');
+    if (!profile) return html(NOT_FOUND_PAGE, 404);
+
+    const [, section, item] = segments;
+    if (section === undefined || (section === 'gallery' && item === undefined)) {
+      return renderProfile(profile, siteIds.get(profile.username) ?? 0, pageSize, origin);
+    }
+    if (profile.private) return html(NOT_FOUND_PAGE, 404);
+
+    if (section === 'gallery') {
+      const gallery = profile.galleries?.find((g) => g.slug === item);
+      if (gallery) return renderGallery(profile, gallery);
+    } else if (section === 'journal') {
+      if (item === undefined) return renderJournal(profile);
+      const post = profile.journal?.find((p) => p.slug === item);
+      if (post) return renderJournalPost(post);
+    } else if (section === 'media') {
+      const photo = profile.photos?.find((p) => p.id === item);
+      if (photo) return renderMediaPage(photo);
+    }
+
+    return html(NOT_FOUND_PAGE, 404);
+  }
+
+  function handle(request: IncomingMessage, response: ServerResponse): void {
+    const origin = `http://${request.headers.host ?? '127.0.0.1'}`;
+    const url = new URL(request.url ?? '/', origin);
+    requests.push(url.pathname + url.search);
+
+    const active = faults.find(({ fault, remaining }) => matchesPath(fault, url.pathname) && remaining !== 0);
+    if (active && active.remaining !== undefined) {
+      active.remaining -= 1;
+    }
+
+    const served = (active && faultResponse(active.fault)) ?? route(url, origin);
+    const body =
+      active?.fault.kind === 'truncate' ? served.body.subarray(0, Math.floor(served.body.length / 2)) : served.body;
+
+    response.writeHead(served.status, { ...served.headers, 'content-length': String(body.length) });
+    response.end(request.method === 'HEAD' ? undefined : body);
+  }
+
+  const server = createServer(handle);
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, '127.0.0.1', () => resolve());
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    addFault,
+    setProfile: (profile) => {
+      profiles.set(profile.username, profile);
+      if (!siteIds.has(profile.username)) siteIds.set(profile.username, siteIds.size + 1);
+    },
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections();
+        server.close((error) => (error ? reject(error) : resolve()));
+      }),
+  };
+}
@@ -0,0 +1,61 @@
+/**
+ * Tests for archive ordering, pagination and date grouping
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { sortPhotos, paginate, groupByUploadMonth, formatMonth } from './archive.js';
+import type { Photo } from '../manifest/types.js';
+
+function photo(id: string, dates: Partial<Pick<Photo, 'uploaded_at' | 'captured_at'>> = {}): Photo {
+  return { id, url_highres: `https://im.vsco.co/${id}.jpg`, downloaded_at: '2026-01-01T00:00:00.000Z', ...dates };
+}
+
+describe('sortPhotos', () => {
+  it('should order by capture time, then upload time, then download time', () => {
+    const photos = [
+      photo('downloaded-only'),
+      photo('uploaded', { uploaded_at: '2024-05-01T00:00:00Z' }),
+      photo('captured', { captured_at: '2022-01-01T00:00:00Z', uploaded_at: '2025-01-01T00:00:00Z' }),
+    ];
+
+    expect(sortPhotos(photos).map((p) => p.id)).toEqual(['downloaded-only', 'uploaded', 'captured']);
+  });
+});
+
+describe('paginate', () => {
+  it('should split items into numbered pages', () => {
+    const pages = paginate([1, 2, 3, 4, 5], 2);
+
+    expect(pages.map((page) => page.items)).toEqual([[1, 2], [3, 4], [5]]);
+    expect(pages.map((page) => `${page.number}/${page.total}`)).toEqual(['1/3', '2/3', '3/3']);
+  });
+
+  it('should return a single empty page for no items', () => {
+    expect(paginate([], 10)).toEqual([{ number: 1, total: 1, items: [] }]);
+  });
+});
+
+describe('groupByUploadMonth', () => {
+  it('should group by upload year and month, newest first', () => {
+    const groups = groupByUploadMonth([
+      photo('a', { uploaded_at: '2024-06-20T00:00:00Z' }),
+      photo('b', { uploaded_at: '2023-12-31T23:00:00Z' }),
+      photo('c', { uploaded_at: '2024-01-02T00:00:00Z' }),
+      photo('d', { uploaded_at: '2024-06-01T00:00:00Z', captured_at: '2019-01-01T00:00:00Z' }),
+    ]);
+
+    expect(groups.map((group) => group.year)).toEqual([2024, 2023]);
+    expect(groups[0].months.map((month) => [month.month, month.photos.map((p) => p.id)])).toEqual([
+      [6, ['a', 'd']],
+      [1, ['c']],
+    ]);
+    expect(groups[1].photos.map((p) => p.id)).toEqual(['b']);
+  });
+});
+
+describe('formatMonth', () => {
+  it('should name months', () => {
+    expect(formatMonth(1)).toBe('January');
+    expect(formatMonth(12)).toBe('December');
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Photo ordering, pagination and date grouping for the archive pages
+ * Kept free of file I/O so the page structure can be tested on its own
+ */
+
+import type { Photo } from '../manifest/types.js';
+
+/** Photos per archive page unless --page-size says otherwise */
+export const DEFAULT_PAGE_SIZE = 48;
+
+export interface ArchivePage<T> {
+  /** 1-based page number */
+  number: number;
+  total: number;
+  items: T[];
+}
+
+export interface MonthGroup {
+  year: number;
+  /** 1-12 */
+  month: number;
+  photos: Photo[];
+}
+
+export interface YearGroup {
+  year: number;
+  photos: Photo[];
+  /** Months with photos, newest first */
+  months: MonthGroup[];
+}
+
+function toTime(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * When a photo was taken, else posted, else backed up (older entries have only the last)
+ */
+export function getPhotoTime(photo: Photo): number {
+  return toTime(photo.captured_at) ?? toTime(photo.uploaded_at) ?? toTime(photo.downloaded_at) ?? 0;
+}
+
+/**
+ * When a photo was posted, falling back like getPhotoTime; the archive groups by this
+ */
+export function getUploadTime(photo: Photo): number {
+  return toTime(photo.uploaded_at) ?? toTime(photo.captured_at) ?? toTime(photo.downloaded_at) ?? 0;
+}
+
+/**
+ * Photos newest first by capture/upload time
+ */
+export function sortPhotos(photos: Photo[]): Photo[] {
+  return [...photos].sort((a, b) => getPhotoTime(b) - getPhotoTime(a));
+}
+
+/**
+ * Split items into pages; an empty list still yields one (empty) page
+ */
+export function paginate<T>(items: T[], pageSize: number): ArchivePage<T>[] {
+  const size = Math.max(1, Math.floor(pageSize));
+  const total = Math.max(1, Math.ceil(items.length / size));
+
+  return Array.from({ length: total }, (_, i) => ({
+    number: i + 1,
+    total,
+    items: items.slice(i * size, (i + 1) * size),
+  }));
+}
+
+/**
+ * Group photos by upload year and month (UTC), newest first
+ * Photos keep their relative order within each group
+ */
+export function groupByUploadMonth(photos: Photo[]): YearGroup[] {
+  const years = new Map<number, YearGroup>();
+
+  for (const photo of photos) {
+    const date = new Date(getUploadTime(photo));
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth() + 1;
+
+    let yearGroup = years.get(year);
+    if (!yearGroup) {
+      yearGroup = { year, photos: [], months: [] };
+      years.set(year, yearGroup);
+    }
+    yearGroup.photos.push(photo);
+
+    let monthGroup = yearGroup.months.find((group) => group.month === month);
+    if (!monthGroup) {
+      monthGroup = { year, month, photos: [] };
+      yearGroup.months.push(monthGroup);
+    }
+    monthGroup.photos.push(photo);
+  }
+
+  const groups = [...years.values()].sort((a, b) => b.year - a.year);
+  for (const group of groups) {
+    group.months.sort((a, b) => b.month - a.month);
+  }
+  return groups;
+}
+
+/**
+ * Month name for archive headings, e.g. "June"
+ */
+export function formatMonth(month: number): string {
+  return new Date(Date.UTC(2000, month - 1, 1)).toLocaleString('en-US', { month: 'long', timeZone: 'UTC' });
+}
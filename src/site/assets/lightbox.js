@@ -0,0 +1,97 @@
+/**
+ * Keyboard navigation and full-size lightbox for photo detail pages
+ * Plain script (no modules, no fetch) so it runs from file:// URLs
+ *
+ * ← / →   previous / next photo (follows <link rel="prev|next">)
+ * Enter   open the full-resolution image in an overlay (or click the image)
+ * Esc     close the overlay, or go back to the profile page
+ * Arrow keys pressed with the overlay open keep it open on the next page (#lightbox)
+ */
+(function () {
+  'use strict';
+
+  var overlay = null;
+
+  function linkHref(rel) {
+    var link = document.querySelector('link[rel="' + rel + '"]');
+    return link ? link.getAttribute('href') : null;
+  }
+
+  function openLightbox() {
+    var image = document.querySelector('[data-lightbox-src]');
+    if (!image || overlay) return;
+
+    overlay = document.createElement('div');
+    overlay.className = 'lightbox';
+    overlay.setAttribute('role', 'dialog');
+    overlay.setAttribute('aria-label', 'Full-size photo');
+
+    var full = document.createElement('img');
+    full.src = image.getAttribute('data-lightbox-src');
+    full.alt = image.getAttribute('alt') || '';
+    overlay.appendChild(full);
+
+    overlay.addEventListener('click', closeLightbox);
+    document.body.appendChild(overlay);
+    document.body.classList.add('lightbox-open');
+  }
+
+  function closeLightbox() {
+    if (!overlay) return;
+    overlay.remove();
+    overlay = null;
+    document.body.classList.remove('lightbox-open');
+  }
+
+  document.addEventListener('DOMContentLoaded', function () {
+    var image = document.querySelector('[data-lightbox-src]');
+    if (image) {
+      image.addEventListener('click', function (event) {
+        event.preventDefault();
+        openLightbox();
+      });
+    }
+    if (window.location.hash === '#lightbox') {
+      openLightbox();
+    }
+  });
+
+  document.addEventListener('keydown', function (event) {
+    if (event.altKey || event.ctrlKey || event.metaKey) return;
+
+    var target = event.target;
+    if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')) return;
+
+    var href = null;
+    switch (event.key) {
+      case 'ArrowLeft':
+        href = linkHref('prev');
+        break;
+      case 'ArrowRight':
+        href = linkHref('next');
+        break;
+      case 'Enter':
+        if (!overlay && document.activeElement === document.body) {
+          event.preventDefault();
+          openLightbox();
+        }
+        return;
+      case 'Escape':
+        if (overlay) {
+          closeLightbox();
+        } else {
+          var exit = document.querySelector('[data-lightbox-exit]');
+          href = exit ? exit.getAttribute('href') : null;
+        }
+        break;
+      default:
+        return;
+    }
+
+    if (href) {
+      event.preventDefault();
+      // Keep the overlay open while stepping through photos
+      window.location.href = overlay && event.key !== 'Escape' ? href + '#lightbox' : href;
+    }
+  });
+})();
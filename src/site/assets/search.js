@@ -0,0 +1,112 @@
+/**
+ * Instant filtering for the search page
+ * Plain script (no modules, no fetch) so it runs from file:// URLs; the index
+ * is loaded beforehand by search-index.js as window.VSCO_SEARCH_INDEX
+ *
+ * Every word of the query must occur in an entry; entry text is already
+ * lowercased and stripped of diacritics, so only the query is normalized here.
+ * The query is kept in the URL hash (#q=...) so results survive back/forward.
+ */
+(function () {
+  'use strict';
+
+  var MAX_RESULTS = 200;
+  var TYPE_LABELS = { photo: 'Photo', video: 'Video', gallery: 'Gallery', journal: 'Journal' };
+
+  var entries = window.VSCO_SEARCH_INDEX || [];
+  var input = document.getElementById('search-input');
+  var results = document.getElementById('search-results');
+  var status = document.getElementById('search-status');
+  if (!input || !results) return;
+
+  function normalize(value) {
+    return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+  }
+
+  function search(query) {
+    var terms = normalize(query).split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return [];
+
+    return entries.filter(function (entry) {
+      return terms.every(function (term) {
+        return entry.text.indexOf(term) !== -1;
+      });
+    });
+  }
+
+  function renderEntry(entry) {
+    var item = document.createElement('li');
+    item.className = 'search-result';
+
+    var link = document.createElement('a');
+    link.href = entry.href;
+
+    if (entry.thumb) {
+      var thumb = document.createElement('img');
+      thumb.src = entry.thumb;
+      thumb.alt = '';
+      thumb.loading = 'lazy';
+      link.appendChild(thumb);
+    }
+
+    var body = document.createElement('div');
+    var title = document.createElement('strong');
+    title.textContent = entry.title;
+    body.appendChild(title);
+
+    var meta = document.createElement('span');
+    meta.className = 'meta';
+    meta.textContent = TYPE_LABELS[entry.type] + (entry.date ? ' · ' + new Date(entry.date).toLocaleDateString() : '');
+    body.appendChild(meta);
+
+    if (entry.snippet) {
+      var snippet = document.createElement('p');
+      snippet.textContent = entry.snippet;
+      body.appendChild(snippet);
+    }
+
+    link.appendChild(body);
+    item.appendChild(link);
+    return item;
+  }
+
+  function update() {
+    var query = input.value;
+    var matches = search(query);
+
+    results.textContent = '';
+    matches.slice(0, MAX_RESULTS).forEach(function (entry) {
+      results.appendChild(renderEntry(entry));
+    });
+
+    if (status) {
+      if (!query.trim()) {
+        status.textContent = entries.length + ' entries';
+      } else if (matches.length > MAX_RESULTS) {
+        status.textContent = 'Showing ' + MAX_RESULTS + ' of ' + matches.length + ' results';
+      } else {
+        status.textContent = matches.length + (matches.length === 1 ? ' result' : ' results');
+      }
+    }
+
+    var hash = query.trim() ? '#q=' + encodeURIComponent(query) : '';
+    if (location.hash !== hash) {
+      try {
+        history.replaceState(null, '', hash || location.pathname + location.search);
+      } catch (error) {
+        // Some browsers refuse history changes on file:// pages; the search still works
+      }
+    }
+  }
+
+  function readHash() {
+    var match = /^#q=(.*)$/.exec(location.hash);
+    if (match) {
+      input.value = decodeURIComponent(match[1]);
+    }
+  }
+
+  input.addEventListener('input', update);
+  readHash();
+  update();
+})();
@@ -0,0 +1,131 @@
+/**
+ * Tests for the thumbnail derivative pipeline
+ * Encodes small JPEG/PNG originals in memory with the same pure-JS codecs
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtemp, readdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import jpeg from 'jpeg-js';
+import { PNG } from 'pngjs';
+import { generateDerivatives, readDerivativeIndex, resizeRgba } from './derivatives.js';
+
+function solidRgba(width: number, height: number, rgba: [number, number, number, number]): Uint8Array {
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    data.set(rgba, i);
+  }
+  return data;
+}
+
+function jpegOf(width: number, height: number): Buffer {
+  return jpeg.encode({ width, height, data: solidRgba(width, height, [200, 100, 50, 255]) }, 90).data;
+}
+
+describe('resizeRgba', () => {
+  it('should average the source pixels under each target pixel', () => {
+    const source = {
+      width: 2,
+      height: 1,
+      data: new Uint8Array([0, 0, 0, 255, 200, 100, 50, 255]),
+    };
+
+    expect(Array.from(resizeRgba(source, 1, 1).data)).toEqual([100, 50, 25, 255]);
+  });
+});
+
+describe('generateDerivatives', () => {
+  let backupRoot: string;
+
+  beforeEach(async () => {
+    backupRoot = await mkdtemp(join(tmpdir(), 'vsco-derivatives-'));
+  });
+
+  afterEach(async () => {
+    await rm(backupRoot, { recursive: true, force: true });
+  });
+
+  async function original(name: string, data: Buffer): Promise<string> {
+    const filePath = join(backupRoot, name);
+    await writeFile(filePath, data);
+    return filePath;
+  }
+
+  it('should write each width smaller than the original and record them', async () => {
+    const filePath = await original('a.jpg', jpegOf(800, 400));
+
+    const result = await generateDerivatives(
+      backupRoot,
+      [{ mediaId: 'a', filePath, sha256: 'hash-1', mimeType: 'image/jpeg' }],
+      { widths: [100, 400, 1000] }
+    );
+
+    expect(result.generated).toBe(1);
+    expect(result.index.entries.a.variants).toEqual([
+      { width: 100, height: 50, file: 'a-100.jpg' },
+      { width: 400, height: 200, file: 'a-400.jpg' },
+    ]);
+    const decoded = jpeg.decode(await readFile(join(backupRoot, '.vsco-backup/derivatives/a-100.jpg')));
+    expect([decoded.width, decoded.height]).toEqual([100, 50]);
+  });
+
+  it('should reuse derivatives while the source hash is unchanged and rebuild when it changes', async () => {
+    const filePath = await original('a.jpg', jpegOf(400, 400));
+    const source = { mediaId: 'a', filePath, sha256: 'hash-1', mimeType: 'image/jpeg' };
+    const thumbPath = join(backupRoot, '.vsco-backup/derivatives/a-100.jpg');
+
+    await generateDerivatives(backupRoot, [source], { widths: [100] });
+    const firstWrite = (await stat(thumbPath)).mtimeMs;
+
+    const reused = await generateDerivatives(backupRoot, [source], { widths: [100] });
+    expect(reused).toMatchObject({ generated: 0, reused: 1 });
+    expect((await stat(thumbPath)).mtimeMs).toBe(firstWrite);
+
+    await writeFile(filePath, jpegOf(200, 100));
+    const rebuilt = await generateDerivatives(backupRoot, [{ ...source, sha256: 'hash-2' }], { widths: [100] });
+    expect(rebuilt.generated).toBe(1);
+    expect(rebuilt.index.entries.a.variants[0]).toMatchObject({ width: 100, height: 50 });
+  });
+
+  it('should flatten PNG transparency and skip formats it cannot decode', async () => {
+    const png = new PNG({ width: 200, height: 200 });
+    png.data = Buffer.from(solidRgba(200, 200, [0, 0, 0, 0]));
+    const pngPath = await original('b.png', PNG.sync.write(png));
+    const videoPath = await original('c.mp4', Buffer.from('not an image'));
+
+    const result = await generateDerivatives(
+      backupRoot,
+      [
+        { mediaId: 'b', filePath: pngPath, mimeType: 'image/png' },
+        { mediaId: 'c', filePath: videoPath, mimeType: 'video/mp4' },
+      ],
+      { widths: [50] }
+    );
+
+    expect(result.generated).toBe(1);
+    expect(result.index.entries.c).toBeUndefined();
+    const thumb = jpeg.decode(await readFile(join(backupRoot, '.vsco-backup/derivatives/b-50.jpg')));
+    expect(thumb.data[0]).toBeGreaterThan(240);
+  });
+
+  it('should drop derivatives of media that is no longer listed', async () => {
+    const filePath = await original('a.jpg', jpegOf(200, 200));
+    await generateDerivatives(backupRoot, [{ mediaId: 'a', filePath, sha256: 'h', mimeType: 'image/jpeg' }], {
+      widths: [100],
+    });
+
+    await generateDerivatives(backupRoot, [], { widths: [100] });
+
+    expect(await readdir(join(backupRoot, '.vsco-backup/derivatives'))).toEqual(['index.json']);
+    expect((await readDerivativeIndex(backupRoot)).entries).toEqual({});
+  });
+
+  it('should count undecodable files as failures', async () => {
+    const filePath = await original('bad.jpg', Buffer.from('definitely not a jpeg'));
+
+    const result = await generateDerivatives(backupRoot, [{ mediaId: 'bad', filePath, mimeType: 'image/jpeg' }]);
+
+    expect(result.failed).toBe(1);
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * Resized image derivatives for the offline site
+ * - Decodes JPEG/PNG originals with pure-JS codecs (jpeg-js, pngjs); no native tools
+ * - Writes JPEG thumbnails at fixed widths into .vsco-backup/derivatives/
+ * - An index.json in that directory records each source's SHA-256, so a
+ *   derivative is only rebuilt when its original changes
+ */
+
+import { mkdir, readFile, rename, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+import jpeg from 'jpeg-js';
+import { PNG } from 'pngjs';
+import { getDerivativesDir } from '../utils/paths.js';
+import { hashFile } from '../utils/integrity.js';
+import { getLogger } from '../utils/logger.js';
+
+/** Thumbnail widths in pixels; widths at or above the original's are skipped */
+export const DERIVATIVE_WIDTHS = [320, 640, 1280];
+
+const DERIVATIVE_QUALITY = 80;
+const INDEX_FILE = 'index.json';
+const INDEX_VERSION = 1;
+
+export interface DerivativeVariant {
+  width: number;
+  height: number;
+  /** Filename inside the derivatives directory */
+  file: string;
+}
+
+export interface DerivativeEntry {
+  /** SHA-256 of the original the variants were made from */
+  source_sha256: string;
+  source_width: number;
+  source_height: number;
+  /** Smallest first */
+  variants: DerivativeVariant[];
+}
+
+export interface DerivativeIndex {
+  version: number;
+  entries: Record<string, DerivativeEntry>;
+}
+
+export interface DerivativeSource {
+  mediaId: string;
+  filePath: string;
+  /** Known digest of the file (hashed on demand when absent) */
+  sha256?: string;
+  /** MIME type of the file; only JPEG and PNG are resized */
+  mimeType?: string;
+}
+
+export interface DerivativeOptions {
+  widths?: number[];
+  quality?: number;
+}
+
+export interface DerivativeResult {
+  index: DerivativeIndex;
+  generated: number;
+  reused: number;
+  failed: number;
+}
+
+interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+/**
+ * Downscale an RGBA image by averaging every source pixel under each target pixel
+ */
+export function resizeRgba(source: RgbaImage, width: number, height: number): RgbaImage {
+  const data = new Uint8Array(width * height * 4);
+  const xScale = source.width / width;
+  const yScale = source.height / height;
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor(y * yScale);
+    const y1 = Math.max(y0 + 1, Math.min(source.height, Math.floor((y + 1) * yScale)));
+
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x * xScale);
+      const x1 = Math.max(x0 + 1, Math.min(source.width, Math.floor((x + 1) * xScale)));
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+
+      for (let sy = y0; sy < y1; sy++) {
+        let offset = (sy * source.width + x0) * 4;
+        for (let sx = x0; sx < x1; sx++) {
+          r += source.data[offset];
+          g += source.data[offset + 1];
+          b += source.data[offset + 2];
+          a += source.data[offset + 3];
+          offset += 4;
+        }
+      }
+
+      const count = (y1 - y0) * (x1 - x0);
+      const target = (y * width + x) * 4;
+      data[target] = Math.round(r / count);
+      data[target + 1] = Math.round(g / count);
+      data[target + 2] = Math.round(b / count);
+      data[target + 3] = Math.round(a / count);
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Composite transparent pixels onto white, since JPEG has no alpha channel
+ */
+function flattenAlpha(image: RgbaImage): void {
+  const { data } = image;
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = data[i + 3];
+    if (alpha === 255) continue;
+    const blend = (value: number) => Math.round((value * alpha + 255 * (255 - alpha)) / 255);
+    data[i] = blend(data[i]);
+    data[i + 1] = blend(data[i + 1]);
+    data[i + 2] = blend(data[i + 2]);
+    data[i + 3] = 255;
+  }
+}
+
+function decodeImage(buffer: Buffer, mimeType: string): RgbaImage {
+  if (mimeType === 'image/png') {
+    const png = PNG.sync.read(buffer);
+    const image = { width: png.width, height: png.height, data: new Uint8Array(png.data) };
+    flattenAlpha(image);
+    return image;
+  }
+  return jpeg.decode(buffer, { useTArray: true, formatAsRGBA: true, maxMemoryUsageInMB: 1024 });
+}
+
+export function getDerivativeFilename(mediaId: string, width: number): string {
+  return `${mediaId.replace(/[^a-z0-9-]/gi, '')}-${width}.jpg`;
+}
+
+/**
+ * Read the derivatives index; a missing or unreadable index means nothing is cached
+ */
+export async function readDerivativeIndex(backupRoot: string): Promise<DerivativeIndex> {
+  try {
+    const parsed = JSON.parse(await readFile(join(getDerivativesDir(backupRoot), INDEX_FILE), 'utf-8'));
+    if (parsed?.version === INDEX_VERSION && parsed.entries && typeof parsed.entries === 'object') {
+      return parsed as DerivativeIndex;
+    }
+  } catch {
+    // Fall through: the cache is rebuilt from scratch
+  }
+  return { version: INDEX_VERSION, entries: {} };
+}
+
+async function writeDerivativeIndex(backupRoot: string, index: DerivativeIndex): Promise<void> {
+  const indexPath = join(getDerivativesDir(backupRoot), INDEX_FILE);
+  const tempPath = `${indexPath}.tmp`;
+  await writeFile(tempPath, JSON.stringify(index, null, 2), 'utf-8');
+  await rename(tempPath, indexPath);
+}
+
+async function removeVariants(dir: string, variants: DerivativeVariant[]): Promise<void> {
+  for (const variant of variants) {
+    await unlink(join(dir, variant.file)).catch(() => undefined);
+  }
+}
+
+/**
+ * Write thumbnails for one decoded image, largest first so each step resizes a smaller image
+ */
+async function writeVariants(
+  dir: string,
+  mediaId: string,
+  image: RgbaImage,
+  widths: number[],
+  quality: number
+): Promise<DerivativeVariant[]> {
+  const variants: DerivativeVariant[] = [];
+  let current = image;
+
+  for (const width of [...widths].sort((a, b) => b - a)) {
+    if (width >= image.width) continue;
+
+    const height = Math.max(1, Math.round((image.height * width) / image.width));
+    current = resizeRgba(current, width, height);
+
+    const file = getDerivativeFilename(mediaId, width);
+    const encoded = jpeg.encode({ width, height, data: current.data }, quality);
+    await writeFile(join(dir, file), encoded.data);
+    variants.unshift({ width, height, file });
+  }
+
+  return variants;
+}
+
+/**
+ * Bring the derivative cache up to date for the given originals
+ * Sources whose digest matches the index are left alone; entries for media
+ * no longer in the list are dropped along with their files
+ */
+export async function generateDerivatives(
+  backupRoot: string,
+  sources: DerivativeSource[],
+  options: DerivativeOptions = {}
+): Promise<DerivativeResult> {
+  const logger = getLogger();
+  const widths = options.widths ?? DERIVATIVE_WIDTHS;
+  const quality = options.quality ?? DERIVATIVE_QUALITY;
+  const dir = getDerivativesDir(backupRoot);
+  await mkdir(dir, { recursive: true });
+
+  const previous = await readDerivativeIndex(backupRoot);
+  const index: DerivativeIndex = { version: INDEX_VERSION, entries: {} };
+  const result: DerivativeResult = { index, generated: 0, reused: 0, failed: 0 };
+
+  for (const source of sources) {
+    if (source.mimeType !== 'image/jpeg' && source.mimeType !== 'image/png') continue;
+
+    const cached = previous.entries[source.mediaId];
+    try {
+      const sha256 = source.sha256 ?? (await hashFile(source.filePath));
+      if (cached && cached.source_sha256 === sha256) {
+        index.entries[source.mediaId] = cached;
+        result.reused++;
+        continue;
+      }
+
+      if (cached) {
+        await removeVariants(dir, cached.variants);
+      }
+
+      const image = decodeImage(await readFile(source.filePath), source.mimeType);
+      index.entries[source.mediaId] = {
+        source_sha256: sha256,
+        source_width: image.width,
+        source_height: image.height,
+        variants: await writeVariants(dir, source.mediaId, image, widths, quality),
+      };
+      result.generated++;
+    } catch (error) {
+      logger.warn(`Could not create thumbnails for ${source.mediaId}: ${(error as Error).message}`);
+      result.failed++;
+    }
+  }
+
+  for (const [mediaId, entry] of Object.entries(previous.entries)) {
+    if (!index.entries[mediaId]) {
+      await removeVariants(dir, entry.variants);
+    }
+  }
+
+  await writeDerivativeIndex(backupRoot, index);
+  return result;
+}
@@ -1,4 +1,4 @@
-import { mkdir, readFile, writeFile, readdir, copyFile, stat } from 'fs/promises';
+import { mkdir, writeFile, readdir, cp, stat } from 'fs/promises';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import { BackupManifest, Photo, Gallery, BlogPost } from '../manifest/types.js';
@@ -6,53 +6,126 @@ import {
   getIndexPath,
   getGalleryPath,
   getBlogPath,
+  getPhotoPath,
+  getSitePagePath,
   getAssetsDir,
   generateSlug,
   OUTPUT_LAYOUT,
   getMediaDir,
+  generateMediaFilename,
+  getPosterMediaId,
 } from '../utils/paths.js';
 import { getLogger } from '../utils/logger.js';
+import { DEFAULT_PAGE_SIZE, sortPhotos, paginate, groupByUploadMonth, formatMonth } from './archive.js';
+import type { ArchivePage, YearGroup } from './archive.js';
+import { generateDerivatives, readDerivativeIndex } from './derivatives.js';
+import type { DerivativeIndex, DerivativeSource } from './derivatives.js';
+import { html, renderTemplate, sanitizeHtml } from './template.js';
+import type { SafeHtml, TemplateValue } from './template.js';
+import { loadTheme } from './theme.js';
+import type { TemplateName, Theme } from './theme.js';
+import { buildSearchIndex, serializeSearchIndex } from './search.js';
+import { countChanges, formatChange } from '../core/diff.js';
+import type { BackupDiff, SectionDiff } from '../core/diff.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+/** Directory holding the built-in theme's templates/ and assets/ */
+export const BUILTIN_THEME_DIR = __dirname;
+
+/** Photos shown on the profile home page; the rest are reached through the archive */
+const INDEX_PHOTO_COUNT = 12;
+
+/** Thumbnail width preferred as the plain `src` for browsers without srcset support */
+const FALLBACK_THUMBNAIL_WIDTH = 640;
+/** Rendered width of a grid card (matches the .grid column sizing in style.css) */
+const GRID_SIZES = '(max-width: 700px) 100vw, 400px';
+const DETAIL_SIZES = '(max-width: 800px) 100vw, 75vw';
+
+/** Added photos shown as thumbnails on the what's new page; the rest are counted */
+const WHATS_NEW_PHOTO_LIMIT = 48;
+
+/** Search index script, written next to the search page */
+const SEARCH_INDEX_FILE = 'search-index.js';
+
+const DERIVATIVE_MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+};
+
+export interface SiteOptions {
+  /** Photos per archive page (default: DEFAULT_PAGE_SIZE) */
+  pageSize?: number;
+  /** Theme directory overriding the built-in templates, partials and assets */
+  theme?: string;
+  /** Badge photos that were removed from VSCO (deleted_upstream) */
+  markRemoved?: boolean;
+  /** Changelog for the what's new page; the page is skipped without one */
+  changes?: BackupDiff;
+}
+
 export class SiteGenerator {
   private manifest: BackupManifest;
   private backupRoot: string;
-  private templates: {
-    index: string;
-    gallery: string;
-    blog: string;
-  };
+  private themeDir?: string;
+  private theme: Theme;
   private mediaMap: Map<string, string>;
-
-  constructor(manifest: BackupManifest, backupRoot: string) {
+  /** Gallery ID → page slug, shared by gallery pages, lists and photo pages */
+  private gallerySlugs: Map<string, string>;
+  private pageSize: number;
+  private markRemoved: boolean;
+  private changes?: BackupDiff;
+  private derivatives: DerivativeIndex;
+
+  constructor(manifest: BackupManifest, backupRoot: string, options: SiteOptions = {}) {
     this.manifest = manifest;
     this.backupRoot = backupRoot;
-    this.templates = { index: '', gallery: '', blog: '' };
+    this.pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+    this.markRemoved = options.markRemoved ?? false;
+    this.changes = options.changes;
+    this.themeDir = options.theme;
+    this.derivatives = { version: 1, entries: {} };
+    this.theme = { templates: { index: '', gallery: '', blog: '', photo: '', archive: '', search: '', 'whats-new': '' }, assetDirs: [] };
     this.mediaMap = new Map();
+    this.gallerySlugs = new Map();
   }
 
   public async generate(): Promise<void> {
     const logger = getLogger();
     logger.info('Starting site generation...');
 
-    await this.loadTemplates();
+    // Load and validate the theme before anything is written
+    this.theme = await loadTheme(BUILTIN_THEME_DIR, this.themeDir);
     await this.buildMediaMap();
+    await this.buildDerivatives();
     await this.copyAssets();
+    this.buildGallerySlugs();
 
     await this.generateIndex();
     await this.generateGalleries();
     await this.generateBlogPosts();
+    await this.generatePhotoPages();
+    await this.generateArchive();
+    await this.generateSearch();
+    await this.generateWhatsNew();
 
     logger.info('Site generation complete.');
   }
 
-  private async loadTemplates(): Promise<void> {
-    const templateDir = join(__dirname, 'templates');
-    this.templates.index = await readFile(join(templateDir, 'index.html'), 'utf-8');
-    this.templates.gallery = await readFile(join(templateDir, 'gallery.html'), 'utf-8');
-    this.templates.blog = await readFile(join(templateDir, 'blog.html'), 'utf-8');
+  /**
+   * Write only the what's new page, reusing the media and thumbnails already on disk
+   */
+  public async generateWhatsNewPage(): Promise<string> {
+    this.theme = await loadTheme(BUILTIN_THEME_DIR, this.themeDir);
+    await this.buildMediaMap();
+    this.derivatives = await readDerivativeIndex(this.backupRoot);
+    await this.copyAssets();
+    this.buildGallerySlugs();
+
+    await this.generateWhatsNew();
+    return getSitePagePath(this.backupRoot, [OUTPUT_LAYOUT.WHATS_NEW_DIR]);
   }
 
   private async buildMediaMap(): Promise<void> {
@@ -75,81 +148,202 @@ export class SiteGenerator {
     }
   }
 
-  private getMediaFilename(photoId: string): string {
+  private buildGallerySlugs(): void {
+    const existingSlugs = new Map<string, string>();
+    for (const gallery of this.manifest.content.galleries) {
+      this.gallerySlugs.set(gallery.id, generateSlug(gallery.name, gallery.id, existingSlugs));
+    }
+  }
+
+  /**
+   * Photos newest first by capture/upload time; the order of the grid and of prev/next
+   */
+  private getSortedPhotos(): Photo[] {
+    return sortPhotos(this.manifest.content.photos);
+  }
+
+  private getPhotoPageHref(photo: Photo, relativePrefix: string): string {
+    const safeId = photo.id.replace(/[^a-z0-9-]/gi, '');
+    return `${relativePrefix}${OUTPUT_LAYOUT.PHOTOS_DIR}/${safeId}/${OUTPUT_LAYOUT.INDEX_FILE}`;
+  }
+
+  /**
+   * Create or reuse thumbnails for every image original and video poster on disk
+   */
+  private async buildDerivatives(): Promise<void> {
+    const mediaDir = getMediaDir(this.backupRoot);
+    const digests = new Map(
+      this.manifest.content.photos
+        .filter((photo) => photo.sha256 && photo.integrity !== 'invalid')
+        .map((photo) => [photo.id.replace(/[^a-z0-9-]/gi, ''), photo.sha256!])
+    );
+
+    const sources: DerivativeSource[] = [];
+    for (const [mediaId, file] of this.mediaMap) {
+      const mimeType = DERIVATIVE_MIME_TYPES[file.substring(file.lastIndexOf('.') + 1).toLowerCase()];
+      if (mimeType) {
+        sources.push({ mediaId, filePath: join(mediaDir, file), sha256: digests.get(mediaId), mimeType });
+      }
+    }
+
+    const result = await generateDerivatives(this.backupRoot, sources);
+    this.derivatives = result.index;
+    getLogger().debug(
+      `Thumbnails: ${result.generated} generated, ${result.reused} up to date, ${result.failed} failed`
+    );
+  }
+
+  /**
+   * src/srcset/sizes attributes for an image, falling back to the original alone
+   * when no thumbnails exist (non-JPEG/PNG, or too small to need any)
+   */
+  private renderImageSources(
+    mediaId: string,
+    originalSrc: string,
+    relativePrefix: string,
+    sizes: string,
+    preferOriginal = false
+  ): SafeHtml {
+    const entry = this.derivatives.entries[mediaId.replace(/[^a-z0-9-]/gi, '')];
+    if (!entry || entry.variants.length === 0) {
+      return html`src="${originalSrc}"`;
+    }
+
+    const href = (file: string) => `${relativePrefix}${OUTPUT_LAYOUT.DERIVATIVES_DIR}/${file}`;
+    const candidates = [
+      ...entry.variants.map((variant) => `${href(variant.file)} ${variant.width}w`),
+      `${originalSrc} ${entry.source_width}w`,
+    ];
+    const fallback =
+      [...entry.variants].reverse().find((variant) => variant.width <= FALLBACK_THUMBNAIL_WIDTH) ??
+      entry.variants[0];
+    const src = preferOriginal ? originalSrc : href(fallback.file);
+
+    return html`src="${src}" srcset="${candidates.join(', ')}" sizes="${sizes}"`;
+  }
+
+  /**
+   * Poster URL for a video, using a thumbnail when one exists
+   */
+  private getPosterSrc(photo: Photo, relativePrefix: string): string | null {
+    const posterId = getPosterMediaId(photo.id);
+    if (!this.hasMedia(posterId)) return null;
+
+    const entry = this.derivatives.entries[posterId.replace(/[^a-z0-9-]/gi, '')];
+    const thumbnail = entry?.variants.find((variant) => variant.width >= FALLBACK_THUMBNAIL_WIDTH);
+    return thumbnail
+      ? `${relativePrefix}${OUTPUT_LAYOUT.DERIVATIVES_DIR}/${thumbnail.file}`
+      : `${relativePrefix}${OUTPUT_LAYOUT.MEDIA_DIR}/${this.getMediaFilename(posterId)}`;
+  }
+
+  /**
+   * Smallest image for a photo (or a video's poster), for compact lists such as search results
+   */
+  private getThumbnailSrc(photo: Photo, relativePrefix: string): string | undefined {
+    const mediaId = photo.media_type === 'video' ? getPosterMediaId(photo.id) : photo.id;
+    if (!this.hasMedia(mediaId)) return undefined;
+
+    const smallest = this.derivatives.entries[mediaId.replace(/[^a-z0-9-]/gi, '')]?.variants[0];
+    return smallest
+      ? `${relativePrefix}${OUTPUT_LAYOUT.DERIVATIVES_DIR}/${smallest.file}`
+      : `${relativePrefix}${OUTPUT_LAYOUT.MEDIA_DIR}/${this.getMediaFilename(mediaId)}`;
+  }
+
+  private hasMedia(mediaId: string): boolean {
+    return this.mediaMap.has(mediaId.replace(/[^a-z0-9-]/gi, ''));
+  }
+
+  private getMediaFilename(photoId: string, contentType?: string): string {
     const safeId = photoId.replace(/[^a-z0-9-]/gi, '');
     
     if (this.mediaMap.has(safeId)) {
       return this.mediaMap.get(safeId)!;
     }
     
-    return `${safeId}.jpg`;
+    return generateMediaFilename(safeId, contentType);
   }
 
+  /**
+   * Copy the built-in assets, then the theme's on top of them
+   */
   private async copyAssets(): Promise<void> {
-    const sourceAssetsDir = join(__dirname, 'assets');
     const destAssetsDir = getAssetsDir(this.backupRoot);
 
     await mkdir(destAssetsDir, { recursive: true });
 
-    try {
-      const files = await readdir(sourceAssetsDir);
-      for (const file of files) {
-        await copyFile(join(sourceAssetsDir, file), join(destAssetsDir, file));
+    for (const sourceAssetsDir of this.theme.assetDirs) {
+      try {
+        await cp(sourceAssetsDir, destAssetsDir, { recursive: true });
+      } catch (error) {
+        getLogger().warn(`Could not copy assets from ${sourceAssetsDir}: ${error}`);
       }
-    } catch (error) {
-      getLogger().warn(`Could not copy assets: ${error}`);
     }
   }
 
+  /**
+   * Fill a theme template, adding the placeholders every template may use
+   * @param root - Relative path from the page to the site root ('' or '../'-repeated)
+   */
+  private renderPage(name: TemplateName, root: string, values: Record<string, TemplateValue>): string {
+    const { profile } = this.manifest;
+    return renderTemplate(this.theme.templates[name], {
+      root,
+      assets: `${root}${OUTPUT_LAYOUT.ASSETS_DIR}/`,
+      username: profile.username,
+      lastBackup: new Date(profile.last_backup_ts).toLocaleString(),
+      ...values,
+    });
+  }
+
   private async generateIndex(): Promise<void> {
     const { profile, content } = this.manifest;
-    
-    const sortedPhotos = [...content.photos].sort((a, b) => 
-      new Date(b.downloaded_at).getTime() - new Date(a.downloaded_at).getTime()
-    );
-
-    const photoGrid = this.renderPhotoGrid(sortedPhotos.slice(0, 12), '');
-    const galleryList = this.renderGalleryList(content.galleries, '');
-    const blogList = this.renderBlogList(content.blog_posts, '');
-
-    const html = this.templates.index
-      .replace(/{{username}}/g, profile.username)
-      .replace(/{{bio}}/g, `VSCO Profile Backup for ${profile.username}`)
-      .replace(/{{lastBackup}}/g, new Date(profile.last_backup_ts).toLocaleString())
-      .replace('{{photoGrid}}', photoGrid)
-      .replace('{{galleryList}}', galleryList)
-      .replace('{{blogList}}', blogList);
-
-    await writeFile(getIndexPath(this.backupRoot), html);
+    const indexHref = OUTPUT_LAYOUT.INDEX_FILE;
+
+    const photos = this.getSortedPhotos();
+    const archiveLinks =
+      photos.length > 0
+        ? html`<p class="archive-link"><a href="${OUTPUT_LAYOUT.PHOTOS_DIR}/page/1/${indexHref}">Browse all ${photos.length} photos →</a></p>${this.renderArchiveNav(groupByUploadMonth(photos), '')}`
+        : null;
+
+    const page = this.renderPage('index', '', {
+      displayName: profile.display_name || profile.username,
+      avatar: this.renderAvatar(),
+      bio: profile.bio,
+      profileLinks: this.renderProfileLinks(),
+      photoGrid: this.renderPhotoGrid(photos.slice(0, INDEX_PHOTO_COUNT), ''),
+      archiveLinks,
+      galleryList: this.renderGalleryList(content.galleries, ''),
+      blogList: this.renderBlogList(content.blog_posts, ''),
+    });
+
+    await writeFile(getIndexPath(this.backupRoot), page);
   }
 
   private async generateGalleries(): Promise<void> {
     const { content, profile } = this.manifest;
-    const existingSlugs = new Map<string, string>();
 
     for (const gallery of content.galleries) {
-      const slug = generateSlug(gallery.name, gallery.id, existingSlugs);
+      const slug = this.gallerySlugs.get(gallery.id)!;
       const galleryPath = getGalleryPath(this.backupRoot, slug);
       const galleryDir = dirname(galleryPath);
 
       await mkdir(galleryDir, { recursive: true });
 
       const galleryPhotos = content.photos.filter((p) => gallery.photo_ids.includes(p.id));
-      const photoGrid = this.renderPhotoGrid(galleryPhotos, '../../');
 
-      const html = this.templates.gallery
-        .replace(/{{galleryName}}/g, gallery.name)
-        .replace(/{{username}}/g, profile.username)
-        .replace(/{{galleryDescription}}/g, gallery.description || '')
-        .replace(/{{lastUpdated}}/g, new Date(profile.last_backup_ts).toLocaleString())
-        .replace('{{photoGrid}}', photoGrid);
+      const page = this.renderPage('gallery', '../../', {
+        galleryName: gallery.name,
+        galleryDescription: gallery.description,
+        lastUpdated: new Date(profile.last_backup_ts).toLocaleString(),
+        photoGrid: this.renderPhotoGrid(galleryPhotos, '../../'),
+      });
 
-      await writeFile(galleryPath, html);
+      await writeFile(galleryPath, page);
     }
   }
 
   private async generateBlogPosts(): Promise<void> {
-    const { content, profile } = this.manifest;
+    const { content } = this.manifest;
     
     for (const post of content.blog_posts) {
       const postPath = getBlogPath(this.backupRoot, post.slug);
@@ -157,45 +351,417 @@ export class SiteGenerator {
 
       await mkdir(postDir, { recursive: true });
 
-      const html = this.templates.blog
-        .replace(/{{title}}/g, post.title)
-        .replace(/{{username}}/g, profile.username)
-        .replace(/{{publishDate}}/g, new Date(post.published_at).toLocaleDateString())
-        .replace('{{content}}', post.content_html);
+      // Journal HTML is scraped from VSCO: keep formatting, drop anything executable
+      const page = this.renderPage('blog', '../../', {
+        title: post.title,
+        publishDate: new Date(post.published_at).toLocaleDateString(),
+        content: sanitizeHtml(post.content_html),
+      });
+
+      await writeFile(postPath, page);
+    }
+  }
+
+  private async generatePhotoPages(): Promise<void> {
+    const photos = this.getSortedPhotos();
+    const relativePrefix = '../../';
+
+    for (const [index, photo] of photos.entries()) {
+      const photoPath = getPhotoPath(this.backupRoot, photo.id);
+      await mkdir(dirname(photoPath), { recursive: true });
+
+      const prev = photos[index - 1];
+      const next = photos[index + 1];
+      const siblingHref = (sibling: Photo) => this.getPhotoPageHref(sibling, relativePrefix);
+
+      const page = this.renderPage('photo', relativePrefix, {
+        title: photo.caption || `Photo ${photo.id}`,
+        prevRel: prev ? html`<link rel="prev" href="${siblingHref(prev)}">` : null,
+        nextRel: next ? html`<link rel="next" href="${siblingHref(next)}">` : null,
+        prevLink: prev ? html`<a href="${siblingHref(prev)}">← Previous</a>` : null,
+        nextLink: next ? html`<a href="${siblingHref(next)}">Next →</a>` : null,
+        media: this.renderPhotoMedia(photo, relativePrefix),
+        caption: html`${this.renderRemovedBadge(photo)}${photo.caption ? html`<figcaption>${photo.caption}</figcaption>` : null}`,
+        details: this.renderPhotoDetails(photo),
+        galleries: this.renderPhotoGalleries(photo, relativePrefix),
+      });
+
+      await writeFile(photoPath, page);
+    }
+  }
+
+  /**
+   * Paginated listing of every photo (photos/page/N/), plus per-year and
+   * per-month listings grouped by upload date (archive/YYYY/, archive/YYYY/MM/)
+   */
+  private async generateArchive(): Promise<void> {
+    const photos = this.getSortedPhotos();
+    const years = groupByUploadMonth(photos);
+    const count = (n: number) => `${n} ${n === 1 ? 'photo' : 'photos'}`;
+
+    await this.writeListing(
+      photos,
+      (page) => [OUTPUT_LAYOUT.PHOTOS_DIR, 'page', String(page)],
+      'All photos',
+      count(photos.length),
+      years
+    );
+
+    for (const year of years) {
+      const yearDir = [OUTPUT_LAYOUT.ARCHIVE_DIR, String(year.year)];
+      await this.writeListing(
+        year.photos,
+        (page) => (page === 1 ? yearDir : [...yearDir, 'page', String(page)]),
+        String(year.year),
+        `${count(year.photos.length)} uploaded in ${year.year}`,
+        years
+      );
+
+      for (const month of year.months) {
+        const monthDir = [...yearDir, String(month.month).padStart(2, '0')];
+        const label = `${formatMonth(month.month)} ${year.year}`;
+        await this.writeListing(
+          month.photos,
+          (page) => (page === 1 ? monthDir : [...monthDir, 'page', String(page)]),
+          label,
+          `${count(month.photos.length)} uploaded in ${label}`,
+          years
+        );
+      }
+    }
+  }
+
+  /**
+   * Write one listing split into pages of `pageSize` photos
+   * @param pageDir - Path segments (relative to the backup root) of each page's directory
+   */
+  private async writeListing(
+    photos: Photo[],
+    pageDir: (page: number) => string[],
+    heading: string,
+    summary: string,
+    years: YearGroup[]
+  ): Promise<void> {
+    for (const page of paginate(photos, this.pageSize)) {
+      const segments = pageDir(page.number);
+      const root = '../'.repeat(segments.length);
+      const pagePath = getSitePagePath(this.backupRoot, segments);
+      await mkdir(dirname(pagePath), { recursive: true });
+
+      const pageHref = (n: number) => `${root}${pageDir(n).join('/')}/${OUTPUT_LAYOUT.INDEX_FILE}`;
+
+      const output = this.renderPage('archive', root, {
+        title: page.total > 1 ? `${heading} (page ${page.number} of ${page.total})` : heading,
+        heading,
+        summary,
+        photoGrid: this.renderPhotoGrid(page.items, root),
+        pagination: this.renderPagination(page, pageHref),
+        archiveNav: this.renderArchiveNav(years, root),
+      });
+
+      await writeFile(pagePath, output);
+    }
+  }
+
+  /**
+   * Search page (search/) with its index as a script, so it works from file:// without fetch
+   */
+  private async generateSearch(): Promise<void> {
+    const { content } = this.manifest;
+    const relativePrefix = '../';
+    const searchDir = join(this.backupRoot, OUTPUT_LAYOUT.SEARCH_DIR);
+    await mkdir(searchDir, { recursive: true });
+
+    const entries = buildSearchIndex(content, this.getSortedPhotos(), {
+      photoHref: (photo) => this.getPhotoPageHref(photo, relativePrefix),
+      thumbSrc: (photo) => this.getThumbnailSrc(photo, relativePrefix),
+      galleryHref: (gallery) =>
+        `${relativePrefix}${OUTPUT_LAYOUT.GALLERIES_DIR}/${this.gallerySlugs.get(gallery.id)}/${OUTPUT_LAYOUT.INDEX_FILE}`,
+      postHref: (post) => `${relativePrefix}${OUTPUT_LAYOUT.BLOG_DIR}/${post.slug}/${OUTPUT_LAYOUT.INDEX_FILE}`,
+    });
+    await writeFile(join(searchDir, SEARCH_INDEX_FILE), serializeSearchIndex(entries));
+
+    const page = this.renderPage('search', relativePrefix, {
+      searchIndex: SEARCH_INDEX_FILE,
+      entryCount: entries.length,
+    });
+    await writeFile(getSitePagePath(this.backupRoot, [OUTPUT_LAYOUT.SEARCH_DIR]), page);
+  }
+
+  /**
+   * Changelog page (whats-new/): added photos as a grid, everything else as lists
+   */
+  private async generateWhatsNew(): Promise<void> {
+    if (!this.changes) return;
+
+    const diff = this.changes;
+    const relativePrefix = '../';
+    const runLabel = (runId: string | null) => {
+      if (runId === null) return 'an empty backup';
+      const run = this.manifest.backup_runs.find((r) => r.run_id === runId);
+      return run ? `the backup of ${new Date(run.ts).toLocaleString()}` : 'the current backup';
+    };
+    const photosById = new Map(this.manifest.content.photos.map((photo) => [photo.id, photo]));
+    const total = countChanges(diff);
+
+    const added = diff.photos.added
+      .map((item) => photosById.get(item.id))
+      .filter((photo): photo is Photo => photo !== undefined);
+
+    const sections = html`
+      ${added.length > 0 ? html`<h2>New photos</h2><div class="grid">${this.renderPhotoGrid(added.slice(0, WHATS_NEW_PHOTO_LIMIT), relativePrefix)}</div>${
+        added.length > WHATS_NEW_PHOTO_LIMIT ? html`<p class="meta">…and ${added.length - WHATS_NEW_PHOTO_LIMIT} more</p>` : null
+      }` : null}
+      ${this.renderChangeList('Photos', { ...diff.photos, added: [] }, (id) => {
+        const photo = photosById.get(id);
+        return photo ? this.getPhotoPageHref(photo, relativePrefix) : undefined;
+      })}
+      ${this.renderChangeList('Galleries', diff.galleries, (id) => {
+        const slug = this.gallerySlugs.get(id);
+        return slug ? `${relativePrefix}${OUTPUT_LAYOUT.GALLERIES_DIR}/${slug}/${OUTPUT_LAYOUT.INDEX_FILE}` : undefined;
+      })}
+      ${this.renderChangeList('Journal', diff.blog_posts, (id) => {
+        const post = this.manifest.content.blog_posts.find((p) => p.id === id);
+        return post ? `${relativePrefix}${OUTPUT_LAYOUT.BLOG_DIR}/${post.slug}/${OUTPUT_LAYOUT.INDEX_FILE}` : undefined;
+      })}
+    `;
+
+    const page = this.renderPage('whats-new', relativePrefix, {
+      title: "What's new",
+      summary: `${total} ${total === 1 ? 'change' : 'changes'} from ${runLabel(diff.from)} to ${runLabel(
+        diff.to
+      )}`,
+      changes: total > 0 ? sections : html`<p>Nothing changed.</p>`,
+    });
+
+    const pagePath = getSitePagePath(this.backupRoot, [OUTPUT_LAYOUT.WHATS_NEW_DIR]);
+    await mkdir(dirname(pagePath), { recursive: true });
+    await writeFile(pagePath, page);
+  }
+
+  /**
+   * Added/removed/changed items of one kind; items still in the backup are linked
+   */
+  private renderChangeList(title: string, section: SectionDiff, href: (id: string) => string | undefined): SafeHtml | null {
+    const item = (id: string, label: string) => {
+      const link = href(id);
+      return link ? html`<a href="${link}">${label}</a>` : html`${label}`;
+    };
+    const rows = [
+      ...section.added.map((entry) => html`<li class="change-added">Added: ${item(entry.id, entry.label)}</li>`),
+      ...section.removed.map((entry) => html`<li class="change-removed">Removed: ${item(entry.id, entry.label)}</li>`),
+      ...section.changed.map(
+        (entry) =>
+          html`<li class="change-edited">Changed: ${item(entry.id, entry.label)} <span class="meta">${entry.changes
+            .map(formatChange)
+            .join('; ')}</span></li>`
+      ),
+    ];
+    if (rows.length === 0) return null;
+
+    return html`<section class="change-list"><h2>${title}</h2><ul>${rows}</ul></section>`;
+  }
+
+  /**
+   * Newer/older links around a window of page numbers
+   */
+  private renderPagination(page: ArchivePage<Photo>, pageHref: (n: number) => string): SafeHtml | null {
+    if (page.total <= 1) return null;
+
+    const window = 3;
+    const numbers = new Set([1, page.total]);
+    for (let n = page.number - window; n <= page.number + window; n++) {
+      if (n >= 1 && n <= page.total) numbers.add(n);
+    }
+
+    const links: SafeHtml[] = [];
+    let last = 0;
+    for (const n of [...numbers].sort((a, b) => a - b)) {
+      if (n - last > 1) links.push(html`<span class="pagination-gap">…</span> `);
+      links.push(
+        n === page.number
+          ? html`<span class="pagination-current" aria-current="page">${n}</span> `
+          : html`<a href="${pageHref(n)}">${n}</a> `
+      );
+      last = n;
+    }
+
+    const newer = page.number > 1 ? html`<a href="${pageHref(page.number - 1)}" rel="prev">← Newer</a> ` : null;
+    const older = page.number < page.total ? html`<a href="${pageHref(page.number + 1)}" rel="next">Older →</a>` : null;
+
+    return html`<nav class="pagination">${newer}${links}${older}</nav>`;
+  }
+
+  private renderArchiveNav(years: YearGroup[], relativePrefix: string): SafeHtml | null {
+    if (years.length === 0) return null;
+
+    const items = years.map((year) => {
+      const yearHref = `${relativePrefix}${OUTPUT_LAYOUT.ARCHIVE_DIR}/${year.year}/${OUTPUT_LAYOUT.INDEX_FILE}`;
+      const months = year.months.map((month, i) => {
+        const mm = String(month.month).padStart(2, '0');
+        const href = `${relativePrefix}${OUTPUT_LAYOUT.ARCHIVE_DIR}/${year.year}/${mm}/${OUTPUT_LAYOUT.INDEX_FILE}`;
+        return html`${i > 0 ? ' · ' : ''}<a href="${href}">${formatMonth(month.month)}</a> <span class="meta">${month.photos.length}</span>`;
+      });
+      return html`<li><a href="${yearHref}" class="archive-year">${year.year}</a> ${months}</li>\n`;
+    });
+
+    return html`<ul class="archive-nav">${items}</ul>`;
+  }
+
+  private renderPhotoMedia(photo: Photo, relativePrefix: string): SafeHtml {
+    const src = `${relativePrefix}${OUTPUT_LAYOUT.MEDIA_DIR}/${this.getMediaFilename(photo.id, photo.content_type)}`;
 
-      await writeFile(postPath, html);
+    if (photo.media_type === 'video') {
+      const posterSrc = this.getPosterSrc(photo, relativePrefix);
+      const poster = posterSrc ? html` poster="${posterSrc}"` : null;
+      return html`<video src="${src}"${poster} controls playsinline></video>`;
     }
+
+    const sources = this.renderImageSources(photo.id, src, relativePrefix, DETAIL_SIZES, true);
+    return html`<a href="${src}"><img ${sources} alt="${photo.caption ?? ''}"${this.renderDimensions(photo)} data-lightbox-src="${src}"></a>`;
+  }
+
+  private renderDimensions(photo: Photo): SafeHtml | null {
+    return photo.width && photo.height ? html` width="${photo.width}" height="${photo.height}"` : null;
+  }
+
+  /**
+   * Definition-list rows for dates, dimensions, preset, camera data and tags
+   */
+  private renderPhotoDetails(photo: Photo): SafeHtml {
+    const exif = photo.exif ?? {};
+    // Models often repeat the make ("Canon" / "Canon EOS R5")
+    const camera =
+      exif.camera_make && exif.camera_model?.startsWith(exif.camera_make)
+        ? exif.camera_model
+        : [exif.camera_make, exif.camera_model].filter(Boolean).join(' ');
+    const exposure = [
+      exif.aperture ? `ƒ/${exif.aperture}` : '',
+      exif.exposure_time ? `${exif.exposure_time}s` : '',
+      exif.iso ? `ISO ${exif.iso}` : '',
+      exif.focal_length ? `${exif.focal_length}mm` : '',
+    ].filter(Boolean);
+    const formatDate = (value: string) => html`<time datetime="${value}">${new Date(value).toLocaleString()}</time>`;
+    // Manifest values are data, not markup: only web links become anchors
+    const permalink = photo.permalink && /^https?:\/\//i.test(photo.permalink) ? photo.permalink : undefined;
+
+    const rows: Array<[string, TemplateValue]> = [
+      ['Taken', photo.captured_at ? formatDate(photo.captured_at) : null],
+      ['Uploaded', photo.uploaded_at ? formatDate(photo.uploaded_at) : null],
+      ['Dimensions', photo.width && photo.height ? `${photo.width} × ${photo.height}` : null],
+      ['Preset', photo.preset],
+      ['Camera', camera || null],
+      ['Lens', exif.lens],
+      ['Exposure', exposure.length > 0 ? exposure.join(' · ') : null],
+      ['Tags', photo.tags?.length ? photo.tags.map((tag) => `#${tag}`).join(' ') : null],
+      ['On VSCO', permalink ? html`<a href="${permalink}">${permalink}</a>` : null],
+      ['Backed up', formatDate(photo.downloaded_at)],
+      ['Removed from VSCO', this.markRemoved && photo.deleted_upstream ? formatDate(photo.deleted_upstream) : null],
+    ];
+
+    return html`${rows
+      .filter(([, value]) => Boolean(value))
+      .map(([label, value]) => html`<dt>${label}</dt><dd>${value}</dd>\n                `)}`;
+  }
+
+  private renderPhotoGalleries(photo: Photo, relativePrefix: string): SafeHtml | null {
+    const galleries = this.manifest.content.galleries.filter((gallery) => gallery.photo_ids.includes(photo.id));
+    if (galleries.length === 0) return null;
+
+    const items = galleries.map((gallery) => {
+      const slug = this.gallerySlugs.get(gallery.id)!;
+      const href = `${relativePrefix}${OUTPUT_LAYOUT.GALLERIES_DIR}/${slug}/${OUTPUT_LAYOUT.INDEX_FILE}`;
+      return html`<li><a href="${href}">${gallery.name}</a></li>`;
+    });
+
+    return html`<section class="photo-galleries"><h3>In galleries</h3><ul>${items}</ul></section>`;
+  }
+
+  /**
+   * The downloaded profile picture; never hotlinked when the local copy is missing
+   */
+  private renderAvatar(): SafeHtml | null {
+    const { avatar } = this.manifest.profile;
+    if (!avatar || !this.hasMedia(avatar.media_id)) return null;
+
+    const src = `${OUTPUT_LAYOUT.MEDIA_DIR}/${this.getMediaFilename(avatar.media_id, avatar.content_type)}`;
+    return html`<img class="avatar" src="${src}" alt="Profile picture" width="96" height="96">`;
   }
 
-  private renderPhotoGrid(photos: Photo[], relativePrefix: string): string {
-    if (photos.length === 0) return '<p>No photos found.</p>';
+  private renderProfileLinks(): SafeHtml | null {
+    const links = (this.manifest.profile.links ?? []).filter((link) => /^https?:\/\//i.test(link));
+    if (links.length === 0) return null;
+
+    const items = links.map((link) => {
+      const label = link.replace(/^https?:\/\//i, '').replace(/\/$/, '');
+      return html`<li><a href="${link}" rel="nofollow noopener">${label}</a></li>`;
+    });
+    return html`<ul class="profile-links">${items}</ul>`;
+  }
 
-    return photos
-      .map((photo) => {
-        const filename = this.getMediaFilename(photo.id);
-        const src = `${relativePrefix}${OUTPUT_LAYOUT.MEDIA_DIR}/${filename}`;
-        return `
+  private renderRemovedBadge(photo: Photo): SafeHtml | null {
+    if (!this.markRemoved || !photo.deleted_upstream) return null;
+    return html`<span class="removed-badge" title="${`Removed from VSCO on ${new Date(photo.deleted_upstream).toLocaleDateString()}`}">Removed from VSCO</span>`;
+  }
+
+  private renderPhotoGrid(photos: Photo[], relativePrefix: string): SafeHtml {
+    if (photos.length === 0) return html`<p>No photos found.</p>`;
+
+    return html`${photos.map((photo) => {
+      const filename = this.getMediaFilename(photo.id, photo.content_type);
+      const src = `${relativePrefix}${OUTPUT_LAYOUT.MEDIA_DIR}/${filename}`;
+
+      if (photo.media_type === 'video') {
+        const posterSrc = this.getPosterSrc(photo, relativePrefix);
+        const poster = posterSrc ? html` poster="${posterSrc}"` : null;
+        return html`
+          <div class="photo-card video-card">
+            ${this.renderRemovedBadge(photo)}
+            <video src="${src}"${poster} controls playsinline preload="none"></video>
+            ${this.renderPhotoInfo(photo)}
+            <a href="${this.getPhotoPageHref(photo, relativePrefix)}" class="detail-link">Details</a>
+          </div>
+        `;
+      }
+
+      const sources = this.renderImageSources(photo.id, src, relativePrefix, GRID_SIZES);
+      return html`
           <div class="photo-card">
-            <a href="${src}" target="_blank">
-              <img src="${src}" alt="${photo.caption || ''}" loading="lazy">
-              ${photo.caption ? `<div class="photo-info"><p>${photo.caption}</p></div>` : ''}
+            ${this.renderRemovedBadge(photo)}
+            <a href="${this.getPhotoPageHref(photo, relativePrefix)}">
+              <img ${sources} alt="${photo.caption ?? ''}"${this.renderDimensions(photo)} loading="lazy">
+              ${this.renderPhotoInfo(photo)}
             </a>
           </div>
         `;
-      })
-      .join('\n');
+    })}`;
+  }
+
+  /**
+   * Caption, capture/upload date and preset shown over a photo card
+   */
+  private renderPhotoInfo(photo: Photo): SafeHtml | null {
+    const taken = photo.captured_at ?? photo.uploaded_at;
+    const details = [
+      taken ? html`<time datetime="${taken}">${new Date(taken).toLocaleDateString()}</time>` : null,
+      photo.preset ? html`<span class="photo-preset">${photo.preset}</span>` : null,
+    ].filter((detail): detail is SafeHtml => detail !== null);
+
+    if (!photo.caption && details.length === 0) return null;
+
+    const meta = details.map((detail, i) => html`${i > 0 ? ' · ' : ''}${detail}`);
+    return html`<div class="photo-info">${photo.caption ? html`<p>${photo.caption}</p>` : null}${
+      details.length > 0 ? html`<p class="photo-meta">${meta}</p>` : null
+    }</div>`;
   }
 
-  private renderGalleryList(galleries: Gallery[], relativePrefix: string): string {
-    if (galleries.length === 0) return '<p>No galleries found.</p>';
+  private renderGalleryList(galleries: Gallery[], relativePrefix: string): SafeHtml {
+    if (galleries.length === 0) return html`<p>No galleries found.</p>`;
 
-    const existingSlugs = new Map<string, string>();
-    
-    return galleries
-      .map((gallery) => {
-        const slug = generateSlug(gallery.name, gallery.id, existingSlugs);
-        const href = `${relativePrefix}${OUTPUT_LAYOUT.GALLERIES_DIR}/${slug}/${OUTPUT_LAYOUT.INDEX_FILE}`;
-        return `
+    return html`${galleries.map((gallery) => {
+      const slug = this.gallerySlugs.get(gallery.id)!;
+      const href = `${relativePrefix}${OUTPUT_LAYOUT.GALLERIES_DIR}/${slug}/${OUTPUT_LAYOUT.INDEX_FILE}`;
+      return html`
           <div class="gallery-item">
             <a href="${href}" class="gallery-title">
               <h3>${gallery.name}</h3>
@@ -203,17 +769,15 @@ export class SiteGenerator {
             <p>${gallery.photo_ids.length} photos</p>
           </div>
         `;
-      })
-      .join('\n');
+    })}`;
   }
 
-  private renderBlogList(posts: BlogPost[], relativePrefix: string): string {
-    if (posts.length === 0) return '<p>No journal entries found.</p>';
+  private renderBlogList(posts: BlogPost[], relativePrefix: string): SafeHtml {
+    if (posts.length === 0) return html`<p>No journal entries found.</p>`;
 
-    return posts
-      .map((post) => {
-        const href = `${relativePrefix}${OUTPUT_LAYOUT.BLOG_DIR}/${post.slug}/${OUTPUT_LAYOUT.INDEX_FILE}`;
-        return `
+    return html`${posts.map((post) => {
+      const href = `${relativePrefix}${OUTPUT_LAYOUT.BLOG_DIR}/${post.slug}/${OUTPUT_LAYOUT.INDEX_FILE}`;
+      return html`
           <div class="gallery-item">
             <a href="${href}" class="gallery-title">
               <h3>${post.title}</h3>
@@ -221,7 +785,6 @@ export class SiteGenerator {
             <p>${new Date(post.published_at).toLocaleDateString()}</p>
           </div>
         `;
-      })
-      .join('\n');
+    })}`;
   }
 }
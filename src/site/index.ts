@@ -2,20 +2,51 @@
  * Static HTML generation module
  */
 
-import { SiteGenerator } from './generator.js';
+import { SiteGenerator, BUILTIN_THEME_DIR } from './generator.js';
+import { loadTheme } from './theme.js';
+import type { SiteOptions } from './generator.js';
 import { readManifest } from '../manifest/io.js';
+import { resolveDiff } from '../core/diff.js';
+import type { BackupDiff } from '../core/diff.js';
 import { getLogger } from '../utils/logger.js';
 
-export async function generateSite(outputDir: string): Promise<void> {
+export type { SiteOptions } from './generator.js';
+export { DEFAULT_PAGE_SIZE } from './archive.js';
+
+/**
+ * Check a theme directory up front, so a long backup does not fail at the rendering step
+ * @throws InvalidInputError if the theme is missing or its templates are invalid
+ */
+export async function validateTheme(themeDir: string): Promise<void> {
+  await loadTheme(BUILTIN_THEME_DIR, themeDir);
+}
+
+export async function generateSite(outputDir: string, options: SiteOptions = {}): Promise<void> {
   const logger = getLogger();
   logger.info(`Generating static site in ${outputDir}`);
   
   try {
     const manifest = await readManifest(outputDir);
-    const generator = new SiteGenerator(manifest, outputDir);
+    // The what's new page defaults to the changes of the latest run
+    const changes = options.changes ?? (await resolveDiff(outputDir, manifest));
+    const generator = new SiteGenerator(manifest, outputDir, { ...options, changes });
     await generator.generate();
   } catch (error) {
     logger.error(`Failed to generate site: ${error}`);
     throw error;
   }
 }
+
+/**
+ * Write a what's new page for an arbitrary comparison without rebuilding the rest of the site
+ * @returns Path of the written page
+ */
+export async function writeWhatsNewPage(
+  outputDir: string,
+  changes: BackupDiff,
+  options: SiteOptions = {}
+): Promise<string> {
+  const manifest = await readManifest(outputDir);
+  const generator = new SiteGenerator(manifest, outputDir, { ...options, changes });
+  return generator.generateWhatsNewPage();
+}
@@ -0,0 +1,101 @@
+/**
+ * Tests for the precomputed site search index
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { runInNewContext } from 'vm';
+import type { BackupContent, Photo } from '../manifest/types.js';
+import { buildSearchIndex, htmlToText, normalizeSearchText, serializeSearchIndex } from './search.js';
+import type { SearchLinks } from './search.js';
+
+const links: SearchLinks = {
+  photoHref: (photo) => `../photos/${photo.id}/index.html`,
+  thumbSrc: (photo) => (photo.id === 'p2' ? undefined : `../thumbs/${photo.id}.jpg`),
+  galleryHref: (gallery) => `../galleries/${gallery.id}/index.html`,
+  postHref: (post) => `../blog/${post.slug}/index.html`,
+};
+
+function photo(overrides: Partial<Photo> & { id: string }): Photo {
+  return { url_highres: `https://example.com/${overrides.id}.jpg`, downloaded_at: '2025-01-01T00:00:00Z', ...overrides };
+}
+
+const content: BackupContent = {
+  photos: [
+    photo({
+      id: 'p1',
+      caption: 'Café at dawn',
+      tags: ['Paris'],
+      preset: 'A6',
+      captured_at: '2024-06-02T08:00:00Z',
+    }),
+    photo({ id: 'p2', media_type: 'video', uploaded_at: '2023-12-31T23:00:00Z' }),
+  ],
+  galleries: [
+    { id: 'g1', name: 'Travel', description: 'Trips abroad', photo_ids: ['p2', 'p1'] },
+  ],
+  blog_posts: [
+    {
+      id: 'b1',
+      slug: 'notes',
+      title: 'Field notes',
+      content_html: '<p>Rainy &amp; grey</p><script>track()</script><p>Second&nbsp;line</p>',
+      published_at: '2024-03-05T12:00:00Z',
+    },
+  ],
+};
+
+describe('normalizeSearchText', () => {
+  it('should lowercase, strip diacritics and collapse whitespace', () => {
+    expect(normalizeSearchText('  Café\n CRÈME ')).toBe('cafe creme');
+  });
+});
+
+describe('htmlToText', () => {
+  it('should drop tags and scripts and decode entities', () => {
+    expect(htmlToText('<p>Rainy &amp; grey</p><script>track()</script><p>ok</p>')).toBe('Rainy & grey ok');
+  });
+});
+
+describe('buildSearchIndex', () => {
+  const entries = buildSearchIndex(content, content.photos, links);
+
+  it('should index captions, tags, presets, gallery names and dates of photos', () => {
+    const [entry] = entries;
+
+    expect(entry).toMatchObject({ type: 'photo', title: 'Café at dawn', href: '../photos/p1/index.html' });
+    expect(entry.thumb).toBe('../thumbs/p1.jpg');
+    for (const term of ['cafe', '#paris', 'a6', 'travel', '2024-06-02', 'june 2024']) {
+      expect(entry.text).toContain(term);
+    }
+  });
+
+  it('should title uncaptioned media by date', () => {
+    expect(entries[1]).toMatchObject({ type: 'video', title: 'Photo from 2023-12-31' });
+    expect(entries[1].thumb).toBeUndefined();
+  });
+
+  it('should use the first photo with a thumbnail as the gallery cover', () => {
+    expect(entries[2]).toMatchObject({ type: 'gallery', thumb: '../thumbs/p1.jpg', snippet: 'Trips abroad' });
+  });
+
+  it('should index journal titles and body text without markup', () => {
+    const journal = entries[3];
+
+    expect(journal).toMatchObject({ type: 'journal', href: '../blog/notes/index.html' });
+    expect(journal.text).toContain('rainy & grey');
+    expect(journal.text).toContain('second line');
+    expect(journal.text).toContain('march 2024');
+    expect(journal.text).not.toContain('track');
+  });
+});
+
+describe('serializeSearchIndex', () => {
+  it('should produce a script that assigns the index to a global', () => {
+    const entries = buildSearchIndex(content, content.photos, links);
+    const sandbox: { window: Record<string, unknown> } = { window: {} };
+
+    runInNewContext(serializeSearchIndex(entries), sandbox);
+
+    expect(sandbox.window.VSCO_SEARCH_INDEX).toEqual(JSON.parse(JSON.stringify(entries)));
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Precomputed search index for the offline site
+ * - One entry per photo/video, gallery and journal post
+ * - Entry text is normalized here (lowercase, no diacritics), so the page only
+ *   has to normalize the query and test substrings
+ * - Serialized as a plain script assigning a global, which loads under file:// without fetch
+ */
+
+import type { BackupContent, BlogPost, Gallery, Photo } from '../manifest/types.js';
+import { getPhotoTime, formatMonth } from './archive.js';
+import { decodeEntities } from './template.js';
+
+export type SearchEntryType = 'photo' | 'video' | 'gallery' | 'journal';
+
+export interface SearchEntry {
+  type: SearchEntryType;
+  title: string;
+  /** Link relative to the search page */
+  href: string;
+  /** Thumbnail relative to the search page */
+  thumb?: string;
+  /** ISO date shown with the result */
+  date?: string;
+  /** Short excerpt shown under the title */
+  snippet?: string;
+  /** Normalized text that every query term must occur in */
+  text: string;
+}
+
+/** How the generator links and illustrates each kind of entry */
+export interface SearchLinks {
+  photoHref(photo: Photo): string;
+  thumbSrc(photo: Photo): string | undefined;
+  galleryHref(gallery: Gallery): string;
+  postHref(post: BlogPost): string;
+}
+
+/** Global the index script assigns; read by assets/search.js */
+export const SEARCH_INDEX_GLOBAL = 'VSCO_SEARCH_INDEX';
+
+/** Journal text kept per post; long posts are still found by their opening */
+const MAX_BODY_LENGTH = 5000;
+const SNIPPET_LENGTH = 160;
+
+/**
+ * Lowercase and strip diacritics, so "Café" matches "cafe"
+ */
+export function normalizeSearchText(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Plain text of journal HTML (scripts and styles dropped, entities decoded)
+ */
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<(script|style)\b[\s\S]*?<\/\1\s*>/gi, ' ')
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<[^>]*>/g, ' ');
+  return decodeEntities(text).replace(/\s+/g, ' ').trim();
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length).trimEnd()}…` : text;
+}
+
+/**
+ * Ways a date may be searched for: "2024-06-01", "june 2024", "2024"
+ */
+function dateTerms(time: number): string[] {
+  if (!time) return [];
+  const date = new Date(time);
+  const year = date.getUTCFullYear();
+  return [date.toISOString().slice(0, 10), `${formatMonth(date.getUTCMonth() + 1)} ${year}`];
+}
+
+function photoEntry(photo: Photo, galleries: Gallery[], links: SearchLinks): SearchEntry {
+  const time = getPhotoTime(photo);
+  const tags = photo.tags ?? [];
+  const galleryNames = galleries.filter((gallery) => gallery.photo_ids.includes(photo.id)).map((g) => g.name);
+  const date = time ? new Date(time).toISOString() : undefined;
+
+  return {
+    type: photo.media_type === 'video' ? 'video' : 'photo',
+    title: photo.caption || (date ? `Photo from ${date.slice(0, 10)}` : `Photo ${photo.id}`),
+    href: links.photoHref(photo),
+    thumb: links.thumbSrc(photo),
+    date,
+    text: normalizeSearchText(
+      [photo.caption, ...tags.map((tag) => `#${tag}`), photo.preset, ...galleryNames, ...dateTerms(time)]
+        .filter(Boolean)
+        .join(' ')
+    ),
+  };
+}
+
+function galleryEntry(gallery: Gallery, photos: Map<string, Photo>, links: SearchLinks): SearchEntry {
+  const cover = gallery.photo_ids.map((id) => photos.get(id)).find((photo) => photo && links.thumbSrc(photo));
+
+  return {
+    type: 'gallery',
+    title: gallery.name,
+    href: links.galleryHref(gallery),
+    thumb: cover ? links.thumbSrc(cover) : undefined,
+    snippet: gallery.description ? truncate(gallery.description, SNIPPET_LENGTH) : undefined,
+    text: normalizeSearchText([gallery.name, gallery.description].filter(Boolean).join(' ')),
+  };
+}
+
+function journalEntry(post: BlogPost, links: SearchLinks): SearchEntry {
+  const body = htmlToText(post.content_html);
+  const time = new Date(post.published_at).getTime() || 0;
+
+  return {
+    type: 'journal',
+    title: post.title,
+    href: links.postHref(post),
+    date: time ? new Date(time).toISOString() : undefined,
+    snippet: body ? truncate(body, SNIPPET_LENGTH) : undefined,
+    text: normalizeSearchText([post.title, body.slice(0, MAX_BODY_LENGTH), ...dateTerms(time)].join(' ')),
+  };
+}
+
+/**
+ * Entries for every photo (in the order given), gallery and journal post
+ */
+export function buildSearchIndex(content: BackupContent, photos: Photo[], links: SearchLinks): SearchEntry[] {
+  const photosById = new Map(content.photos.map((photo) => [photo.id, photo]));
+
+  return [
+    ...photos.map((photo) => photoEntry(photo, content.galleries, links)),
+    ...content.galleries.map((gallery) => galleryEntry(gallery, photosById, links)),
+    ...content.blog_posts.map((post) => journalEntry(post, links)),
+  ];
+}
+
+/**
+ * Script source assigning the index to window.VSCO_SEARCH_INDEX
+ */
+export function serializeSearchIndex(entries: SearchEntry[]): string {
+  // JSON is valid JS, except that U+2028/U+2029 are line terminators in older engines
+  const json = JSON.stringify(entries).replace(/\u2028/g, '\\u2028').replace(/\u2029/g, '\\u2029');
+  return `window.${SEARCH_INDEX_GLOBAL} = ${json};\n`;
+}
@@ -0,0 +1,106 @@
+/**
+ * Tests for the site templating layer
+ * Hostile captions, names and journal HTML must never reach the page as markup
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { escapeHtml, html, trustedHtml, renderTemplate, sanitizeHtml } from './template.js';
+
+const HOSTILE_CAPTION = `<script>alert("x")</script> $& $' $1 "quoted" & <img src=x onerror=alert(1)>`;
+
+describe('escapeHtml', () => {
+  it('should escape markup and quote characters', () => {
+    expect(escapeHtml(`<a href="x">'&'</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;');
+  });
+});
+
+describe('html', () => {
+  it('should escape interpolated strings in content and attributes', () => {
+    const fragment = html`<img alt="${HOSTILE_CAPTION}"><p>${HOSTILE_CAPTION}</p>`;
+
+    expect(fragment.value).not.toContain('<script>');
+    expect(fragment.value).not.toContain('onerror=alert(1)>');
+    expect(fragment.value).toContain('alt="&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;');
+  });
+
+  it('should pass trusted fragments through and join arrays', () => {
+    const items = ['<a>', 'b'].map((label) => html`<li>${label}</li>`);
+
+    expect(html`<ul>${items}</ul>${trustedHtml('<hr>')}`.value).toBe('<ul><li>&lt;a&gt;</li><li>b</li></ul><hr>');
+  });
+
+  it('should render null and undefined as nothing', () => {
+    expect(html`[${undefined}${null}${0}]`.value).toBe('[0]');
+  });
+});
+
+describe('renderTemplate', () => {
+  it('should keep $ sequences in values literal', () => {
+    const page = renderTemplate('<h1>{{title}}</h1><p>{{title}}</p>', { title: "$& $' $` $$ $1" });
+
+    expect(page).toBe("<h1>$&amp; $&#39; $` $$ $1</h1><p>$&amp; $&#39; $` $$ $1</p>");
+  });
+
+  it('should escape hostile captions but not trusted blocks', () => {
+    const page = renderTemplate('<title>{{title}}</title>{{grid}}', {
+      title: HOSTILE_CAPTION,
+      grid: html`<div class="grid">${HOSTILE_CAPTION}</div>`,
+    });
+
+    expect(page).not.toMatch(/<script>|<img/);
+    expect(page).toContain('<div class="grid">&lt;script&gt;');
+  });
+
+  it('should not expand placeholders that appear inside values', () => {
+    expect(renderTemplate('{{a}}|{{b}}', { a: '{{b}}', b: 'x' })).toBe('{{b}}|x');
+  });
+
+  it('should throw on placeholders without a value', () => {
+    expect(() => renderTemplate('{{missing}}', {})).toThrow('{{missing}}');
+  });
+});
+
+describe('sanitizeHtml', () => {
+  const clean = (input: string) => sanitizeHtml(input).value;
+
+  it('should keep allowlisted formatting and links', () => {
+    expect(clean('<p>Hi <strong>there</strong> <a href="https://vsco.co/x" title="t">link</a></p>')).toBe(
+      '<p>Hi <strong>there</strong> <a href="https://vsco.co/x" title="t">link</a></p>'
+    );
+    expect(clean('<img src="../../.vsco-backup/media/a.jpg" alt="a">')).toBe(
+      '<img src="../../.vsco-backup/media/a.jpg" alt="a">'
+    );
+  });
+
+  it('should remove scripts, styles and embeds with their content', () => {
+    expect(clean('<p>a</p><script>alert(1)</script><style>p{}</style><iframe src="x">b</iframe><p>c</p>')).toBe(
+      '<p>a</p><p>c</p>'
+    );
+  });
+
+  it('should drop event handlers and unknown attributes', () => {
+    expect(clean('<p onclick="x()" style="color:red" class="c">t</p><img src=a.jpg onerror=alert(1)>')).toBe(
+      '<p>t</p><img src="a.jpg">'
+    );
+  });
+
+  it('should reject script and data URLs, including obfuscated ones', () => {
+    expect(clean('<a href="javascript:alert(1)">a</a>')).toBe('<a>a</a>');
+    expect(clean('<a href="jav&#x61;script:alert(1)">a</a>')).toBe('<a>a</a>');
+    expect(clean('<a href=" java\tscript:alert(1)">a</a>')).toBe('<a>a</a>');
+    expect(clean('<img src="data:text/html;base64,AAAA">')).toBe('<img>');
+    expect(clean('<a href="mailto:a@b.c">m</a>')).toBe('<a href="mailto:a@b.c">m</a>');
+  });
+
+  it('should unwrap unknown tags and escape stray markup characters', () => {
+    expect(clean('<section><p>1 < 2 & 3 &amp; 4</p></section><!-- note -->')).toBe('<p>1 &lt; 2 &amp; 3 &amp; 4</p>');
+  });
+
+  it('should not treat Object.prototype keys as allowed tags', () => {
+    expect(clean('<constructor onclick="x">t</constructor>')).toBe('t');
+  });
+
+  it('should close unbalanced tags and ignore stray end tags', () => {
+    expect(clean('<p><em>open</p></li>')).toBe('<p><em>open</em></p>');
+  });
+});
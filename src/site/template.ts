@@ -0,0 +1,228 @@
+/**
+ * Safe HTML templating for the site generator
+ * - Every interpolated value is escaped unless it is explicitly marked as trusted HTML
+ * - `html` tagged templates build trusted fragments from escaped parts
+ * - `renderTemplate` fills {{placeholders}} in one pass, so `$` sequences in values are literal
+ * - `sanitizeHtml` reduces scraped journal HTML to an allowlist of tags and attributes
+ */
+
+/**
+ * HTML that is already safe to emit as-is
+ * Only `html`, `trustedHtml` and `sanitizeHtml` create these
+ */
+export class SafeHtml {
+  constructor(public readonly value: string) {}
+
+  toString(): string {
+    return this.value;
+  }
+}
+
+export type TemplateValue = string | number | SafeHtml | null | undefined | TemplateValue[];
+
+const ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * Escape text for use in element content and quoted attribute values
+ */
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => ESCAPES[char]);
+}
+
+/**
+ * Mark a string as trusted HTML (generator-built markup, never scraped or user content)
+ */
+export function trustedHtml(value: string): SafeHtml {
+  return new SafeHtml(value);
+}
+
+function renderValue(value: TemplateValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof SafeHtml) return value.value;
+  if (Array.isArray(value)) return value.map(renderValue).join('');
+  return escapeHtml(String(value));
+}
+
+/**
+ * Tagged template that escapes each interpolation (arrays are joined, SafeHtml passes through)
+ */
+export function html(strings: TemplateStringsArray, ...values: TemplateValue[]): SafeHtml {
+  let out = strings[0];
+  for (let i = 0; i < values.length; i++) {
+    out += renderValue(values[i]) + strings[i + 1];
+  }
+  return new SafeHtml(out);
+}
+
+/**
+ * Fill the {{name}} placeholders of a page template
+ * @throws Error if the template references a value that was not supplied
+ */
+export function renderTemplate(template: string, values: Record<string, TemplateValue>): string {
+  return template.replace(/{{(\w+)}}/g, (_match, name: string) => {
+    if (!Object.prototype.hasOwnProperty.call(values, name)) {
+      throw new Error(`Template placeholder {{${name}}} has no value`);
+    }
+    return renderValue(values[name]);
+  });
+}
+
+/** Tags kept by sanitizeHtml, with the attributes each may carry */
+const ALLOWED_TAGS = new Map<string, string[]>(Object.entries({
+  a: ['href', 'title'],
+  img: ['src', 'alt', 'title', 'width', 'height'],
+  p: [],
+  br: [],
+  hr: [],
+  div: [],
+  span: [],
+  em: [],
+  strong: [],
+  b: [],
+  i: [],
+  u: [],
+  s: [],
+  sub: [],
+  sup: [],
+  blockquote: [],
+  pre: [],
+  code: [],
+  ul: [],
+  ol: [],
+  li: [],
+  h1: [],
+  h2: [],
+  h3: [],
+  h4: [],
+  h5: [],
+  h6: [],
+  figure: [],
+  figcaption: [],
+}));
+
+const VOID_TAGS = new Set(['br', 'hr', 'img']);
+
+/** Tags dropped together with everything inside them */
+const DROP_WITH_CONTENT = new Set([
+  'script',
+  'style',
+  'iframe',
+  'object',
+  'embed',
+  'template',
+  'noscript',
+  'svg',
+  'math',
+  'textarea',
+  'select',
+]);
+
+const URL_ATTRIBUTES = new Set(['href', 'src']);
+const SAFE_URL = /^(?:https?:|mailto:|[^a-z]*$|[^:]*(?:[/?#]|$))/i;
+
+/**
+ * Decode numeric and basic named character references
+ */
+export function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos|nbsp);?/gi, (match, entity: string) => {
+    const lower = entity.toLowerCase();
+    if (lower.startsWith('#x')) return String.fromCodePoint(parseInt(lower.slice(2), 16) || 0xfffd);
+    if (lower.startsWith('#')) return String.fromCodePoint(parseInt(lower.slice(1), 10) || 0xfffd);
+    return { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0' }[lower] ?? match;
+  });
+}
+
+/**
+ * Whether a URL uses an allowed scheme (http, https, mailto) or is relative
+ * Control characters and whitespace are removed first, as browsers ignore them in schemes
+ */
+function isSafeUrl(value: string): boolean {
+  const compact = decodeEntities(value).replace(/[\u0000- \u007f]/g, '');
+  return SAFE_URL.test(compact);
+}
+
+/**
+ * Escape text content while keeping entities that are already well-formed
+ */
+function escapeText(text: string): string {
+  return text
+    .replace(/&(?!(?:#\d+|#x[0-9a-f]+|[a-z][a-z0-9]*);)/gi, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function sanitizeAttributes(tag: string, source: string): string {
+  const allowed = ALLOWED_TAGS.get(tag) ?? [];
+  const attributes: string[] = [];
+  const pattern = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+  for (const match of source.matchAll(pattern)) {
+    const name = match[1].toLowerCase();
+    if (!allowed.includes(name)) continue;
+
+    const value = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+    if (URL_ATTRIBUTES.has(name) && !isSafeUrl(value)) continue;
+
+    attributes.push(` ${name}="${escapeHtml(value)}"`);
+  }
+
+  return attributes.join('');
+}
+
+/**
+ * Reduce untrusted HTML to an allowlist of formatting tags
+ * Disallowed tags are unwrapped (their text kept); scripts, styles and embeds
+ * are removed with their content; only href/src with http(s), mailto or
+ * relative URLs survive; every other attribute (including on* handlers) is dropped
+ */
+export function sanitizeHtml(input: string): SafeHtml {
+  const out: string[] = [];
+  const open: string[] = [];
+  const tokenPattern = /<!--[\s\S]*?(?:-->|$)|<![^>]*>?|<\?[^>]*>?|<\/?([a-zA-Z][a-zA-Z0-9-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+  let position = 0;
+  let dropping: string | null = null;
+
+  for (const match of input.matchAll(tokenPattern)) {
+    const text = input.slice(position, match.index);
+    position = match.index! + match[0].length;
+    if (!dropping && text) out.push(escapeText(text));
+
+    const name = match[1]?.toLowerCase();
+    if (!name) continue; // comment, doctype or processing instruction
+
+    const isEnd = match[0].startsWith('</');
+
+    if (dropping) {
+      if (isEnd && name === dropping) dropping = null;
+      continue;
+    }
+    if (DROP_WITH_CONTENT.has(name)) {
+      const selfClosing = /\/\s*$/.test(match[2] ?? '');
+      if (!isEnd && !selfClosing) dropping = name;
+      continue;
+    }
+    if (!ALLOWED_TAGS.has(name)) continue;
+
+    if (isEnd) {
+      const index = open.lastIndexOf(name);
+      if (index === -1) continue;
+      // Close anything left open inside this element
+      while (open.length > index) out.push(`</${open.pop()}>`);
+      continue;
+    }
+
+    out.push(`<${name}${sanitizeAttributes(name, match[2] ?? '')}>`);
+    if (!VOID_TAGS.has(name)) open.push(name);
+  }
+
+  if (!dropping) out.push(escapeText(input.slice(position)));
+  while (open.length > 0) out.push(`</${open.pop()}>`);
+
+  return new SafeHtml(out.join(''));
+}
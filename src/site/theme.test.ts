@@ -0,0 +1,69 @@
+/**
+ * Tests for theme loading, partials, helpers and placeholder validation
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { loadTheme } from './theme.js';
+import { InvalidInputError } from '../utils/errors.js';
+
+/** The generator's own directory, holding the built-in templates/ and assets/ */
+const BUILTIN_DIR = join(process.cwd(), 'src/site');
+
+describe('loadTheme', () => {
+  let themeDir: string;
+
+  beforeEach(async () => {
+    themeDir = await mkdtemp(join(tmpdir(), 'vsco-theme-'));
+  });
+
+  afterEach(async () => {
+    await rm(themeDir, { recursive: true, force: true });
+  });
+
+  it('should accept the built-in theme and expand its asset helpers', async () => {
+    const theme = await loadTheme(BUILTIN_DIR);
+
+    expect(theme.templates.photo).toContain('src="{{assets}}lightbox.js"');
+    expect(theme.templates.index).not.toContain('{{asset:');
+    expect(theme.assetDirs).toEqual([join(BUILTIN_DIR, 'assets')]);
+  });
+
+  it('should use theme overrides and partials and fall back to built-in templates', async () => {
+    await mkdir(join(themeDir, 'partials'));
+    await mkdir(join(themeDir, 'assets'));
+    await writeFile(join(themeDir, 'partials', 'header.html'), '<header>{{username}} {{> logo}}</header>');
+    await writeFile(join(themeDir, 'partials', 'logo.html'), '<img src="{{asset:logo.png}}">');
+    await writeFile(join(themeDir, 'index.html'), '{{> header}}<main>{{photoGrid}}</main>');
+
+    const theme = await loadTheme(BUILTIN_DIR, themeDir);
+
+    expect(theme.templates.index).toBe('<header>{{username}} <img src="{{assets}}logo.png"></header><main>{{photoGrid}}</main>');
+    expect(theme.templates.blog).toContain('{{content}}');
+    expect(theme.assetDirs).toEqual([join(BUILTIN_DIR, 'assets'), join(themeDir, 'assets')]);
+  });
+
+  it('should report every invalid template before generation starts', async () => {
+    await writeFile(join(themeDir, 'blog.html'), '<h1>{{title}}</h1>');
+    await writeFile(join(themeDir, 'gallery.html'), '{{photoGrid}} {{galeryName}} {{> footer}}');
+
+    const error = await loadTheme(BUILTIN_DIR, themeDir).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(InvalidInputError);
+    const message = (error as Error).message;
+    expect(message).toContain('blog.html is missing required placeholder {{content}}');
+    expect(message).toContain('gallery.html uses unknown placeholder {{galeryName}}');
+    expect(message).toContain('gallery.html includes missing partial "footer"');
+  });
+
+  it('should reject recursive partials and a missing theme directory', async () => {
+    await mkdir(join(themeDir, 'partials'));
+    await writeFile(join(themeDir, 'partials', 'loop.html'), '{{> loop}}');
+    await writeFile(join(themeDir, 'photo.html'), '{{media}}{{> loop}}');
+
+    await expect(loadTheme(BUILTIN_DIR, themeDir)).rejects.toThrow('includes partial "loop" recursively');
+    await expect(loadTheme(BUILTIN_DIR, join(themeDir, 'missing'))).rejects.toThrow('Directory not found');
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Site themes: page templates, partials and assets
+ * - The built-in theme lives next to the generator (templates/, assets/)
+ * - A user theme directory may override any page template, add partials
+ *   (partials/<name>.html) and add or replace assets (assets/)
+ * - Templates are checked against the documented placeholders before any page is written
+ */
+
+import { readFile, readdir, stat } from 'fs/promises';
+import { join } from 'path';
+import { InvalidInputError } from '../utils/errors.js';
+
+export type TemplateName = 'index' | 'gallery' | 'blog' | 'photo' | 'archive' | 'search' | 'whats-new';
+
+export const TEMPLATE_NAMES: TemplateName[] = ['index', 'gallery', 'blog', 'photo', 'archive', 'search', 'whats-new'];
+
+/** Placeholders available in every template */
+export const COMMON_VARIABLES = ['root', 'assets', 'username', 'lastBackup'];
+
+/** Page-specific placeholders each template may use */
+export const TEMPLATE_VARIABLES: Record<TemplateName, string[]> = {
+  index: ['displayName', 'avatar', 'bio', 'profileLinks', 'photoGrid', 'archiveLinks', 'galleryList', 'blogList'],
+  gallery: ['galleryName', 'galleryDescription', 'lastUpdated', 'photoGrid'],
+  blog: ['title', 'publishDate', 'content'],
+  photo: ['title', 'prevRel', 'nextRel', 'prevLink', 'nextLink', 'media', 'caption', 'details', 'galleries'],
+  archive: ['title', 'heading', 'summary', 'photoGrid', 'pagination', 'archiveNav'],
+  search: ['searchIndex', 'entryCount'],
+  'whats-new': ['title', 'summary', 'changes'],
+};
+
+/** Placeholders a template must contain, or its page would lose its content */
+export const REQUIRED_VARIABLES: Record<TemplateName, string[]> = {
+  index: ['photoGrid'],
+  gallery: ['photoGrid'],
+  blog: ['content'],
+  photo: ['media'],
+  archive: ['photoGrid', 'pagination'],
+  search: ['searchIndex'],
+  'whats-new': ['changes'],
+};
+
+export interface Theme {
+  /** Page templates with partials and helpers already expanded */
+  templates: Record<TemplateName, string>;
+  /** Asset directories to copy into the site, later ones overriding earlier ones */
+  assetDirs: string[];
+}
+
+const PARTIAL_PATTERN = /{{>\s*([\w-]+)\s*}}/g;
+const ASSET_PATTERN = /{{asset:\s*([^}\s]+)\s*}}/g;
+const ANY_TAG_PATTERN = /{{[^}]*}}/g;
+
+async function isDirectory(path: string): Promise<boolean> {
+  try {
+    return (await stat(path)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+async function readIfExists(path: string): Promise<string | null> {
+  try {
+    return await readFile(path, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+async function readPartials(dir: string): Promise<Map<string, string>> {
+  const partials = new Map<string, string>();
+  if (!(await isDirectory(dir))) return partials;
+
+  for (const file of await readdir(dir)) {
+    if (!file.endsWith('.html')) continue;
+    partials.set(file.slice(0, -'.html'.length), await readFile(join(dir, file), 'utf-8'));
+  }
+  return partials;
+}
+
+/**
+ * Inline {{> partial}} includes (recursively) and turn {{asset:path}} into {{assets}}path
+ * Problems (missing or self-including partials) are appended to `problems`
+ */
+export function expandTemplate(
+  source: string,
+  partials: Map<string, string>,
+  problems: string[],
+  label: string,
+  including: string[] = []
+): string {
+  const expanded = source.replace(PARTIAL_PATTERN, (_match, name: string) => {
+    const partial = partials.get(name);
+    if (partial === undefined) {
+      problems.push(`${label} includes missing partial "${name}"`);
+      return '';
+    }
+    if (including.includes(name)) {
+      problems.push(`${label} includes partial "${name}" recursively`);
+      return '';
+    }
+    return expandTemplate(partial, partials, problems, label, [...including, name]);
+  });
+
+  return expanded.replace(ASSET_PATTERN, (_match, path: string) => `{{assets}}${path}`);
+}
+
+/**
+ * Check an expanded template's placeholders against the documented variables
+ */
+export function validateTemplate(name: TemplateName, template: string, problems: string[]): void {
+  const label = `${name}.html`;
+  const allowed = new Set([...COMMON_VARIABLES, ...TEMPLATE_VARIABLES[name]]);
+  const used = new Set<string>();
+
+  for (const tag of template.match(ANY_TAG_PATTERN) ?? []) {
+    const placeholder = /^{{(\w+)}}$/.exec(tag);
+    if (!placeholder) {
+      problems.push(`${label} has malformed tag ${tag}`);
+    } else if (!allowed.has(placeholder[1])) {
+      problems.push(`${label} uses unknown placeholder ${tag}`);
+    } else {
+      used.add(placeholder[1]);
+    }
+  }
+
+  for (const required of REQUIRED_VARIABLES[name]) {
+    if (!used.has(required)) {
+      problems.push(`${label} is missing required placeholder {{${required}}}`);
+    }
+  }
+}
+
+/**
+ * Load the built-in theme, overlaid with a user theme directory when given
+ * @param builtinDir - Directory containing the built-in templates/ and assets/
+ * @param themeDir - User theme: page templates at its root, plus optional partials/ and assets/
+ * @throws InvalidInputError if the theme directory is missing or any template is invalid
+ */
+export async function loadTheme(builtinDir: string, themeDir?: string): Promise<Theme> {
+  if (themeDir && !(await isDirectory(themeDir))) {
+    throw InvalidInputError.fromInvalidTheme(themeDir, ['Directory not found']);
+  }
+
+  const builtinTemplates = join(builtinDir, 'templates');
+  const partials = await readPartials(join(builtinTemplates, 'partials'));
+  if (themeDir) {
+    for (const [name, partial] of await readPartials(join(themeDir, 'partials'))) {
+      partials.set(name, partial);
+    }
+  }
+
+  const problems: string[] = [];
+  const templates = {} as Record<TemplateName, string>;
+
+  for (const name of TEMPLATE_NAMES) {
+    const file = `${name}.html`;
+    const override = themeDir ? await readIfExists(join(themeDir, file)) : null;
+    const source = override ?? (await readFile(join(builtinTemplates, file), 'utf-8'));
+
+    templates[name] = expandTemplate(source, partials, problems, file);
+    validateTemplate(name, templates[name], problems);
+  }
+
+  if (problems.length > 0) {
+    throw InvalidInputError.fromInvalidTheme(themeDir ?? builtinDir, problems);
+  }
+
+  const assetDirs = [join(builtinDir, 'assets')];
+  if (themeDir && (await isDirectory(join(themeDir, 'assets')))) {
+    assetDirs.push(join(themeDir, 'assets'));
+  }
+
+  return { templates, assetDirs };
+}
@@ -3,7 +3,8 @@
  * Validates detection of blocked/challenge HTML responses
  */
 
-import { isCloudflareBlocked, ResponseLike } from './cloudflare-block';
+import { describe, it, expect, jest } from '@jest/globals';
+import { detectCloudflareBlock, isCloudflareBlocked, ResponseLike } from './cloudflare-block';
 
 describe('cloudflare-block', () => {
   describe('isCloudflareBlocked', () => {
@@ -365,4 +366,32 @@ describe('cloudflare-block', () => {
       });
     });
   });
+
+  describe('detectCloudflareBlock', () => {
+    const response = (status: number, contentType: string, body: string): ResponseLike => ({
+      status,
+      headers: { get: (name: string) => (name.toLowerCase() === 'content-type' ? contentType : null) },
+      text: async () => body,
+    });
+
+    it('should report the marker found in a blocked HTML body', async () => {
+      expect(await detectCloudflareBlock(response(200, 'text/html', '<title>Attention Required! | Cloudflare</title>'))).toEqual({
+        marker: 'Attention Required! | Cloudflare',
+      });
+    });
+
+    it('should flag a 403 without reading the body', async () => {
+      const text = jest.fn(async () => 'cf-ray');
+
+      expect(await detectCloudflareBlock({ ...response(403, 'text/html', ''), text })).toEqual({});
+      expect(text).not.toHaveBeenCalled();
+    });
+
+    it('should not read media bodies', async () => {
+      const text = jest.fn(async () => '');
+
+      expect(await detectCloudflareBlock({ ...response(200, 'image/jpeg', ''), text })).toBeNull();
+      expect(text).not.toHaveBeenCalled();
+    });
+  });
 });
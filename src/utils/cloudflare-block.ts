@@ -34,26 +34,51 @@ const CLOUDFLARE_MARKERS = [
 const MAX_BODY_BYTES = 8192;
 
 /**
- * Detects if an HTTP response is a Cloudflare block/challenge page
+ * Cloudflare block found in a response
+ */
+export interface CloudflareBlock {
+  /** Marker found in the body; absent when the status alone (403) gave the block away */
+  marker?: string;
+}
+
+/**
+ * Find the first Cloudflare block marker in a response body snippet
+ * Only the first MAX_BODY_BYTES characters are inspected
+ *
+ * @param bodyText Response body text
+ * @returns The matched marker, or null if none is present
+ */
+function findCloudflareMarker(bodyText: string): string | null {
+  const bodyLower = bodyText.substring(0, MAX_BODY_BYTES).toLowerCase();
+  for (const marker of CLOUDFLARE_MARKERS) {
+    if (bodyLower.includes(marker.toLowerCase())) {
+      return marker;
+    }
+  }
+  return null;
+}
+
+/**
+ * Detect a Cloudflare block/challenge page, shared by the Node and Playwright transports
  *
  * Detection rules (conservative - prefer false negatives):
- * 1. Status 403 → blocked (fast path)
- * 2. Status 200 + content-type contains 'text/html' + body contains Cloudflare markers → blocked
- * 3. Otherwise → not blocked
+ * 1. Status 403 → blocked (fast path, body not read)
+ * 2. Content-type contains 'text/html' + body contains Cloudflare markers → blocked
+ * 3. Otherwise → not blocked (non-HTML bodies are never read)
  *
  * @param response Response-like object with status, headers, and optional body
- * @returns true if response is classified as blocked, false otherwise
+ * @returns The block, or null if the response is not classified as blocked
  */
-export async function isCloudflareBlocked(response: ResponseLike): Promise<boolean> {
+export async function detectCloudflareBlock(response: ResponseLike): Promise<CloudflareBlock | null> {
   // Fast path: 403 is always blocked
   if (response.status === 403) {
-    return true;
+    return {};
   }
 
   // Only check HTML responses for markers
   const contentType = response.headers.get('content-type') || '';
   if (!contentType.toLowerCase().includes('text/html')) {
-    return false;
+    return null;
   }
 
   // For HTML responses, check body for Cloudflare markers
@@ -75,20 +100,25 @@ export async function isCloudflareBlocked(response: ResponseLike): Promise<boole
     }
     // If no body reading method available, assume not blocked (conservative)
     else {
-      return false;
+      return null;
     }
 
     // Check for Cloudflare markers (case-insensitive)
-    const bodyLower = bodyText.toLowerCase();
-    for (const marker of CLOUDFLARE_MARKERS) {
-      if (bodyLower.includes(marker.toLowerCase())) {
-        return true;
-      }
-    }
-
-    return false;
+    const marker = findCloudflareMarker(bodyText);
+    return marker ? { marker } : null;
   } catch (error) {
     // If we can't read the body, assume not blocked (conservative)
-    return false;
+    return null;
   }
 }
+
+/**
+ * Detects if an HTTP response is a Cloudflare block/challenge page
+ * (see detectCloudflareBlock for the rules)
+ *
+ * @param response Response-like object with status, headers, and optional body
+ * @returns true if response is classified as blocked, false otherwise
+ */
+export async function isCloudflareBlocked(response: ResponseLike): Promise<boolean> {
+  return (await detectCloudflareBlock(response)) !== null;
+}
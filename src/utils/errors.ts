@@ -6,7 +6,7 @@
  * - details: optional verbose details
  */
 
-import { getLogger } from './logger';
+import { getLogger } from './logger.js';
 
 /**
  * Base error class with exit code
@@ -73,6 +73,64 @@ export class InvalidInputError extends VSCOBackupError {
       `Ensure the directory exists and you have write permissions`
     );
   }
+
+  static fromMissingBackup(backupRoot: string): InvalidInputError {
+    return new InvalidInputError(
+      `No backup found at "${backupRoot}"`,
+      `Run a backup first, or point --out-root at the directory that contains it`
+    );
+  }
+
+  static fromNoResumableRun(username: string, runId?: string): InvalidInputError {
+    return new InvalidInputError(
+      runId
+        ? `Run ${runId} for ${username} cannot be resumed (not found, or it already finished)`
+        : `No interrupted backup run to resume for ${username}`,
+      `Run "vsco-backup history ${username}" to list runs, or start a new backup without --resume`
+    );
+  }
+
+  static fromProfilesFile(path: string, reason: string): InvalidInputError {
+    return new InvalidInputError(
+      `Invalid profiles file: "${path}". ${reason}`,
+      `List one profile URL per line, or use JSON/YAML with a "profiles" array`
+    );
+  }
+
+  static fromNewerManifest(path: string, version: string, supported: string): InvalidInputError {
+    return new InvalidInputError(
+      `Manifest "${path}" has schema version ${version}, newer than this version supports (${supported})`,
+      `It was written by a newer vsco-backup; upgrade before using this backup. The file was left untouched`
+    );
+  }
+
+  static fromUnsupportedManifestVersion(path: string, version: string, supported: string): InvalidInputError {
+    return new InvalidInputError(
+      `Manifest "${path}" has schema version ${version}, which cannot be upgraded to ${supported}`,
+      `No migration path exists from this version. The file was left untouched`
+    );
+  }
+
+  static fromCorruptManifest(path: string, reason: string): InvalidInputError {
+    return new InvalidInputError(
+      `Manifest "${path}" is corrupt: ${reason}`,
+      `Restore it from .vsco-backup/manifest-backups/, or run a backup, which moves it to .vsco-backup/quarantine/ and starts a new manifest`
+    );
+  }
+
+  static fromFixtureBundle(path: string, reason: string): InvalidInputError {
+    return new InvalidInputError(
+      `Invalid fixture bundle: "${path}". ${reason}`,
+      `Record one with --record-fixtures <dir>; bundles are named <username>.har.json`
+    );
+  }
+
+  static fromInvalidTheme(path: string, problems: string[]): InvalidInputError {
+    return new InvalidInputError(
+      `Invalid theme: "${path}". ${problems.join('; ')}`,
+      `See "Themes" in the README for the templates, placeholders and helpers a theme may use`
+    );
+  }
 }
 
 /**
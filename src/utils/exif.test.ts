@@ -0,0 +1,167 @@
+/**
+ * Tests for image metadata extraction
+ * Builds minimal big-endian TIFF/JPEG and PNG headers in memory
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { parseExif, readJpegMetadata, readPngMetadata, readImageMetadata } from './exif.js';
+
+type Entry = { tag: number; ascii?: string; long?: number; short?: number; rational?: [number, number] };
+
+/**
+ * Lay out one IFD at `start`, with out-of-line values following its entry table
+ */
+function ifd(start: number, entries: Entry[]): Buffer {
+  const tableSize = 2 + entries.length * 12 + 4;
+  const table = Buffer.alloc(tableSize);
+  const extra: Buffer[] = [];
+  let extraAt = start + tableSize;
+
+  table.writeUInt16BE(entries.length, 0);
+  entries.forEach((entry, i) => {
+    const at = 2 + i * 12;
+    table.writeUInt16BE(entry.tag, at);
+
+    if (entry.ascii !== undefined) {
+      const value = Buffer.from(`${entry.ascii}\0`, 'latin1');
+      table.writeUInt16BE(2, at + 2);
+      table.writeUInt32BE(value.length, at + 4);
+      if (value.length <= 4) {
+        value.copy(table, at + 8);
+      } else {
+        table.writeUInt32BE(extraAt, at + 8);
+        extra.push(value);
+        extraAt += value.length;
+      }
+    } else if (entry.rational) {
+      const value = Buffer.alloc(8);
+      value.writeUInt32BE(entry.rational[0], 0);
+      value.writeUInt32BE(entry.rational[1], 4);
+      table.writeUInt16BE(5, at + 2);
+      table.writeUInt32BE(1, at + 4);
+      table.writeUInt32BE(extraAt, at + 8);
+      extra.push(value);
+      extraAt += 8;
+    } else if (entry.short !== undefined) {
+      table.writeUInt16BE(3, at + 2);
+      table.writeUInt32BE(1, at + 4);
+      table.writeUInt16BE(entry.short, at + 8);
+    } else {
+      table.writeUInt16BE(4, at + 2);
+      table.writeUInt32BE(1, at + 4);
+      table.writeUInt32BE(entry.long ?? 0, at + 8);
+    }
+  });
+
+  return Buffer.concat([table, ...extra]);
+}
+
+function buildTiff(): Buffer {
+  const header = Buffer.from([0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08]);
+  const ifd0Entries = (exifAt: number): Entry[] => [
+    { tag: 0x010f, ascii: 'FUJIFILM' },
+    { tag: 0x0110, ascii: 'X100V' },
+    { tag: 0x8769, long: exifAt },
+  ];
+  // Lay out IFD0 once to learn where the Exif sub-IFD starts
+  const exifAt = 8 + ifd(8, ifd0Entries(0)).length;
+  const sub = ifd(exifAt, [
+    { tag: 0x829a, rational: [1, 250] },
+    { tag: 0x829d, rational: [28, 10] },
+    { tag: 0x8827, short: 400 },
+    { tag: 0x9003, ascii: '2023:06:14 18:42:07' },
+    { tag: 0x9011, ascii: '+02:00' },
+    { tag: 0x920a, rational: [23, 1] },
+  ]);
+  return Buffer.concat([header, ifd(8, ifd0Entries(exifAt)), sub]);
+}
+
+function segment(marker: number, payload: Buffer): Buffer {
+  const head = Buffer.from([0xff, marker, 0, 0]);
+  head.writeUInt16BE(payload.length + 2, 2);
+  return Buffer.concat([head, payload]);
+}
+
+function buildJpeg(width: number, height: number, withExif = true): Buffer {
+  const sof = Buffer.from([8, 0, 0, 0, 0, 3]);
+  sof.writeUInt16BE(height, 1);
+  sof.writeUInt16BE(width, 3);
+  return Buffer.concat([
+    Buffer.from([0xff, 0xd8]),
+    ...(withExif ? [segment(0xe1, Buffer.concat([Buffer.from('Exif\0\0', 'latin1'), buildTiff()]))] : []),
+    segment(0xc0, sof),
+    segment(0xda, Buffer.alloc(8)),
+    Buffer.alloc(64, 0x55),
+    Buffer.from([0xff, 0xd9]),
+  ]);
+}
+
+describe('parseExif', () => {
+  it('should decode camera, exposure and capture time', () => {
+    expect(parseExif(buildTiff())).toEqual({
+      make: 'FUJIFILM',
+      model: 'X100V',
+      exposureTime: '1/250',
+      aperture: 2.8,
+      iso: 400,
+      focalLength: 23,
+      capturedAt: '2023-06-14T18:42:07+02:00',
+    });
+  });
+
+  it('should return undefined for data that is not TIFF', () => {
+    expect(parseExif(Buffer.from('not a tiff header'))).toBeUndefined();
+  });
+});
+
+describe('readJpegMetadata', () => {
+  it('should read dimensions from the SOF marker alongside EXIF', () => {
+    const metadata = readJpegMetadata(buildJpeg(1600, 1067));
+
+    expect(metadata.width).toBe(1600);
+    expect(metadata.height).toBe(1067);
+    expect(metadata.exif?.model).toBe('X100V');
+  });
+
+  it('should leave EXIF unset when the file has none', () => {
+    expect(readJpegMetadata(buildJpeg(640, 480, false))).toEqual({ width: 640, height: 480 });
+  });
+});
+
+describe('readPngMetadata', () => {
+  it('should read dimensions from IHDR', () => {
+    const ihdr = Buffer.alloc(13);
+    ihdr.writeUInt32BE(320, 0);
+    ihdr.writeUInt32BE(200, 4);
+    const png = Buffer.concat([
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13]),
+      Buffer.from('IHDR', 'latin1'),
+      ihdr,
+    ]);
+
+    expect(readPngMetadata(png)).toEqual({ width: 320, height: 200 });
+  });
+});
+
+describe('readImageMetadata', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(join(tmpdir(), 'vsco-exif-'));
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should read a JPEG from disk and skip other formats', async () => {
+    const filePath = join(testDir, 'photo.jpg');
+    await writeFile(filePath, buildJpeg(800, 600));
+
+    expect((await readImageMetadata(filePath, 'image/jpeg')).exif?.iso).toBe(400);
+    expect(await readImageMetadata(filePath, 'video/mp4')).toEqual({});
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Minimal image metadata reader: pixel dimensions and camera EXIF
+ * - JPEG: SOF marker for dimensions, APP1 Exif segment (TIFF IFD0 + Exif sub-IFD) for camera data
+ * - PNG: IHDR chunk for dimensions
+ * - Only the tags the backup records are decoded; everything else is skipped
+ */
+
+import { open } from 'fs/promises';
+
+/** Bytes read from the start of a file; EXIF and SOF sit well inside this for camera JPEGs */
+const METADATA_READ_BYTES = 256 * 1024;
+
+/**
+ * Camera data from EXIF or the VSCO API (camelCase, like other discovery types)
+ */
+export interface ExifData {
+  make?: string;
+  model?: string;
+  lens?: string;
+  /** f-number, e.g. 2.8 */
+  aperture?: number;
+  /** Exposure time as a fraction string, e.g. "1/125" */
+  exposureTime?: string;
+  iso?: number;
+  /** Focal length in millimetres */
+  focalLength?: number;
+  /** Capture time (ISO 8601; without an offset when the camera did not record one) */
+  capturedAt?: string;
+}
+
+export interface ImageMetadata {
+  width?: number;
+  height?: number;
+  exif?: ExifData;
+}
+
+const TAG = {
+  MAKE: 0x010f,
+  MODEL: 0x0110,
+  EXIF_IFD: 0x8769,
+  EXPOSURE_TIME: 0x829a,
+  F_NUMBER: 0x829d,
+  ISO: 0x8827,
+  DATE_TIME_ORIGINAL: 0x9003,
+  OFFSET_TIME_ORIGINAL: 0x9011,
+  FOCAL_LENGTH: 0x920a,
+  LENS_MODEL: 0xa434,
+} as const;
+
+/** Byte size of each TIFF field type */
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+type TagValue = string | number | [number, number];
+
+/**
+ * Read the entries of one IFD into a tag → value map
+ */
+function readIfd(tiff: Buffer, offset: number, little: boolean): Map<number, TagValue> {
+  const values = new Map<number, TagValue>();
+  const u16 = (at: number) => (little ? tiff.readUInt16LE(at) : tiff.readUInt16BE(at));
+  const u32 = (at: number) => (little ? tiff.readUInt32LE(at) : tiff.readUInt32BE(at));
+
+  if (offset + 2 > tiff.length) return values;
+  const count = u16(offset);
+
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    if (entry + 12 > tiff.length) break;
+
+    const tag = u16(entry);
+    const type = u16(entry + 2);
+    const components = u32(entry + 4);
+    const size = (TYPE_SIZES[type] ?? 0) * components;
+    if (size === 0) continue;
+
+    const dataAt = size <= 4 ? entry + 8 : u32(entry + 8);
+    if (dataAt + size > tiff.length) continue;
+
+    switch (type) {
+      case 2:
+        values.set(tag, tiff.toString('latin1', dataAt, dataAt + size).replace(/\0+$/, '').trim());
+        break;
+      case 3:
+        values.set(tag, u16(dataAt));
+        break;
+      case 4:
+        values.set(tag, u32(dataAt));
+        break;
+      case 5:
+        values.set(tag, [u32(dataAt), u32(dataAt + 4)]);
+        break;
+    }
+  }
+
+  return values;
+}
+
+function rationalToNumber(value: TagValue | undefined): number | undefined {
+  if (!Array.isArray(value) || value[1] === 0) return undefined;
+  return Math.round((value[0] / value[1]) * 100) / 100;
+}
+
+function formatExposure(value: TagValue | undefined): string | undefined {
+  if (!Array.isArray(value) || value[0] === 0 || value[1] === 0) return undefined;
+  const seconds = value[0] / value[1];
+  return seconds >= 1 ? `${Math.round(seconds * 10) / 10}` : `1/${Math.round(1 / seconds)}`;
+}
+
+/**
+ * Convert an EXIF "YYYY:MM:DD HH:MM:SS" timestamp (plus optional offset) to ISO 8601
+ */
+function formatExifDate(value: TagValue | undefined, offset: TagValue | undefined): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match || match[1] === '0000') return undefined;
+
+  const [, y, mo, d, h, mi, s] = match;
+  const zone = typeof offset === 'string' && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : '';
+  return `${y}-${mo}-${d}T${h}:${mi}:${s}${zone}`;
+}
+
+/**
+ * Decode camera data from a TIFF structure (the payload of a JPEG Exif segment)
+ */
+export function parseExif(tiff: Buffer): ExifData | undefined {
+  if (tiff.length < 8) return undefined;
+
+  const order = tiff.toString('latin1', 0, 2);
+  if (order !== 'II' && order !== 'MM') return undefined;
+  const little = order === 'II';
+
+  const ifd0Offset = little ? tiff.readUInt32LE(4) : tiff.readUInt32BE(4);
+  const ifd0 = readIfd(tiff, ifd0Offset, little);
+  const exifOffset = ifd0.get(TAG.EXIF_IFD);
+  const sub = typeof exifOffset === 'number' ? readIfd(tiff, exifOffset, little) : new Map<number, TagValue>();
+
+  const text = (value: TagValue | undefined) => (typeof value === 'string' && value ? value : undefined);
+  const exif: ExifData = {
+    make: text(ifd0.get(TAG.MAKE)),
+    model: text(ifd0.get(TAG.MODEL)),
+    lens: text(sub.get(TAG.LENS_MODEL)),
+    aperture: rationalToNumber(sub.get(TAG.F_NUMBER)),
+    exposureTime: formatExposure(sub.get(TAG.EXPOSURE_TIME)),
+    iso: typeof sub.get(TAG.ISO) === 'number' ? (sub.get(TAG.ISO) as number) : undefined,
+    focalLength: rationalToNumber(sub.get(TAG.FOCAL_LENGTH)),
+    capturedAt: formatExifDate(sub.get(TAG.DATE_TIME_ORIGINAL), sub.get(TAG.OFFSET_TIME_ORIGINAL)),
+  };
+
+  const present = Object.fromEntries(Object.entries(exif).filter(([, value]) => value !== undefined));
+  return Object.keys(present).length > 0 ? (present as ExifData) : undefined;
+}
+
+/**
+ * Walk JPEG markers up to the start of scan, collecting dimensions and EXIF
+ */
+export function readJpegMetadata(data: Buffer): ImageMetadata {
+  const metadata: ImageMetadata = {};
+  let offset = 2;
+
+  while (offset + 4 <= data.length) {
+    if (data[offset] !== 0xff) break;
+    const marker = data[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0xda || marker === 0xd9) break;
+
+    const length = data.readUInt16BE(offset + 2);
+    const segment = offset + 4;
+
+    if (marker === 0xe1 && data.toString('latin1', segment, segment + 6) === 'Exif\0\0') {
+      metadata.exif = parseExif(data.subarray(segment + 6, Math.min(data.length, offset + 2 + length)));
+    }
+
+    // SOF0-SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+    const isSof = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isSof && segment + 5 <= data.length) {
+      metadata.height = data.readUInt16BE(segment + 1);
+      metadata.width = data.readUInt16BE(segment + 3);
+    }
+
+    offset += 2 + length;
+  }
+
+  return metadata;
+}
+
+/**
+ * Read dimensions from a PNG IHDR chunk
+ */
+export function readPngMetadata(data: Buffer): ImageMetadata {
+  if (data.length < 24 || data.toString('latin1', 12, 16) !== 'IHDR') return {};
+  return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+}
+
+/**
+ * Read dimensions and EXIF from an image file
+ * @param filePath - Path to a JPEG or PNG file
+ * @param mimeType - Detected MIME type; other formats return no metadata
+ */
+export async function readImageMetadata(filePath: string, mimeType?: string): Promise<ImageMetadata> {
+  if (mimeType !== 'image/jpeg' && mimeType !== 'image/png') {
+    return {};
+  }
+
+  const handle = await open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(METADATA_READ_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, METADATA_READ_BYTES, 0);
+    const data = buffer.subarray(0, bytesRead);
+    return mimeType === 'image/jpeg' ? readJpegMetadata(data) : readPngMetadata(data);
+  } finally {
+    await handle.close();
+  }
+}
@@ -5,30 +5,41 @@
 export { getLogger, resetLogger, Logger } from './logger.js';
 export type { LoggerConfig, ProgressStats, SummaryStats } from './logger.js';
 
-export { retry, isTransientError } from './retry.js';
+export { retry, isTransientError, parseRetryAfter } from './retry.js';
 export type { RetryOptions, RetryError } from './retry.js';
 
-export { rateLimit, createRateLimitedFn } from './ratelimit.js';
-export type { RateLimitOptions } from './ratelimit.js';
+export { rateLimit, createRateLimitedFn, createHostRateLimiter } from './ratelimit.js';
+export type { RateLimitOptions, HostRateLimitOptions, HostRateLimiter } from './ratelimit.js';
 
 export {
   OUTPUT_LAYOUT,
   getManifestPath,
   getMediaDir,
   getMediaPath,
+  getDerivativesDir,
   getAssetsDir,
   getGalleriesDir,
   getGalleryPath,
   getBlogDir,
   getBlogPath,
+  getPhotoPath,
+  getSitePagePath,
   getIndexPath,
   normalizeSlug,
   generateSlug,
   generateMediaFilename,
+  inferContentTypeFromUrl,
+  getPosterMediaId,
   isValidFilename,
   isValidSlug,
 } from './paths.js';
 
+export { detectMimeType, hashFile, checkMediaIntegrity } from './integrity.js';
+export type { MediaIntegrity } from './integrity.js';
+
+export { parseExif, readJpegMetadata, readPngMetadata, readImageMetadata } from './exif.js';
+export type { ExifData, ImageMetadata } from './exif.js';
+
 export { fetchRobotsTxt, isCrawlAllowed, checkRobotsPolicy } from './robots.js';
 export type { RobotsCheckResult } from './robots.js';
 
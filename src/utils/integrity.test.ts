@@ -0,0 +1,108 @@
+/**
+ * Tests for media integrity checks
+ * Covers MIME sniffing, SHA-256 digests and truncation detection per format
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { createHash } from 'crypto';
+import { mkdir, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { detectMimeType, checkMediaIntegrity } from './integrity.js';
+
+const JPEG = Buffer.concat([
+  Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]),
+  Buffer.from('JFIF\0', 'latin1'),
+  Buffer.alloc(2048, 0x55),
+  Buffer.from([0xff, 0xd9]),
+]);
+
+const PNG = Buffer.concat([
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  Buffer.alloc(64, 0x11),
+  Buffer.from([0x00, 0x00, 0x00, 0x00]),
+  Buffer.from('IEND', 'latin1'),
+  Buffer.from([0xae, 0x42, 0x60, 0x82]),
+]);
+
+function box(type: string, payload: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(payload.length + 8, 0);
+  header.write(type, 4, 'latin1');
+  return Buffer.concat([header, payload]);
+}
+
+const MP4 = Buffer.concat([
+  box('ftyp', Buffer.from('isom\0\0\0\0', 'latin1')),
+  box('moov', Buffer.alloc(32, 0x22)),
+  box('mdat', Buffer.alloc(256, 0x33)),
+]);
+
+describe('detectMimeType', () => {
+  it('should recognize common media formats from magic bytes', () => {
+    expect(detectMimeType(JPEG)).toBe('image/jpeg');
+    expect(detectMimeType(PNG)).toBe('image/png');
+    expect(detectMimeType(Buffer.from('GIF89a', 'latin1'))).toBe('image/gif');
+    expect(detectMimeType(Buffer.from('RIFF\x10\0\0\0WEBPVP8 ', 'latin1'))).toBe('image/webp');
+    expect(detectMimeType(MP4)).toBe('video/mp4');
+  });
+
+  it('should flag HTML and return null for unknown formats', () => {
+    expect(detectMimeType(Buffer.from('  <!DOCTYPE html><html>'))).toBe('text/html');
+    expect(detectMimeType(Buffer.from('plain text'))).toBeNull();
+  });
+});
+
+describe('checkMediaIntegrity', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `vsco-integrity-${Date.now()}`);
+    await mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  async function check(name: string, data: Buffer) {
+    const filePath = join(testDir, name);
+    await writeFile(filePath, data);
+    return checkMediaIntegrity(filePath);
+  }
+
+  it('should hash a complete JPEG and report its size and type', async () => {
+    const result = await check('ok.jpg', JPEG);
+
+    expect(result).toEqual({
+      sha256: createHash('sha256').update(JPEG).digest('hex'),
+      sizeBytes: JPEG.length,
+      mimeType: 'image/jpeg',
+    });
+  });
+
+  it('should detect truncated JPEG and PNG files', async () => {
+    expect((await check('cut.jpg', JPEG.subarray(0, 1500))).problem).toMatch(/truncated JPEG/);
+    expect((await check('cut.png', PNG.subarray(0, 40))).problem).toMatch(/truncated PNG/);
+    expect((await check('ok.png', PNG)).problem).toBeUndefined();
+  });
+
+  it('should walk MP4 boxes to detect truncation', async () => {
+    expect((await check('ok.mp4', MP4)).problem).toBeUndefined();
+    expect((await check('cut.mp4', MP4.subarray(0, MP4.length - 100))).problem).toMatch(/truncated mdat box/);
+  });
+
+  it('should reject empty files and HTML pages', async () => {
+    expect((await check('empty.jpg', Buffer.alloc(0))).problem).toBe('zero-byte file');
+    expect((await check('block.jpg', Buffer.from('<html><body>Just a moment...</body></html>'))).problem).toBe(
+      'HTML page instead of media'
+    );
+  });
+
+  it('should not flag unrecognized formats', async () => {
+    const result = await check('notes.bin', Buffer.from('arbitrary bytes'));
+
+    expect(result.mimeType).toBeNull();
+    expect(result.problem).toBeUndefined();
+  });
+});
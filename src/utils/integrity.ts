@@ -0,0 +1,183 @@
+/**
+ * Media integrity checks: SHA-256 digests, MIME sniffing and truncation detection
+ * - MIME type comes from magic bytes, not the file extension or Content-Type header
+ * - Truncation is detected from each container's end marker or declared length
+ * - Files in unrecognized formats are hashed but not structurally checked
+ */
+
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import { open } from 'fs/promises';
+import type { FileHandle } from 'fs/promises';
+
+/** Bytes read from the start of a file for MIME sniffing */
+const HEADER_BYTES = 32;
+
+/** Bytes read from the end of a file when looking for an end marker */
+const TAIL_BYTES = 1024;
+
+export interface MediaIntegrity {
+  /** Hex-encoded SHA-256 digest of the file */
+  sha256: string;
+  /** File size in bytes */
+  sizeBytes: number;
+  /** MIME type detected from magic bytes (null if unrecognized) */
+  mimeType: string | null;
+  /** Why the file is unusable (truncated, empty, HTML page), if it is */
+  problem?: string;
+}
+
+/**
+ * Detect a media MIME type from the first bytes of a file
+ * @param header - At least the first 12 bytes of the file
+ * @returns MIME type, or null if the format is not recognized
+ */
+export function detectMimeType(header: Buffer): string | null {
+  if (header.length >= 3 && header[0] === 0xff && header[1] === 0xd8 && header[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (header.length >= 8 && header.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  if (header.length >= 6 && /^GIF8[79]a$/.test(header.toString('latin1', 0, 6))) {
+    return 'image/gif';
+  }
+  if (header.length >= 12 && header.toString('latin1', 0, 4) === 'RIFF' && header.toString('latin1', 8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  if (header.length >= 12 && header.toString('latin1', 4, 8) === 'ftyp') {
+    const brand = header.toString('latin1', 8, 12);
+    if (brand === 'qt  ') return 'video/quicktime';
+    if (brand === 'avif' || brand === 'avis') return 'image/avif';
+    if (brand === 'heic' || brand === 'heix' || brand === 'mif1') return 'image/heic';
+    return 'video/mp4';
+  }
+
+  const text = header.toString('latin1').trimStart().toLowerCase();
+  if (text.startsWith('<!doctype html') || text.startsWith('<html')) {
+    return 'text/html';
+  }
+
+  return null;
+}
+
+async function readAt(handle: FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
+
+/**
+ * Walk top-level ISO BMFF boxes (MP4/MOV/HEIC/AVIF) and check they fit the file
+ */
+async function checkBoxes(handle: FileHandle, sizeBytes: number): Promise<string | undefined> {
+  let offset = 0;
+  let sawMoov = false;
+  let sawMeta = false;
+
+  while (offset < sizeBytes) {
+    const header = await readAt(handle, offset, 16);
+    if (header.length < 8) {
+      return 'truncated box header';
+    }
+
+    const type = header.toString('latin1', 4, 8);
+    let boxSize = header.readUInt32BE(0);
+    if (boxSize === 1) {
+      if (header.length < 16) {
+        return 'truncated box header';
+      }
+      boxSize = Number(header.readBigUInt64BE(8));
+    } else if (boxSize === 0) {
+      boxSize = sizeBytes - offset;
+    }
+
+    if (boxSize < 8) {
+      return `invalid ${type} box size`;
+    }
+    if (offset + boxSize > sizeBytes) {
+      return `truncated ${type} box (${sizeBytes - offset} of ${boxSize} bytes)`;
+    }
+
+    if (type === 'moov') sawMoov = true;
+    if (type === 'meta') sawMeta = true;
+    offset += boxSize;
+  }
+
+  return sawMoov || sawMeta ? undefined : 'missing moov box';
+}
+
+/**
+ * Check that a file of a known format is complete
+ * @returns Description of the problem, or undefined if the file looks whole
+ */
+async function findStructuralProblem(
+  handle: FileHandle,
+  mimeType: string | null,
+  sizeBytes: number
+): Promise<string | undefined> {
+  const tail = await readAt(handle, Math.max(0, sizeBytes - TAIL_BYTES), Math.min(TAIL_BYTES, sizeBytes));
+
+  switch (mimeType) {
+    case 'image/jpeg':
+      // EOI marker; 0xFF 0xD9 cannot occur inside entropy-coded data
+      return tail.includes(Buffer.from([0xff, 0xd9])) ? undefined : 'truncated JPEG (no end-of-image marker)';
+    case 'image/png':
+      return tail.includes(Buffer.from('IEND', 'latin1')) ? undefined : 'truncated PNG (no IEND chunk)';
+    case 'image/gif': {
+      let end = tail.length - 1;
+      while (end >= 0 && tail[end] === 0x00) end--;
+      return end >= 0 && tail[end] === 0x3b ? undefined : 'truncated GIF (no trailer)';
+    }
+    case 'image/webp': {
+      const header = await readAt(handle, 0, 8);
+      const declared = header.readUInt32LE(4) + 8;
+      return declared > sizeBytes ? `truncated WebP (${sizeBytes} of ${declared} bytes)` : undefined;
+    }
+    case 'video/mp4':
+    case 'video/quicktime':
+    case 'image/avif':
+    case 'image/heic':
+      return checkBoxes(handle, sizeBytes);
+    case 'text/html':
+      return 'HTML page instead of media';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Compute the SHA-256 digest of a file without loading it into memory
+ */
+export async function hashFile(filePath: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Hash a media file, detect its MIME type and check it is not truncated
+ * @param filePath - Path to the media file
+ * @returns Digest, size, detected MIME type and any problem found
+ */
+export async function checkMediaIntegrity(filePath: string): Promise<MediaIntegrity> {
+  const handle = await open(filePath, 'r');
+
+  try {
+    const { size: sizeBytes } = await handle.stat();
+    const sha256 = await hashFile(filePath);
+
+    if (sizeBytes === 0) {
+      return { sha256, sizeBytes, mimeType: null, problem: 'zero-byte file' };
+    }
+
+    const mimeType = detectMimeType(await readAt(handle, 0, HEADER_BYTES));
+    const problem = await findStructuralProblem(handle, mimeType, sizeBytes);
+
+    return problem ? { sha256, sizeBytes, mimeType, problem } : { sha256, sizeBytes, mimeType };
+  } finally {
+    await handle.close();
+  }
+}
@@ -33,6 +33,11 @@ export interface SummaryStats {
     invalid: number;
     redownloaded: number;
   };
+  robots?: {
+    allowed: boolean;
+    reason: string;
+    ignored: boolean;
+  };
 }
 
 class Logger {
@@ -114,6 +119,12 @@ class Logger {
       );
     }
 
+    if (stats.robots) {
+      const { allowed, reason, ignored } = stats.robots;
+      const decision = allowed ? 'allowed' : ignored ? 'disallowed (ignored)' : 'disallowed';
+      lines.push(`Robots: ${decision} - ${reason}`);
+    }
+
     if (lines.length > 0) {
       lines.forEach((line) => this.info(line));
     }
@@ -7,11 +7,15 @@ import {
   normalizeSlug,
   generateSlug,
   generateMediaFilename,
+  inferContentTypeFromUrl,
+  getPosterMediaId,
   isValidFilename,
   isValidSlug,
   getMediaPath,
   getGalleryPath,
   getBlogPath,
+  getPhotoPath,
+  getSitePagePath,
   getIndexPath,
   getManifestPath,
 } from './paths';
@@ -171,6 +175,29 @@ describe('paths', () => {
     });
   });
 
+  describe('inferContentTypeFromUrl', () => {
+    it('should detect video renditions', () => {
+      expect(inferContentTypeFromUrl('https://img.vsco.co/abc/video.mp4')).toBe('video/mp4');
+      expect(inferContentTypeFromUrl('https://img.vsco.co/abc/clip.MOV')).toBe('video/quicktime');
+    });
+
+    it('should ignore query strings and handle protocol-relative URLs', () => {
+      expect(inferContentTypeFromUrl('//im.vsco.co/x.png?w=480&c=1')).toBe('image/png');
+    });
+
+    it('should fall back for unknown or missing extensions', () => {
+      expect(inferContentTypeFromUrl('https://im.vsco.co/aws-us-west-2/abc')).toBe('image/jpeg');
+      expect(inferContentTypeFromUrl('https://im.vsco.co/x.m3u8', 'video/mp4')).toBe('video/mp4');
+    });
+  });
+
+  describe('getPosterMediaId', () => {
+    it('should derive a stable poster ID that maps to a safe filename', () => {
+      expect(getPosterMediaId('abc123')).toBe('abc123-poster');
+      expect(generateMediaFilename(getPosterMediaId('abc123'), 'image/jpeg')).toBe('abc123-poster.jpg');
+    });
+  });
+
   describe('isValidFilename', () => {
     it('should accept valid filenames', () => {
       expect(isValidFilename('photo-123.jpg')).toBe(true);
@@ -263,6 +290,16 @@ describe('paths', () => {
       expect(path).toBe('/backup/user/blog/my-post/index.html');
     });
 
+    it('should construct photo path from a sanitized ID', () => {
+      const path = getPhotoPath(backupRoot, 'abc/../123');
+      expect(path).toBe('/backup/user/photos/abc123/index.html');
+    });
+
+    it('should construct archive page paths from segments', () => {
+      const path = getSitePagePath(backupRoot, ['photos', 'page', '2']);
+      expect(path).toBe('/backup/user/photos/page/2/index.html');
+    });
+
     it('should construct index path', () => {
       const path = getIndexPath(backupRoot);
       expect(path).toBe('/backup/user/index.html');
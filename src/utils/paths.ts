@@ -14,12 +14,22 @@ export const OUTPUT_LAYOUT = {
   BACKUP_DIR: '.vsco-backup',
   /** Downloaded media binaries */
   MEDIA_DIR: '.vsco-backup/media',
+  /** Resized copies of media for the site (regenerable cache) */
+  DERIVATIVES_DIR: '.vsco-backup/derivatives',
   /** Generated CSS/JS assets */
   ASSETS_DIR: 'assets',
   /** Galleries index directory */
   GALLERIES_DIR: 'galleries',
   /** Blog posts index directory */
   BLOG_DIR: 'blog',
+  /** Per-photo detail pages and the paginated photo listing (photos/page/N/) */
+  PHOTOS_DIR: 'photos',
+  /** Per-year and per-month listings */
+  ARCHIVE_DIR: 'archive',
+  /** Search page and its precomputed index */
+  SEARCH_DIR: 'search',
+  /** Changelog page for the latest run (or a `diff --format html` comparison) */
+  WHATS_NEW_DIR: 'whats-new',
   /** Main index file */
   INDEX_FILE: 'index.html',
   /** Manifest file */
@@ -54,6 +64,15 @@ export function getMediaPath(backupRoot: string, filename: string): string {
   return join(backupRoot, OUTPUT_LAYOUT.MEDIA_DIR, filename);
 }
 
+/**
+ * Get the path to the derivatives cache directory
+ * @param backupRoot - Root directory of the backup
+ * @returns Full path to the derivatives directory
+ */
+export function getDerivativesDir(backupRoot: string): string {
+  return join(backupRoot, OUTPUT_LAYOUT.DERIVATIVES_DIR);
+}
+
 /**
  * Get the path to the assets directory
  * @param backupRoot - Root directory of the backup
@@ -101,6 +120,26 @@ export function getBlogPath(backupRoot: string, postSlug: string): string {
   return join(backupRoot, OUTPUT_LAYOUT.BLOG_DIR, postSlug, OUTPUT_LAYOUT.INDEX_FILE);
 }
 
+/**
+ * Get the path to a photo's detail page
+ * @param backupRoot - Root directory of the backup
+ * @param photoId - Photo ID (sanitized the same way as media filenames)
+ * @returns Full path to the photo's index.html
+ */
+export function getPhotoPath(backupRoot: string, photoId: string): string {
+  return join(backupRoot, OUTPUT_LAYOUT.PHOTOS_DIR, photoId.replace(/[^a-z0-9-]/gi, ''), OUTPUT_LAYOUT.INDEX_FILE);
+}
+
+/**
+ * Get the path to a generated page from its directory segments
+ * @param backupRoot - Root directory of the backup
+ * @param segments - Directory segments below the backup root, e.g. ['photos', 'page', '2']
+ * @returns Full path to that directory's index.html
+ */
+export function getSitePagePath(backupRoot: string, segments: string[]): string {
+  return join(backupRoot, ...segments, OUTPUT_LAYOUT.INDEX_FILE);
+}
+
 /**
  * Get the path to the main index file
  * @param backupRoot - Root directory of the backup
@@ -251,6 +290,67 @@ export function generateMediaFilename(mediaId: string, contentType: string = 'im
   return `${truncatedId}.${ext}`;
 }
 
+/**
+ * Filename a replaced media file is kept under: "<mediaId>.<sha8>.<ext>"
+ *
+ * @param mediaId - Stable media ID
+ * @param sha256 - Hex SHA-256 digest of the replaced file
+ * @param contentType - MIME type of the replaced file
+ * @returns Safe filename next to the current one
+ */
+export function generateRevisionFilename(mediaId: string, sha256: string, contentType: string = 'image/jpeg'): string {
+  const filename = generateMediaFilename(mediaId, contentType);
+  const dot = filename.lastIndexOf('.');
+  return `${filename.slice(0, dot)}.${sha256.slice(0, 8)}${filename.slice(dot)}`;
+}
+
+/**
+ * Infer a media content type from a remote URL's file extension
+ * Used when discovery only gives us a URL (e.g., video renditions) and no Content-Type
+ *
+ * @param url - Remote asset URL
+ * @param fallback - Content type to use when the extension is unknown
+ * @returns MIME type (e.g., "video/mp4")
+ */
+export function inferContentTypeFromUrl(url: string, fallback: string = 'image/jpeg'): string {
+  const extensionMap: Record<string, string> = {
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    mp4: 'video/mp4',
+    m4v: 'video/mp4',
+    mov: 'video/quicktime',
+    webm: 'video/webm',
+  };
+
+  let pathname = url;
+  try {
+    pathname = new URL(url.startsWith('//') ? `https:${url}` : url).pathname;
+  } catch {
+    // Not an absolute URL - match against the raw string
+  }
+
+  const match = pathname.toLowerCase().match(/\.([a-z0-9]+)$/);
+  if (!match) {
+    return fallback;
+  }
+
+  return extensionMap[match[1]] ?? fallback;
+}
+
+/**
+ * Get the media ID used for a video's poster frame
+ * Posters are stored next to the video as "<mediaId>-poster.<ext>"
+ *
+ * @param mediaId - Media ID of the video
+ * @returns Media ID for the poster image
+ */
+export function getPosterMediaId(mediaId: string): string {
+  return `${mediaId}-poster`;
+}
+
 /**
  * Validate that a filename is safe and within constraints
  * @param filename - Filename to validate
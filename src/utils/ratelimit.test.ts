@@ -0,0 +1,58 @@
+/**
+ * Tests for the per-host token-bucket rate limiter
+ * Uses a fast rate so spacing is observable without slowing the suite
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { createHostRateLimiter } from './ratelimit.js';
+
+async function timeCalls(run: () => Promise<unknown>): Promise<number> {
+  const start = Date.now();
+  await run();
+  return Date.now() - start;
+}
+
+describe('createHostRateLimiter', () => {
+  it('should run the first request immediately and space later ones per host', async () => {
+    const limiter = createHostRateLimiter({ requestsPerSecond: 20 });
+    const job = () => Promise.resolve('ok');
+
+    expect(await timeCalls(() => limiter.schedule('https://im.vsco.co/a.jpg', job))).toBeLessThan(30);
+    expect(await timeCalls(() => limiter.schedule('https://im.vsco.co/b.jpg', job))).toBeGreaterThanOrEqual(35);
+    expect(await timeCalls(() => limiter.schedule('https://img.vsco.co/c.mp4', job))).toBeLessThan(30);
+  });
+
+  it('should pass through the scheduled function result', async () => {
+    const limiter = createHostRateLimiter();
+    await expect(limiter.schedule('https://im.vsco.co/a.jpg', async () => 42)).resolves.toBe(42);
+  });
+
+  it('should pause a penalized host for the Retry-After delay', async () => {
+    const limiter = createHostRateLimiter({ requestsPerSecond: 50 });
+    const job = () => Promise.resolve();
+
+    await limiter.schedule('https://im.vsco.co/a.jpg', job);
+    limiter.penalize('https://im.vsco.co/a.jpg', 120);
+
+    expect(await timeCalls(() => limiter.schedule('https://im.vsco.co/b.jpg', job))).toBeGreaterThanOrEqual(100);
+    expect(await timeCalls(() => limiter.schedule('https://i.vsco.co/c.jpg', job))).toBeLessThan(30);
+  });
+
+  it('should halve the rate after a penalty and recover it on success', async () => {
+    const limiter = createHostRateLimiter({ requestsPerSecond: 20 });
+    const job = () => Promise.resolve();
+    const url = 'https://im.vsco.co/a.jpg';
+
+    await limiter.schedule(url, job);
+    limiter.penalize(url, 0);
+    await limiter.schedule(url, job);
+
+    // Rate is now 10 req/s: the next token takes ~100ms instead of ~50ms
+    expect(await timeCalls(() => limiter.schedule(url, job))).toBeGreaterThanOrEqual(85);
+
+    for (let i = 0; i < 20; i++) {
+      limiter.reward(url);
+    }
+    expect(await timeCalls(() => limiter.schedule(url, job))).toBeLessThan(85);
+  });
+});
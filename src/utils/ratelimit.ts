@@ -2,6 +2,7 @@
  * Rate limiting wrapper with fixed/random delay between actions
  * - Enforces minimum delay between consecutive calls
  * - Conservative defaults: 500-1500ms random delay between requests
+ * - Per-host token buckets with adaptive backoff for concurrent downloads
  * - Respects rate limiting etiquette for web scraping
  */
 
@@ -58,3 +59,123 @@ export function createRateLimitedFn<T>(
 ): () => Promise<T> {
   return () => rateLimit(fn, options);
 }
+
+export interface HostRateLimitOptions {
+  /** Sustained requests per second for each host (default 1) */
+  requestsPerSecond?: number;
+  /** Requests a host may receive back to back after being idle (default 1) */
+  burst?: number;
+  /** Lowest fraction of the configured rate adaptive backoff may drop to (default 0.125) */
+  minRateFactor?: number;
+  /** Longest pause applied to a host after a 429/503 (default 120000) */
+  maxPauseMs?: number;
+}
+
+/**
+ * Token-bucket rate limiter keyed by host
+ * Shared between concurrent workers and, in batch mode, between profiles
+ */
+export interface HostRateLimiter {
+  /** Wait for a token for the URL's host, then run fn */
+  schedule<T>(url: string, fn: () => Promise<T>): Promise<T>;
+  /**
+   * Report a 429/503 from the URL's host: halve its rate and pause it
+   * for retryAfterMs (or a backoff derived from the current rate)
+   */
+  penalize(url: string, retryAfterMs?: number): void;
+  /** Report a successful request: step the host's rate back towards the configured one */
+  reward(url: string): void;
+}
+
+interface HostBucket {
+  tokens: number;
+  lastRefillAt: number;
+  rateFactor: number;
+  pausedUntil: number;
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Create a per-host token-bucket limiter with adaptive backoff
+ * Rate drops multiplicatively on 429/503 and recovers additively on success
+ */
+export function createHostRateLimiter(options?: HostRateLimitOptions): HostRateLimiter {
+  const requestsPerSecond = options?.requestsPerSecond ?? 1;
+  const burst = Math.max(1, options?.burst ?? 1);
+  const minRateFactor = options?.minRateFactor ?? 0.125;
+  const maxPauseMs = options?.maxPauseMs ?? 120000;
+  const buckets = new Map<string, HostBucket>();
+
+  const getBucket = (host: string): HostBucket => {
+    let bucket = buckets.get(host);
+    if (!bucket) {
+      bucket = { tokens: burst, lastRefillAt: Date.now(), rateFactor: 1, pausedUntil: 0 };
+      buckets.set(host, bucket);
+    }
+    return bucket;
+  };
+
+  const refill = (bucket: HostBucket, now: number): void => {
+    const ratePerMs = (requestsPerSecond * bucket.rateFactor) / 1000;
+    bucket.tokens = Math.min(burst, bucket.tokens + (now - bucket.lastRefillAt) * ratePerMs);
+    bucket.lastRefillAt = now;
+  };
+
+  return {
+    async schedule<T>(url: string, fn: () => Promise<T>): Promise<T> {
+      const host = hostOf(url);
+      const bucket = getBucket(host);
+
+      for (;;) {
+        const now = Date.now();
+        if (now < bucket.pausedUntil) {
+          await sleep(bucket.pausedUntil - now);
+          continue;
+        }
+
+        refill(bucket, now);
+        if (bucket.tokens >= 1) {
+          bucket.tokens -= 1;
+          break;
+        }
+
+        const ratePerMs = (requestsPerSecond * bucket.rateFactor) / 1000;
+        const waitMs = Math.ceil((1 - bucket.tokens) / ratePerMs);
+        getLogger().debug(`Rate limiting: waiting ${waitMs}ms before next request to ${host}`);
+        await sleep(waitMs);
+      }
+
+      return fn();
+    },
+
+    penalize(url: string, retryAfterMs?: number): void {
+      const host = hostOf(url);
+      const bucket = getBucket(host);
+      const now = Date.now();
+
+      bucket.rateFactor = Math.max(minRateFactor, bucket.rateFactor / 2);
+      bucket.tokens = 0;
+      bucket.lastRefillAt = now;
+
+      const backoffMs = retryAfterMs ?? 1000 / (requestsPerSecond * bucket.rateFactor);
+      bucket.pausedUntil = Math.max(bucket.pausedUntil, now + Math.min(backoffMs, maxPauseMs));
+
+      getLogger().warn(
+        `Throttled by ${host}: pausing ${Math.round(Math.min(backoffMs, maxPauseMs))}ms, ` +
+          `rate now ${(requestsPerSecond * bucket.rateFactor).toFixed(2)} req/s`
+      );
+    },
+
+    reward(url: string): void {
+      const bucket = getBucket(hostOf(url));
+      bucket.rateFactor = Math.min(1, bucket.rateFactor + 0.05);
+    },
+  };
+}
@@ -0,0 +1,44 @@
+/**
+ * Tests for Retry-After handling in the retry wrapper
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { retry, parseRetryAfter } from './retry.js';
+
+describe('parseRetryAfter', () => {
+  it('should parse delta-seconds and HTTP dates', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+
+    expect(parseRetryAfter('3', now)).toBe(3000);
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:10 GMT', now)).toBe(10000);
+    expect(parseRetryAfter('Wed, 31 Dec 2025 23:59:00 GMT', now)).toBe(0);
+  });
+
+  it('should return undefined for missing or malformed values', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('retry', () => {
+  it('should wait at least the Retry-After delay and report each retry', async () => {
+    const retries: number[] = [];
+    let calls = 0;
+    const start = Date.now();
+
+    const result = await retry(
+      async () => {
+        calls++;
+        if (calls === 1) {
+          throw Object.assign(new Error('HTTP 429: Too Many Requests'), { status: 429, retryAfterMs: 150 });
+        }
+        return 'done';
+      },
+      { baseDelayMs: 1, jitterMaxMs: 0, onRetry: (_error, attempt) => retries.push(attempt) }
+    );
+
+    expect(result).toBe('done');
+    expect(Date.now() - start).toBeGreaterThanOrEqual(140);
+    expect(retries).toEqual([1]);
+  });
+});
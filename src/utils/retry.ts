@@ -3,6 +3,7 @@
  * - Retries transient failures: timeouts, 5xx errors, 429 (rate limit)
  * - Fails fast on deterministic failures: 404, parse errors
  * - Formula: delay = baseDelay * 2^attempt + random(0, jitterMax)
+ * - Honours a server's Retry-After (error.retryAfterMs) when it asks for a longer wait
  * - Conservative defaults: baseDelay=1000ms, maxDelay=30000ms, jitter=0-1000ms
  */
 
@@ -13,6 +14,9 @@ export interface RetryOptions {
   baseDelayMs?: number; // default 1000
   maxDelayMs?: number; // default 30000
   jitterMaxMs?: number; // default 1000
+  maxRetryAfterMs?: number; // default 120000; longest Retry-After honoured
+  /** Called before each retry with the failed attempt's error */
+  onRetry?: (error: unknown, attempt: number) => void;
 }
 
 export interface RetryError extends Error {
@@ -57,12 +61,37 @@ function isTransientError(error: unknown): boolean {
     if (msg.includes('failed to parse url') || msg.includes('invalid url')) {
       return false;
     }
+    // Block pages will not clear by hammering the same endpoint
+    if (msg.includes('cloudflare block') || msg.includes('unexpected html response')) {
+      return false;
+    }
   }
 
   // Default to transient for unknown errors
   return true;
 }
 
+/**
+ * Parse a Retry-After header value (delta-seconds or HTTP date)
+ * @returns Delay in milliseconds, or undefined if the value is missing or malformed
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  if (isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, date - now);
+}
+
 /**
  * Calculate delay with exponential backoff and jitter
  * delay = baseDelay * 2^attempt + random(0, jitterMax)
@@ -99,6 +128,7 @@ export async function retry<T>(
   const baseDelayMs = options?.baseDelayMs ?? 1000;
   const maxDelayMs = options?.maxDelayMs ?? 30000;
   const jitterMaxMs = options?.jitterMaxMs ?? 1000;
+  const maxRetryAfterMs = options?.maxRetryAfterMs ?? 120000;
 
   const logger = getLogger();
   let lastError: Error | undefined;
@@ -137,13 +167,13 @@ export async function retry<T>(
         throw retryError;
       }
 
-      // Calculate delay and retry
-      const delayMs = calculateDelay(
-        attempt,
-        baseDelayMs,
-        maxDelayMs,
-        jitterMaxMs
+      // Calculate delay and retry; a server-provided Retry-After wins if it is longer
+      const retryAfterMs = (error as { retryAfterMs?: number })?.retryAfterMs;
+      const delayMs = Math.max(
+        calculateDelay(attempt, baseDelayMs, maxDelayMs, jitterMaxMs),
+        Math.min(retryAfterMs ?? 0, maxRetryAfterMs)
       );
+      options?.onRetry?.(error, attempt + 1);
       logger.debug(
         `Transient failure (attempt ${attempt + 1}/${maxAttempts}): ${lastError.message}. Retrying in ${Math.round(delayMs)}ms...`
       );
@@ -10,12 +10,15 @@ export interface RobotsCheckResult {
 }
 
 /**
- * Fetch robots.txt from VSCO
+ * Fetch robots.txt from VSCO (or the origin a run was pointed at)
  * Returns the robots.txt content or null if fetch fails
  */
-export async function fetchRobotsTxt(): Promise<string | null> {
+export async function fetchRobotsTxt(
+  fetchImpl: typeof fetch = fetch,
+  origin: string = 'https://vsco.co'
+): Promise<string | null> {
   try {
-    const response = await fetch('https://vsco.co/robots.txt', {
+    const response = await fetchImpl(`${origin}/robots.txt`, {
       headers: {
         'User-Agent': 'vsco-profile-backup-cli/0.1.0',
       },
@@ -96,11 +99,15 @@ export function isCrawlAllowed(robotsTxt: string, path: string): boolean {
  * Check if crawling a VSCO profile is allowed according to robots.txt
  * Returns structured result with allowed status and reason
  */
-export async function checkRobotsPolicy(username: string): Promise<RobotsCheckResult> {
+export async function checkRobotsPolicy(
+  username: string,
+  fetchImpl: typeof fetch = fetch,
+  origin?: string
+): Promise<RobotsCheckResult> {
   const profilePath = `/${username}`;
   
   // Try to fetch robots.txt
-  const robotsTxt = await fetchRobotsTxt();
+  const robotsTxt = await fetchRobotsTxt(fetchImpl, origin);
 
   // If fetch failed, warn but proceed with conservative approach
   if (robotsTxt === null) {
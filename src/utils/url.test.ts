@@ -64,6 +64,14 @@ describe('normalizeRemoteUrl', () => {
         expect(result.url).toBe('https://i.vsco.co/media/v2/abc123/def456.jpg');
       }
     });
+
+    it('should leave http on loopback hosts alone', () => {
+      const result = normalizeRemoteUrl('http://127.0.0.1:8080/x.jpg');
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.url).toBe('http://127.0.0.1:8080/x.jpg');
+      }
+    });
   });
 
   describe('https URLs (unchanged)', () => {
@@ -7,12 +7,15 @@ export type NormalizeResult =
   | { ok: true; url: string }
   | { ok: false; reason: string; input: string };
 
+/** Hosts that only ever point at this machine */
+const LOOPBACK_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]']);
+
 /**
  * Normalize and validate a remote asset URL
  *
  * Rules:
  * - Protocol-relative URLs (//host/path) → https://host/path
- * - HTTP URLs → HTTPS (upgrade for security)
+ * - HTTP URLs → HTTPS (upgrade for security), except on loopback hosts
  * - HTTPS URLs → unchanged
  * - Query strings preserved exactly
  * - Rejects: data:, blob:, empty, and other non-http(s) schemes
@@ -79,8 +82,8 @@ export function normalizeRemoteUrl(input: string): NormalizeResult {
       };
     }
 
-    // Upgrade http to https
-    if (url.protocol === 'http:') {
+    // Upgrade http to https, except on loopback hosts (local test servers have no TLS)
+    if (url.protocol === 'http:' && !LOOPBACK_HOSTS.has(url.hostname)) {
       url.protocol = 'https:';
     }
 
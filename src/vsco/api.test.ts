@@ -0,0 +1,89 @@
+/**
+ * Tests for parsing VSCO's media list API and following its pagination
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { getNextPageUrl, isMediaListUrl, parseMediaListResponse } from './api.js';
+
+describe('isMediaListUrl', () => {
+  it('should match the 2.0 and 3.0 media list endpoints only', () => {
+    expect(isMediaListUrl('https://vsco.co/api/3.0/medias/profile?site_id=1&limit=14')).toBe(true);
+    expect(isMediaListUrl('https://vsco.co/api/2.0/medias?site_id=1&page=2')).toBe(true);
+    expect(isMediaListUrl('https://vsco.co/api/2.0/sites?subdomain=foo')).toBe(false);
+    expect(isMediaListUrl('https://vsco.co/foo/media/abc')).toBe(false);
+    expect(isMediaListUrl('not a url')).toBe(false);
+  });
+});
+
+describe('parseMediaListResponse', () => {
+  it('should read typed 3.0 entries and count only media IDs', () => {
+    const listPage = parseMediaListResponse({
+      media: [
+        {
+          type: 'image',
+          image: {
+            _id: 'img1',
+            site_id: 12345,
+            user_id: 678,
+            permalink: 'https://vsco.co/foo/media/img1',
+            responsive_url: 'im.vsco.co/aws-us-west-2/ab/img1.jpg',
+            description: 'Sunset',
+            upload_date: 1686800000000,
+            preset: { _id: 'preset1', short_name: 'A6' },
+          },
+        },
+        {
+          type: 'video',
+          video: {
+            _id: 'vid1',
+            responsive_url: 'im.vsco.co/aws-us-west-2/ab/vid1.jpg',
+            playback_url: 'https://video.vsco.co/vid1/master.m3u8',
+          },
+        },
+        { type: 'image', image: { site_id: 12345 } },
+      ],
+      next_cursor: 'abc==',
+    });
+
+    expect(listPage?.photos.map((photo) => photo.id)).toEqual(['img1', 'vid1']);
+    expect(listPage?.photos[0]).toMatchObject({
+      imageUrl: 'https://im.vsco.co/aws-us-west-2/ab/img1.jpg',
+      caption: 'Sunset',
+      preset: 'A6',
+      uploadDate: '2023-06-15T03:33:20.000Z',
+      mediaType: 'image',
+    });
+    expect(listPage?.photos[1]).toMatchObject({
+      mediaType: 'video',
+      streamUrl: 'https://video.vsco.co/vid1/master.m3u8',
+      posterUrl: 'https://im.vsco.co/aws-us-west-2/ab/vid1.jpg',
+    });
+    expect(listPage?.next).toEqual({ cursor: 'abc==' });
+  });
+
+  it('should read 2.0 page numbers and stop on the last page', () => {
+    const media = [{ _id: 'a', responsive_url: '//im.vsco.co/a.jpg' }];
+
+    expect(parseMediaListResponse({ media, page: 1, size: 1, total: 2 })?.next).toEqual({ page: 2 });
+    expect(parseMediaListResponse({ media, page: 2, size: 1, total: 2 })?.next).toBeNull();
+  });
+
+  it('should reject bodies that are not media lists', () => {
+    expect(parseMediaListResponse({ site: { id: 1 } })).toBeNull();
+    expect(parseMediaListResponse(null)).toBeNull();
+  });
+});
+
+describe('getNextPageUrl', () => {
+  it('should carry the cursor or page over to the original request', () => {
+    const url = 'https://vsco.co/api/3.0/medias/profile?site_id=1&limit=14&cursor=old';
+
+    expect(getNextPageUrl(url, { photos: [], next: { cursor: 'new=' } })).toBe(
+      'https://vsco.co/api/3.0/medias/profile?site_id=1&limit=14&cursor=new%3D'
+    );
+    expect(getNextPageUrl('https://vsco.co/api/2.0/medias?site_id=1&page=1', { photos: [], next: { page: 2 } })).toBe(
+      'https://vsco.co/api/2.0/medias?site_id=1&page=2'
+    );
+    expect(getNextPageUrl(url, { photos: [], next: null })).toBeNull();
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * VSCO media-list API parsing
+ * The profile grid loads its photos from a paged JSON endpoint; discovery follows that
+ * endpoint's pagination directly instead of scrolling, and reads each response as a typed
+ * media list so only media IDs are counted (never site, user or preset IDs)
+ * - 3.0: /api/3.0/medias/profile?site_id=…&limit=…&cursor=… → { media: [{ type, image | video }], next_cursor }
+ * - 2.0: /api/2.0/medias?site_id=…&page=…&size=… → { media: [...], page, size, total }
+ */
+
+import { normalizeVscoAssetUrl } from './url.js';
+import { readPhotoMetadata } from './metadata.js';
+import type { Photo } from './types.js';
+
+/** Media object as the API returns it (fields discovery uses; the rest is read by readPhotoMetadata) */
+export interface VscoApiMedia {
+  _id?: string;
+  id?: string;
+  permalink?: string;
+  /** Often host-relative without a scheme, e.g. "im.vsco.co/aws-us-west-2/…/abc.jpg" */
+  responsive_url?: string;
+  description?: string;
+  is_video?: boolean;
+  video_url?: string;
+  playback_url?: string;
+  poster_url?: string;
+  [field: string]: unknown;
+}
+
+/** Entry of a 3.0 media list, wrapping the media object by type */
+export interface VscoApiMediaEntry {
+  type?: string;
+  image?: VscoApiMedia;
+  video?: VscoApiMedia;
+}
+
+/** Where the next page of a media list is */
+export type MediaListNext = { cursor: string } | { page: number } | null;
+
+export interface MediaListPage {
+  photos: Photo[];
+  next: MediaListNext;
+}
+
+const MEDIA_LIST_PATH = /\/api\/\d+\.\d+\/medias(\/profile)?\/?$/;
+
+/** Host-relative URL without a scheme, as VSCO writes responsive_url */
+const SCHEMELESS_HOST_URL = /^[a-z0-9-]+(\.[a-z0-9-]+)+(:\d+)?\//i;
+
+/**
+ * Whether a request URL is a call to the profile media list
+ */
+export function isMediaListUrl(url: string): boolean {
+  try {
+    return MEDIA_LIST_PATH.test(new URL(url).pathname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Normalize an API asset URL, including VSCO's scheme-less "im.vsco.co/…" form
+ */
+export function toAssetUrl(raw: unknown): string | undefined {
+  if (typeof raw !== 'string' || !raw) return undefined;
+  const normalized = normalizeVscoAssetUrl(SCHEMELESS_HOST_URL.test(raw) ? `//${raw}` : raw);
+  return normalized.ok ? normalized.url : undefined;
+}
+
+/**
+ * Sort a video URL into a progressive rendition or an adaptive stream manifest
+ */
+export function classifyVideoUrl(url: string): { videoUrl?: string; streamUrl?: string } {
+  return /\.(m3u8|mpd)(\?|$)/i.test(url) ? { streamUrl: url } : { videoUrl: url };
+}
+
+/**
+ * Map one media object to a discovered photo or video
+ * @returns null when it has no ID or nothing downloadable
+ */
+export function parseApiMedia(media: VscoApiMedia, type?: string): Photo | null {
+  const id = media._id ?? media.id;
+  if (typeof id !== 'string' || !id) return null;
+
+  const imageUrl = toAssetUrl(media.responsive_url ?? media.poster_url);
+  const rawVideoUrl = media.video_url ?? media.playback_url;
+  const videoUrl = toAssetUrl(rawVideoUrl);
+  const isVideo = type === 'video' || media.is_video === true || rawVideoUrl !== undefined;
+
+  if (!imageUrl && !videoUrl) return null;
+
+  return {
+    id,
+    permalink: typeof media.permalink === 'string' ? media.permalink : undefined,
+    imageUrl,
+    thumbnailUrl: imageUrl,
+    caption: typeof media.description === 'string' && media.description ? media.description : undefined,
+    ...readPhotoMetadata(media),
+    mediaType: isVideo ? 'video' : 'image',
+    ...(isVideo && { ...(videoUrl && classifyVideoUrl(videoUrl)), posterUrl: imageUrl }),
+  };
+}
+
+/**
+ * Read a media-list response body
+ * @returns The page's photos and where the next page is, or null if the body is not a media list
+ */
+export function parseMediaListResponse(data: unknown): MediaListPage | null {
+  if (!data || typeof data !== 'object' || !Array.isArray((data as { media?: unknown }).media)) {
+    return null;
+  }
+
+  const body = data as { media: unknown[]; next_cursor?: unknown; page?: unknown; size?: unknown; total?: unknown };
+  const photos: Photo[] = [];
+  for (const entry of body.media) {
+    if (!entry || typeof entry !== 'object') continue;
+    const wrapped = entry as VscoApiMediaEntry;
+    const media = wrapped.image ?? wrapped.video ?? (entry as VscoApiMedia);
+    const photo = parseApiMedia(media, wrapped.image || wrapped.video ? wrapped.type : undefined);
+    if (photo) photos.push(photo);
+  }
+
+  let next: MediaListNext = null;
+  if (typeof body.next_cursor === 'string' && body.next_cursor) {
+    next = { cursor: body.next_cursor };
+  } else if (
+    typeof body.page === 'number' &&
+    typeof body.size === 'number' &&
+    typeof body.total === 'number' &&
+    body.page * body.size < body.total
+  ) {
+    next = { page: body.page + 1 };
+  }
+
+  return { photos, next };
+}
+
+/**
+ * URL of the page after `listPage`, built from the request that returned it
+ * @returns null on the last page
+ */
+export function getNextPageUrl(requestUrl: string, listPage: MediaListPage): string | null {
+  if (!listPage.next) return null;
+
+  const url = new URL(requestUrl);
+  if ('cursor' in listPage.next) {
+    url.searchParams.set('cursor', listPage.next.cursor);
+  } else {
+    url.searchParams.set('page', String(listPage.next.page));
+  }
+  return url.toString();
+}
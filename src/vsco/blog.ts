@@ -4,24 +4,47 @@
  */
 
 import type { Page } from 'playwright';
-import type { BlogPost } from '../manifest/types.js';
-import { generateSlug } from '../utils/paths.js';
+import type { BlogPost, BlogAsset, BlogSkippedImage } from '../manifest/types.js';
+import {
+  generateSlug,
+  generateMediaFilename,
+  inferContentTypeFromUrl,
+  OUTPUT_LAYOUT,
+} from '../utils/paths.js';
+import { normalizeVscoAssetUrl, VSCO_ORIGIN } from './url.js';
 import { createHash } from 'crypto';
 
+/**
+ * Blog posts scraped from the journal, and whether that is all of them
+ */
+export interface BlogScrapeResult {
+  posts: BlogPost[];
+  /**
+   * Whether the journal listed posts and every one of them was scraped; only then
+   * can previously backed-up posts missing from `posts` count as removed
+   */
+  complete: boolean;
+}
+
 /**
  * Scrape all blog posts from a VSCO profile
  * @param page - Playwright page instance (already navigated to profile)
  * @param username - VSCO username
- * @returns Array of normalized blog posts
+ * @param baseUrl - Origin to load the journal from
+ * @returns Normalized blog posts, and whether the journal was scraped in full
  */
-export async function scrapeBlogPosts(page: Page, username: string): Promise<BlogPost[]> {
-  const blogUrl = `https://vsco.co/${username}/journal`;
+export async function scrapeBlogPosts(
+  page: Page,
+  username: string,
+  baseUrl: string = VSCO_ORIGIN
+): Promise<BlogScrapeResult> {
+  const blogUrl = `${baseUrl}/${username}/journal`;
   
   try {
     await page.goto(blogUrl, { waitUntil: 'load', timeout: 30000 });
   } catch (error) {
     console.warn(`No blog/journal found for user ${username}`);
-    return [];
+    return { posts: [], complete: false };
   }
 
   await page.waitForSelector('article, .journal-entry, [data-journal-entry]', { 
@@ -82,6 +105,7 @@ export async function scrapeBlogPosts(page: Page, username: string): Promise<Blo
 
   const blogPosts: BlogPost[] = [];
   const slugMap = new Map<string, string>();
+  let failedPosts = 0;
 
   for (const postData of blogPostData) {
     if (!postData.url || !postData.id) {
@@ -132,7 +156,16 @@ export async function scrapeBlogPosts(page: Page, username: string): Promise<Blo
             }
           });
         });
+        // Pin every image to its absolute URL and drop responsive candidates,
+        // so the HTML references exactly the URLs we download
         const images = Array.from(clonedContent.querySelectorAll('img'));
+        images.forEach(img => {
+          if (img.src) {
+            img.setAttribute('src', img.src);
+          }
+          img.removeAttribute('srcset');
+          img.removeAttribute('sizes');
+        });
         const imageUrls = images.map(img => img.src);
 
         return {
@@ -145,10 +178,11 @@ export async function scrapeBlogPosts(page: Page, username: string): Promise<Blo
 
       if (!postContent) {
         console.warn(`Could not extract content for post: ${postData.url}`);
+        failedPosts++;
         continue;
       }
 
-      const normalizedContent = normalizeContentHtml(
+      const { html: normalizedContent, assets, skippedImages } = normalizeContentHtml(
         postContent.contentHtml,
         postContent.imageUrls,
         postData.id
@@ -168,15 +202,18 @@ export async function scrapeBlogPosts(page: Page, username: string): Promise<Blo
         title,
         content_html: normalizedContent,
         published_at: publishedAt,
+        assets,
+        ...(skippedImages.length > 0 ? { skipped_images: skippedImages } : {}),
       });
 
     } catch (error) {
       console.warn(`Failed to scrape post ${postData.url}:`, error);
+      failedPosts++;
       continue;
     }
   }
 
-  return blogPosts;
+  return { posts: blogPosts, complete: blogPosts.length > 0 && failedPosts === 0 };
 }
 
 /**
@@ -184,23 +221,46 @@ export async function scrapeBlogPosts(page: Page, username: string): Promise<Blo
  * - Strip remote scripts
  * - Convert embedded image URLs to local paths
  * - Mark images for download
+ * - Record images that cannot be downloaded (inline data: images need no download)
  *
  * @param html - Raw HTML content
  * @param imageUrls - Array of image URLs found in content
  * @param postId - Post ID for generating local paths
- * @returns Normalized HTML
+ * @returns Normalized HTML, the embedded assets it now references and the images left remote
  */
-function normalizeContentHtml(html: string, imageUrls: string[], postId: string): string {
+function normalizeContentHtml(
+  html: string,
+  imageUrls: string[],
+  postId: string
+): { html: string; assets: BlogAsset[]; skippedImages: BlogSkippedImage[] } {
   let normalized = html;
+  const assets = new Map<string, BlogAsset>();
+  const skippedImages = new Map<string, BlogSkippedImage>();
 
   imageUrls.forEach((remoteUrl) => {
     if (!remoteUrl) return;
 
+    const normalizedUrl = normalizeVscoAssetUrl(remoteUrl);
+    if (!normalizedUrl.ok) {
+      if (!remoteUrl.startsWith('data:')) {
+        skippedImages.set(remoteUrl, { url: remoteUrl, reason: normalizedUrl.reason });
+      }
+      return;
+    }
+
     const urlHash = createHash('sha256').update(remoteUrl).digest('hex').substring(0, 12);
-    const ext = getExtensionFromUrl(remoteUrl);
-    const localPath = `../.vsco-backup/media/blog-${postId}-img-${urlHash}${ext}`;
+    const contentType = inferContentTypeFromUrl(normalizedUrl.url);
+    const mediaId = `blog-${postId}-img-${urlHash}`;
+    const filename = generateMediaFilename(mediaId, contentType);
+    // Blog pages live at blog/<slug>/index.html
+    const localPath = `../../${OUTPUT_LAYOUT.MEDIA_DIR}/${filename}`;
+
+    // innerHTML serializes "&" in attribute values as "&amp;"
+    for (const form of new Set([remoteUrl, remoteUrl.replace(/&/g, '&amp;')])) {
+      normalized = normalized.split(form).join(localPath);
+    }
 
-    normalized = normalized.split(remoteUrl).join(localPath);
+    assets.set(mediaId, { media_id: mediaId, url: normalizedUrl.url, content_type: contentType });
   });
 
   normalized = normalized.replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '');
@@ -209,23 +269,11 @@ function normalizeContentHtml(html: string, imageUrls: string[], postId: string)
   normalized = normalized.replace(/href="javascript:[^"]*"/gi, 'href="#"');
   normalized = normalized.replace(/src="javascript:[^"]*"/gi, '');
 
-  return normalized;
-}
-
-/**
- * Extract file extension from URL
- * @param url - Image URL
- * @returns Extension with dot (e.g., ".jpg") or empty string
- */
-function getExtensionFromUrl(url: string): string {
-  try {
-    const urlObj = new URL(url);
-    const pathname = urlObj.pathname;
-    const match = pathname.match(/\.(jpg|jpeg|png|gif|webp|svg)$/i);
-    return match ? `.${match[1].toLowerCase()}` : '.jpg';
-  } catch {
-    return '.jpg';
-  }
+  return {
+    html: normalized,
+    assets: Array.from(assets.values()),
+    skippedImages: Array.from(skippedImages.values()),
+  };
 }
 
 /**
@@ -261,25 +309,3 @@ function generateIdFromUrl(url: string): string {
   const hash = createHash('sha256').update(url).digest('hex');
   return hash.substring(0, 16);
 }
-
-/**
- * Extract embedded asset URLs from blog posts for download queue
- * @param posts - Array of blog posts
- * @returns Map of asset URL to local path
- */
-export function extractAssetUrls(posts: BlogPost[]): Map<string, string> {
-  const assetMap = new Map<string, string>();
-
-  for (const post of posts) {
-    const imgMatches = post.content_html.matchAll(/src="([^"]+)"/g);
-    
-    for (const match of imgMatches) {
-      const localPath = match[1];
-      if (localPath.startsWith('../.vsco-backup/media/')) {
-        assetMap.set(localPath, localPath);
-      }
-    }
-  }
-
-  return assetMap;
-}
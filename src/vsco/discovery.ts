@@ -2,7 +2,11 @@ import { chromium, Browser, BrowserContext, Page, Response } from 'playwright';
 import { getLogger } from '../utils/logger.js';
 import { retry } from '../utils/retry.js';
 import { captureArtifacts } from '../utils/artifacts.js';
-import { normalizeVscoAssetUrl } from './url.js';
+import { getGalleryIdFromUrl, normalizeVscoAssetUrl, VSCO_ORIGIN } from './url.js';
+import { readPhotoMetadata } from './metadata.js';
+import { classifyVideoUrl, getNextPageUrl, isMediaListUrl, parseMediaListResponse } from './api.js';
+import type { MediaListPage } from './api.js';
+import { findSiteIdentity, mergeIdentity, parseMetaIdentity } from './identity.js';
 import {
   ProfileDiscoveryResult,
   DiscoveryOptions,
@@ -10,29 +14,69 @@ import {
   Gallery,
   BlogPost,
   ScrollState,
+  ProfileIdentity,
 } from './types.js';
 
 export const DEFAULT_USER_AGENT =
   'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
 
+interface ResolvedDiscoveryOptions {
+  noNewContentThreshold: number;
+  maxScrollCycles: number;
+  maxItems?: number;
+  navigationTimeout: number;
+  headless: boolean;
+  userAgent: string;
+  knownIds?: ReadonlySet<string>;
+  knownStreak?: number;
+}
+
+/** Photos found by one discovery strategy, and why it stopped */
+interface StrategyResult {
+  photos: Photo[];
+  isComplete: boolean;
+  stoppingReason: string;
+  strategy: 'api' | 'dom';
+}
+
+/**
+ * Whether incremental discovery has seen enough consecutive known photos to stop
+ * @param ids - IDs discovered so far, newest first
+ */
+function reachedKnownStreak(ids: Iterable<string>, opts: ResolvedDiscoveryOptions): boolean {
+  if (!opts.knownIds || opts.knownStreak === undefined) return false;
+
+  let streak = 0;
+  for (const id of ids) {
+    streak = opts.knownIds.has(id) ? streak + 1 : 0;
+    if (streak >= opts.knownStreak) return true;
+  }
+  return false;
+}
+
+/** Longest wait for the grid's first media-list call after the page is ready */
+const MEDIA_LIST_WAIT_MS = 5000;
+
 export async function discoverProfile(
   username: string,
   options?: DiscoveryOptions
 ): Promise<ProfileDiscoveryResult> {
   const logger = getLogger();
-  const opts = {
+  const opts: ResolvedDiscoveryOptions = {
     noNewContentThreshold: options?.noNewContentThreshold ?? 3,
     maxScrollCycles: options?.maxScrollCycles ?? 50,
     maxItems: options?.maxItems,
     navigationTimeout: options?.navigationTimeout ?? 30000,
     headless: options?.headless ?? true,
     userAgent: options?.userAgent ?? DEFAULT_USER_AGENT,
+    knownIds: options?.knownIds,
+    knownStreak: options?.knownStreak,
   };
 
   logger.phaseStart('Profile Discovery');
   logger.debug(`Discovering profile: ${username}`);
 
-  const profileUrl = `https://vsco.co/${username}/gallery`;
+  const profileUrl = `${options?.baseUrl ?? VSCO_ORIGIN}/${username}/gallery`;
   let browser: Browser | null = null;
   let context: BrowserContext | null = null;
   let page: Page | null = null;
@@ -109,59 +153,19 @@ export async function discoverProfile(
       };
     }
 
-    const scrollState: ScrollState = {
-      currentCycle: 0,
-      totalIds: new Set<string>(),
-      cyclesWithoutNewContent: 0,
-      lastIdCount: 0,
-    };
-
-    logger.debug('Starting scroll discovery loop');
-    while (
-      scrollState.currentCycle < opts.maxScrollCycles &&
-      scrollState.cyclesWithoutNewContent < opts.noNewContentThreshold &&
-      (opts.maxItems === undefined || scrollState.totalIds.size < opts.maxItems)
-    ) {
-      scrollState.currentCycle++;
-
-      await scrollToBottom(activePage);
-      await activePage.waitForTimeout(1500);
-
-      const currentIds = await extractContentIds(activePage, networkData);
-      const previousIdCount = scrollState.lastIdCount;
-      currentIds.forEach((id) => scrollState.totalIds.add(id));
-      scrollState.lastIdCount = scrollState.totalIds.size;
-
-      if (scrollState.lastIdCount === previousIdCount) {
-        scrollState.cyclesWithoutNewContent++;
-        logger.debug(
-          `Cycle ${scrollState.currentCycle}: No new IDs (${scrollState.cyclesWithoutNewContent}/${opts.noNewContentThreshold})`
-        );
-      } else {
-        const newCount = scrollState.lastIdCount - previousIdCount;
-        scrollState.cyclesWithoutNewContent = 0;
-        logger.debug(
-          `Cycle ${scrollState.currentCycle}: Found ${newCount} new IDs (total: ${scrollState.lastIdCount})`
-        );
-      }
-    }
+    const identity = await extractProfileIdentity(activePage, networkData, username);
 
-    let stoppingReason = '';
-    if (opts.maxItems !== undefined && scrollState.totalIds.size >= opts.maxItems) {
-      stoppingReason = `Reached max items limit: ${opts.maxItems}`;
-    } else if (scrollState.currentCycle >= opts.maxScrollCycles) {
-      stoppingReason = `Reached max scroll cycles: ${opts.maxScrollCycles}`;
-    } else {
-      stoppingReason = `No new content for ${opts.noNewContentThreshold} consecutive cycles`;
-    }
+    // Follow the media-list API the grid called; scroll the page only if that does not work
+    const apiDiscovery = await discoverViaApi(activePage, networkData, opts);
+    const { photos, isComplete, stoppingReason, strategy } =
+      apiDiscovery ?? (await discoverViaScrolling(activePage, networkData, opts));
     logger.debug(`Stopping reason: ${stoppingReason}`);
 
-    const photos = await extractPhotos(activePage, networkData);
     const galleries = await extractGalleries(activePage);
     const blogPosts = await extractBlogPosts(activePage);
 
     logger.debug(
-      `Discovery complete: ${photos.length} photos, ${galleries.length} galleries, ${blogPosts.length} blog posts`
+      `Discovery complete (${strategy}): ${photos.length} photos, ${galleries.length} galleries, ${blogPosts.length} blog posts`
     );
 
     const isEmpty = photos.length === 0 && galleries.length === 0 && blogPosts.length === 0;
@@ -180,6 +184,9 @@ export async function discoverProfile(
       galleries,
       blogPosts,
       isEmpty,
+      isComplete,
+      strategy,
+      identity,
     };
   } catch (error) {
     const logger = getLogger();
@@ -224,20 +231,213 @@ export async function discoverProfile(
   }
 }
 
+/**
+ * Scroll the profile grid until no new IDs appear, then read photos from the DOM and captured JSON
+ */
+async function discoverViaScrolling(
+  activePage: Page,
+  networkData: NetworkData,
+  opts: ResolvedDiscoveryOptions
+): Promise<StrategyResult> {
+  const logger = getLogger();
+  const scrollState: ScrollState = {
+    currentCycle: 0,
+    totalIds: new Set<string>(),
+    cyclesWithoutNewContent: 0,
+    lastIdCount: 0,
+  };
+
+  logger.debug('Starting scroll discovery loop');
+  while (
+    scrollState.currentCycle < opts.maxScrollCycles &&
+    scrollState.cyclesWithoutNewContent < opts.noNewContentThreshold &&
+    (opts.maxItems === undefined || scrollState.totalIds.size < opts.maxItems) &&
+    !reachedKnownStreak(scrollState.totalIds, opts)
+  ) {
+    scrollState.currentCycle++;
+
+    await scrollToBottom(activePage);
+    await activePage.waitForTimeout(1500);
+
+    const currentIds = await extractContentIds(activePage, networkData);
+    const previousIdCount = scrollState.lastIdCount;
+    currentIds.forEach((id) => scrollState.totalIds.add(id));
+    scrollState.lastIdCount = scrollState.totalIds.size;
+
+    if (scrollState.lastIdCount === previousIdCount) {
+      scrollState.cyclesWithoutNewContent++;
+      logger.debug(
+        `Cycle ${scrollState.currentCycle}: No new IDs (${scrollState.cyclesWithoutNewContent}/${opts.noNewContentThreshold})`
+      );
+    } else {
+      const newCount = scrollState.lastIdCount - previousIdCount;
+      scrollState.cyclesWithoutNewContent = 0;
+      logger.debug(
+        `Cycle ${scrollState.currentCycle}: Found ${newCount} new IDs (total: ${scrollState.lastIdCount})`
+      );
+    }
+  }
+
+  let stoppingReason = '';
+  let isComplete = false;
+  if (opts.maxItems !== undefined && scrollState.totalIds.size >= opts.maxItems) {
+    stoppingReason = `Reached max items limit: ${opts.maxItems}`;
+  } else if (reachedKnownStreak(scrollState.totalIds, opts)) {
+    stoppingReason = `Reached ${opts.knownStreak} consecutive already backed-up photos`;
+  } else if (scrollState.currentCycle >= opts.maxScrollCycles) {
+    stoppingReason = `Reached max scroll cycles: ${opts.maxScrollCycles}`;
+  } else {
+    stoppingReason = `No new content for ${opts.noNewContentThreshold} consecutive cycles`;
+    isComplete = true;
+  }
+
+  const photos = await extractPhotos(activePage, networkData);
+  return { photos, isComplete, stoppingReason, strategy: 'dom' };
+}
+
+/** A media-list response the page received, with what is needed to request the next page */
+interface CapturedMediaList {
+  url: string;
+  /** Request headers the page sent (e.g. its API authorization), minus HTTP/2 pseudo-headers */
+  headers: Record<string, string>;
+  listPage: MediaListPage;
+}
+
 interface NetworkData {
   apiResponses: any[];
+  mediaLists: CapturedMediaList[];
   mediaUrls: Set<string>;
 }
 
+/**
+ * Read a page response as a media list
+ * @returns null for failed responses and bodies that are not media lists
+ */
+async function readMediaListResponse(response: Response): Promise<CapturedMediaList | null> {
+  if (!response.ok() || !isMediaListUrl(response.url())) return null;
+
+  try {
+    const listPage = parseMediaListResponse(await response.json());
+    if (!listPage) return null;
+
+    const headers = Object.fromEntries(
+      Object.entries(await response.request().allHeaders()).filter(([name]) => !name.startsWith(':'))
+    );
+    return { url: response.url(), headers, listPage };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fetch a media-list page from inside the page, so it carries the page's cookies and
+ * goes through the same routing (fixture replay) and response events (recording)
+ */
+async function fetchMediaListPage(page: Page, url: string, headers: Record<string, string>): Promise<MediaListPage> {
+  const { status, body } = await page.evaluate(
+    async ({ url, headers }) => {
+      const response = await fetch(url, { headers, credentials: 'include' });
+      return { status: response.status, body: await response.text() };
+    },
+    { url, headers }
+  );
+
+  if (status < 200 || status >= 300) {
+    throw Object.assign(new Error(`HTTP ${status}: media list page failed`), { status });
+  }
+
+  const listPage = parseMediaListResponse(JSON.parse(body));
+  if (!listPage) {
+    throw new Error('Unrecognized media list response');
+  }
+  return listPage;
+}
+
+/**
+ * Follow the pagination of the media-list API the profile grid called
+ * @returns null when the grid made no media-list call, or a page could not be fetched or read
+ */
+async function discoverViaApi(
+  activePage: Page,
+  networkData: NetworkData,
+  opts: ResolvedDiscoveryOptions
+): Promise<StrategyResult | null> {
+  const logger = getLogger();
+
+  let current =
+    networkData.mediaLists[0] ??
+    (await activePage
+      .waitForResponse((response) => response.ok() && isMediaListUrl(response.url()), {
+        timeout: Math.min(opts.navigationTimeout, MEDIA_LIST_WAIT_MS),
+      })
+      .then(readMediaListResponse)
+      .catch(() => null));
+
+  if (!current) {
+    logger.debug('No media list API call seen, falling back to DOM scrolling');
+    return null;
+  }
+
+  const photos = new Map<string, Photo>();
+  let pages = 0;
+
+  for (;;) {
+    pages++;
+    current.listPage.photos.forEach((photo) => {
+      if (!photos.has(photo.id)) photos.set(photo.id, photo);
+    });
+    logger.debug(`Media list page ${pages}: ${current.listPage.photos.length} items (total: ${photos.size})`);
+
+    const nextUrl = getNextPageUrl(current.url, current.listPage);
+    const result = (isComplete: boolean, stoppingReason: string): StrategyResult => ({
+      photos: Array.from(photos.values()),
+      isComplete,
+      stoppingReason,
+      strategy: 'api',
+    });
+
+    if (!nextUrl) {
+      return result(true, `Reached the last media list page (${pages} pages)`);
+    }
+    if (opts.maxItems !== undefined && photos.size >= opts.maxItems) {
+      return result(false, `Reached max items limit: ${opts.maxItems}`);
+    }
+    if (reachedKnownStreak(photos.keys(), opts)) {
+      return result(false, `Reached ${opts.knownStreak} consecutive already backed-up photos`);
+    }
+    if (pages >= opts.maxScrollCycles) {
+      return result(false, `Reached max media list pages: ${opts.maxScrollCycles}`);
+    }
+
+    const { headers } = current;
+    try {
+      const listPage = await retry(() => fetchMediaListPage(activePage, nextUrl, headers), { maxAttempts: 3 });
+      current = { url: nextUrl, headers, listPage };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`Media list paging failed (${message}), falling back to DOM scrolling`);
+      return null;
+    }
+  }
+}
+
 async function setupNetworkInterception(page: Page): Promise<NetworkData> {
   const networkData: NetworkData = {
     apiResponses: [],
+    mediaLists: [],
     mediaUrls: new Set<string>(),
   };
 
   page.on('response', async (response: Response) => {
     const url = response.url();
 
+    if (isMediaListUrl(url)) {
+      const mediaList = await readMediaListResponse(response);
+      if (mediaList) {
+        networkData.mediaLists.push(mediaList);
+      }
+    }
+
     if (url.includes('/api/') || url.includes('/media/')) {
       try {
         if (url.includes('.json') || response.headers()['content-type']?.includes('application/json')) {
@@ -249,7 +449,13 @@ async function setupNetworkInterception(page: Page): Promise<NetworkData> {
       }
     }
 
-    if (url.includes('.jpg') || url.includes('.png') || url.includes('.webp')) {
+    if (
+      url.includes('.jpg') ||
+      url.includes('.png') ||
+      url.includes('.webp') ||
+      url.includes('.mp4') ||
+      url.includes('.m3u8')
+    ) {
       networkData.mediaUrls.add(url);
     }
   });
@@ -346,9 +552,9 @@ async function scrollToBottom(page: Page): Promise<void> {
 async function extractContentIds(page: Page, networkData: NetworkData): Promise<Set<string>> {
   const ids = new Set<string>();
 
-  for (const response of networkData.apiResponses) {
-    const extracted = extractIdsFromJson(response.data);
-    extracted.forEach((id) => ids.add(id));
+  // Only media lists count: other JSON carries site, user and preset IDs too
+  for (const { listPage } of networkData.mediaLists) {
+    listPage.photos.forEach((photo) => ids.add(photo.id));
   }
 
   const domIds = await page.evaluate(() => {
@@ -380,35 +586,19 @@ async function extractContentIds(page: Page, networkData: NetworkData): Promise<
   return ids;
 }
 
-function extractIdsFromJson(data: any): Set<string> {
-  const ids = new Set<string>();
-
-  function traverse(obj: any) {
-    if (!obj || typeof obj !== 'object') return;
-
-    if (obj.id && typeof obj.id === 'string') {
-      ids.add(obj.id);
-    }
-
-    if (obj._id && typeof obj._id === 'string') {
-      ids.add(obj._id);
-    }
-
-    if (Array.isArray(obj)) {
-      obj.forEach(traverse);
-    } else {
-      Object.values(obj).forEach(traverse);
-    }
-  }
-
-  traverse(data);
-  return ids;
-}
-
 async function extractPhotos(page: Page, networkData: NetworkData): Promise<Photo[]> {
   const photos: Photo[] = [];
   const seenIds = new Set<string>();
 
+  for (const { listPage } of networkData.mediaLists) {
+    listPage.photos.forEach((photo) => {
+      if (!seenIds.has(photo.id)) {
+        seenIds.add(photo.id);
+        photos.push(photo);
+      }
+    });
+  }
+
   for (const response of networkData.apiResponses) {
     const extracted = extractPhotosFromJson(response.data);
     extracted.forEach((photo) => {
@@ -421,15 +611,25 @@ async function extractPhotos(page: Page, networkData: NetworkData): Promise<Phot
 
   const domPhotos = await page.evaluate(() => {
     const photoElements = Array.from(
-      document.querySelectorAll('a[href*="/media/"], img[src*="vsco"], [role="img"]')
+      document.querySelectorAll('a[href*="/media/"], img[src*="vsco"], [role="img"], video')
     );
 
+    const readVideo = (video: HTMLVideoElement) => {
+      const source = video.querySelector('source[src]') as HTMLSourceElement | null;
+      return {
+        videoUrl: video.src || source?.src || '',
+        posterUrl: video.poster || '',
+      };
+    };
+
     return photoElements
       .map((el) => {
         let id = '';
         let imageUrl = '';
         let thumbnailUrl = '';
         let permalink = '';
+        let videoUrl = '';
+        let posterUrl = '';
 
         if (el.tagName === 'A') {
           const href = el.getAttribute('href') || '';
@@ -444,14 +644,27 @@ async function extractPhotos(page: Page, networkData: NetworkData): Promise<Phot
             thumbnailUrl = img.src || '';
             imageUrl = img.src || '';
           }
+
+          const video = el.querySelector('video');
+          if (video) {
+            ({ videoUrl, posterUrl } = readVideo(video));
+          }
         } else if (el.tagName === 'IMG') {
           const img = el as HTMLImageElement;
           imageUrl = img.src || '';
           thumbnailUrl = img.src || '';
           id = imageUrl.match(/\/([a-zA-Z0-9]+)\./)?.[1] || '';
+        } else if (el.tagName === 'VIDEO') {
+          ({ videoUrl, posterUrl } = readVideo(el as HTMLVideoElement));
+          const link = el.closest('a[href*="/media/"]');
+          const match = link?.getAttribute('href')?.match(/\/media\/([a-zA-Z0-9]+)/);
+          id = match?.[1] || el.getAttribute('data-id') || '';
+          permalink = link?.getAttribute('href') || '';
+          imageUrl = posterUrl;
+          thumbnailUrl = posterUrl;
         }
 
-        return { id, imageUrl, thumbnailUrl, permalink };
+        return { id, imageUrl, thumbnailUrl, permalink, videoUrl, posterUrl };
       })
       .filter((photo) => photo.id);
   });
@@ -459,15 +672,32 @@ async function extractPhotos(page: Page, networkData: NetworkData): Promise<Phot
   const logger = getLogger();
   domPhotos.forEach((photo) => {
     if (!seenIds.has(photo.id)) {
-      const normalized = normalizeVscoAssetUrl(photo.imageUrl);
-      if (!normalized.ok) {
+      const { videoUrl, posterUrl, ...rest } = photo;
+      const normalized = normalizeVscoAssetUrl(photo.imageUrl || posterUrl);
+      const normalizedVideo = videoUrl ? normalizeVscoAssetUrl(videoUrl) : null;
+
+      if (!normalized.ok && !normalizedVideo?.ok) {
         logger.debug(`Skipping photo ${photo.id}: ${normalized.reason} (input: ${normalized.input})`);
         return;
       }
       seenIds.add(photo.id);
+
+      if (!videoUrl && !posterUrl) {
+        photos.push({
+          ...rest,
+          imageUrl: normalized.ok ? normalized.url : undefined,
+          mediaType: 'image',
+        });
+        return;
+      }
+
+      const video = normalizedVideo?.ok ? classifyVideoUrl(normalizedVideo.url) : {};
       photos.push({
-        ...photo,
-        imageUrl: normalized.url,
+        ...rest,
+        imageUrl: normalized.ok ? normalized.url : undefined,
+        mediaType: 'video',
+        ...video,
+        posterUrl: normalized.ok ? normalized.url : undefined,
       });
     }
   });
@@ -475,6 +705,55 @@ async function extractPhotos(page: Page, networkData: NetworkData): Promise<Phot
   return photos;
 }
 
+/**
+ * Detect VSCO video / DSCO clip fields on a media JSON object
+ * Returns null for plain images
+ */
+function extractVideoFromJson(obj: unknown): { videoUrl?: string; streamUrl?: string; rawPosterUrl?: string } | null {
+  if (!obj || typeof obj !== 'object') {
+    return null;
+  }
+
+  const media = obj as Record<string, unknown>;
+  const isUrl = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+  const rawVideoUrls = [
+    media.videoUrl,
+    media.video_url,
+    media.playbackUrl,
+    media.playback_url,
+    media.dscoUrl,
+    media.dsco_url,
+  ].filter(isUrl);
+
+  const isVideo =
+    media.isVideo === true ||
+    media.is_video === true ||
+    media.type === 'video' ||
+    media.mediaType === 'video' ||
+    rawVideoUrls.length > 0;
+
+  if (!isVideo) {
+    return null;
+  }
+
+  const result: { videoUrl?: string; streamUrl?: string; rawPosterUrl?: string } = {
+    rawPosterUrl: [media.posterUrl, media.poster_url, media.imageUrl, media.responsiveUrl, media.responsive_url].find(
+      isUrl
+    ),
+  };
+
+  for (const raw of rawVideoUrls) {
+    const normalized = normalizeVscoAssetUrl(raw);
+    if (!normalized.ok) continue;
+
+    const classified = classifyVideoUrl(normalized.url);
+    result.videoUrl ??= classified.videoUrl;
+    result.streamUrl ??= classified.streamUrl;
+  }
+
+  return result;
+}
+
 function extractPhotosFromJson(data: any): Photo[] {
   const photos: Photo[] = [];
   const logger = getLogger();
@@ -482,22 +761,32 @@ function extractPhotosFromJson(data: any): Photo[] {
   function traverse(obj: any) {
     if (!obj || typeof obj !== 'object') return;
 
-    if (obj.id && (obj.imageUrl || obj.permalink || obj.responsiveUrl)) {
-      const rawImageUrl = obj.imageUrl || obj.responsiveUrl;
+    const video = obj.id ? extractVideoFromJson(obj) : null;
+
+    if (obj.id && (obj.imageUrl || obj.permalink || obj.responsiveUrl || video)) {
+      const rawImageUrl = video ? video.rawPosterUrl : obj.imageUrl || obj.responsiveUrl;
       const normalized = normalizeVscoAssetUrl(rawImageUrl);
       
-      if (!normalized.ok) {
+      if (!normalized.ok && !video?.videoUrl) {
         logger.debug(`Skipping photo ${obj.id} from JSON: ${normalized.reason} (input: ${normalized.input})`);
         return;
       }
 
+      const imageUrl = normalized.ok ? normalized.url : undefined;
+
       photos.push({
         id: obj.id,
         permalink: obj.permalink,
-        imageUrl: normalized.url,
+        imageUrl,
         thumbnailUrl: obj.thumbnailUrl || obj.imageUrl,
-        uploadDate: obj.uploadDate || obj.captureDate,
         caption: obj.description || obj.caption,
+        ...readPhotoMetadata(obj),
+        mediaType: video ? 'video' : 'image',
+        ...(video && {
+          videoUrl: video.videoUrl,
+          streamUrl: video.streamUrl,
+          posterUrl: imageUrl,
+        }),
       });
     }
 
@@ -512,35 +801,63 @@ function extractPhotosFromJson(data: any): Photo[] {
   return photos;
 }
 
+/**
+ * Read who the profile belongs to: the site object from the page state or an API
+ * response, with Open Graph tags filling in what it lacks
+ */
+async function extractProfileIdentity(
+  page: Page,
+  networkData: NetworkData,
+  username: string
+): Promise<ProfileIdentity | undefined> {
+  try {
+    const { state, meta } = await page.evaluate(() => {
+      const content = (property: string) =>
+        document.querySelector(`meta[property="${property}"]`)?.getAttribute('content') || undefined;
+      return {
+        state: (window as unknown as { __PRELOADED_STATE__?: unknown }).__PRELOADED_STATE__ ?? null,
+        meta: { title: content('og:title'), image: content('og:image') },
+      };
+    });
+
+    const site =
+      findSiteIdentity(state, username) ??
+      networkData.apiResponses.map(({ data }) => findSiteIdentity(data, username)).find(Boolean) ??
+      null;
+    if (!site) {
+      getLogger().debug('No site object for the profile; reading identity from meta tags only');
+    }
+
+    const identity = mergeIdentity(site, parseMetaIdentity(meta, username));
+    return Object.values(identity).some((value) => value !== undefined) ? identity : undefined;
+  } catch (error) {
+    getLogger().debug(`Could not read profile identity: ${(error as Error).message}`);
+    return undefined;
+  }
+}
+
 async function extractGalleries(page: Page): Promise<Gallery[]> {
   const rawGalleries = await page.evaluate(() => {
     const galleryElements = Array.from(
       document.querySelectorAll('a[href*="/collection/"], a[href*="/gallery/"], [data-collection-id]')
     );
 
-    return galleryElements
-      .map((el) => {
-        const href = el.getAttribute('href') || '';
-        const match = href.match(/\/(collection|gallery)\/([a-zA-Z0-9]+)/);
-        
-        if (!match) return null;
-
-        const id = match[2];
-        const name = el.textContent?.trim() || undefined;
-        const img = el.querySelector('img');
-        const thumbnailUrl = img?.src || undefined;
-
-        return {
-          id,
-          name,
-          permalink: href,
-          thumbnailUrl,
-        };
-      })
-      .filter((g) => g !== null);
+    return galleryElements.map((el) => ({
+      href: el.getAttribute('href') || '',
+      name: el.textContent?.trim() || undefined,
+      thumbnailUrl: el.querySelector('img')?.src || undefined,
+    }));
   });
 
-  return rawGalleries as Gallery[];
+  const galleries = new Map<string, Gallery>();
+  for (const { href, name, thumbnailUrl } of rawGalleries) {
+    // Same ID scheme as scrapeGalleries, so either source matches the manifest
+    const id = getGalleryIdFromUrl(href);
+    if (id && !galleries.has(id)) {
+      galleries.set(id, { id, name, permalink: href, thumbnailUrl });
+    }
+  }
+  return [...galleries.values()];
 }
 
 async function extractBlogPosts(page: Page): Promise<BlogPost[]> {
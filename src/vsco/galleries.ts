@@ -3,9 +3,11 @@
  * Discovers galleries and their photo memberships from VSCO profile
  */
 
-import { chromium, Browser, Page } from 'playwright';
+import type { Page } from 'playwright';
 import type { Gallery } from '../manifest/types.js';
 import { generateSlug } from '../utils/paths.js';
+import { getLogger } from '../utils/logger.js';
+import { getGalleryIdFromUrl, normalizeVscoAssetUrl, VSCO_ORIGIN } from './url.js';
 import { createHash } from 'crypto';
 
 /**
@@ -26,46 +28,94 @@ interface RawGalleryData {
 
 /**
  * Generate stable gallery ID from URL
- * Uses hash of canonical URL for deterministic IDs
+ * The slug from the URL path, as discovery uses; a hash of the URL only for links without one
  *
  * @param url - Gallery URL
  * @returns Stable gallery ID
  */
 function generateGalleryId(url: string): string {
+  const slug = getGalleryIdFromUrl(url);
+  if (slug) {
+    return slug;
+  }
   const hash = createHash('sha256').update(url).digest('hex');
   return `gallery-${hash.substring(0, 16)}`;
 }
 
+/**
+ * Options for gallery enumeration
+ */
+export interface GalleryScrapeOptions {
+  /**
+   * Maximum scroll cycles per gallery page (hard cap)
+   * @default 20
+   */
+  maxScrollCycles?: number;
+
+  /**
+   * Number of scroll cycles with no new photo IDs before a gallery is considered fully loaded
+   * @default 2
+   */
+  noNewContentThreshold?: number;
+
+  /**
+   * Timeout for page navigation (ms)
+   * @default 30000
+   */
+  navigationTimeout?: number;
+
+  /**
+   * Origin to load gallery pages from
+   * @default https://vsco.co
+   */
+  baseUrl?: string;
+}
+
 /**
  * Scrape gallery list and enumerate photo memberships
  *
+ * @param page - Playwright page instance (shared with discovery)
  * @param username - VSCO username
+ * @param options - Paging and timeout options
  * @returns Array of Gallery objects with photo_ids
  */
-export async function scrapeGalleries(username: string): Promise<Gallery[]> {
-  let browser: Browser | undefined;
-  
+export async function scrapeGalleries(
+  page: Page,
+  username: string,
+  options?: GalleryScrapeOptions
+): Promise<Gallery[]> {
+  const logger = getLogger();
+  const opts = {
+    maxScrollCycles: options?.maxScrollCycles ?? 20,
+    noNewContentThreshold: options?.noNewContentThreshold ?? 2,
+    navigationTimeout: options?.navigationTimeout ?? 30000,
+    baseUrl: options?.baseUrl ?? VSCO_ORIGIN,
+  };
+
+  logger.phaseStart('Gallery Enumeration');
+
+  // Navigate to profile galleries page
+  const profileUrl = `${opts.baseUrl}/${username}/gallery`;
   try {
-    // Launch browser
-    browser = await chromium.launch({ headless: true });
-    const page = await browser.newPage();
+    await page.goto(profileUrl, { waitUntil: 'load', timeout: opts.navigationTimeout });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn(`Could not load gallery list for ${username}: ${message}`);
+    return [];
+  }
 
-    // Navigate to profile galleries page
-    const profileUrl = `https://vsco.co/${username}/gallery`;
-    await page.goto(profileUrl, { waitUntil: 'load' });
+  // Extract gallery data
+  const rawGalleries = await extractGalleryData(page, opts);
 
-    // Extract gallery data
-    const rawGalleries = await extractGalleryData(page);
+  // Convert to Gallery entities with stable slugs
+  const galleries = convertToGalleries(rawGalleries);
 
-    // Convert to Gallery entities with stable slugs
-    const galleries = convertToGalleries(rawGalleries);
+  logger.debug(
+    `Gallery enumeration complete: ${galleries.length} galleries, ` +
+      `${galleries.reduce((sum, g) => sum + g.photo_ids.length, 0)} memberships`
+  );
 
-    return galleries;
-  } finally {
-    if (browser) {
-      await browser.close();
-    }
-  }
+  return galleries;
 }
 
 /**
@@ -73,10 +123,15 @@ export async function scrapeGalleries(username: string): Promise<Gallery[]> {
  * Handles gallery discovery and photo enumeration
  *
  * @param page - Playwright page
- * @param username - VSCO username
+ * @param opts - Resolved scrape options
  * @returns Array of raw gallery data
  */
-async function extractGalleryData(page: Page): Promise<RawGalleryData[]> {
+async function extractGalleryData(
+  page: Page,
+  opts: Required<GalleryScrapeOptions>
+): Promise<RawGalleryData[]> {
+  const logger = getLogger();
+
   // Wait for galleries to load
   // VSCO uses dynamic rendering, so we need to wait for content
   await page.waitForTimeout(2000);
@@ -170,70 +225,113 @@ async function extractGalleryData(page: Page): Promise<RawGalleryData[]> {
     return result;
   });
 
-  // For each gallery, navigate and extract photo IDs
+  // For each gallery, navigate and page through its photo IDs
   for (const gallery of galleries) {
     try {
-      await page.goto(gallery.url, { waitUntil: 'load' });
+      await page.goto(gallery.url, { waitUntil: 'load', timeout: opts.navigationTimeout });
       await page.waitForTimeout(1500);
 
-      // Extract photo IDs from gallery page
-      const photoIds = await page.evaluate(() => {
-        const ids: string[] = [];
-        
-        // Try multiple selectors for photos
-        const photoSelectors = [
-          '[data-photo-id]',
-          'img[data-id]',
-          'a[href*="/media/"]',
-          '[data-medusa-id]'
-        ];
-
-        for (const selector of photoSelectors) {
-          const elements = document.querySelectorAll(selector);
-          
-          elements.forEach((el) => {
-            // Try to extract ID from data attributes
-            let photoId = el.getAttribute('data-photo-id') 
-              || el.getAttribute('data-id')
-              || el.getAttribute('data-medusa-id');
-            
-            // Fallback: extract from href
-            if (!photoId && el.tagName === 'A') {
-              const href = (el as HTMLAnchorElement).href;
-              const match = href.match(/\/media\/([a-f0-9]+)/);
-              if (match) {
-                photoId = match[1];
-              }
-            }
-
-            // Fallback: extract from image src
-            if (!photoId && el.tagName === 'IMG') {
-              const src = (el as HTMLImageElement).src;
-              const match = src.match(/\/([a-f0-9]{24,})\//);
-              if (match) {
-                photoId = match[1];
-              }
-            }
-
-            if (photoId && !ids.includes(photoId)) {
-              ids.push(photoId);
-            }
-          });
+      // Gallery pages use the same infinite scroll as the profile grid
+      const photoIds: string[] = [];
+      let cyclesWithoutNewContent = 0;
+
+      for (
+        let cycle = 0;
+        cycle < opts.maxScrollCycles && cyclesWithoutNewContent < opts.noNewContentThreshold;
+        cycle++
+      ) {
+        const previousCount = photoIds.length;
+
+        for (const id of await extractGalleryPhotoIds(page)) {
+          if (!photoIds.includes(id)) {
+            photoIds.push(id);
+          }
         }
 
-        return ids;
-      });
+        cyclesWithoutNewContent = photoIds.length === previousCount ? cyclesWithoutNewContent + 1 : 0;
+
+        await page.evaluate(() => {
+          window.scrollTo(0, document.body.scrollHeight);
+        });
+        await page.waitForTimeout(1500);
+      }
+
+      // The gallery header holds a fuller description than the list card
+      const headerDescription = await page
+        .locator('[data-description], .gallery-description')
+        .first()
+        .textContent({ timeout: 1000 })
+        .catch(() => null);
 
       gallery.photoIds = photoIds;
+      gallery.description = headerDescription?.trim() || gallery.description;
+
+      logger.debug(`Gallery "${gallery.name}": ${photoIds.length} photos`);
     } catch (error) {
       // Failed to load gallery, keep empty photo_ids
-      console.warn(`Failed to load gallery: ${gallery.url}`, error);
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`Failed to load gallery: ${gallery.url} (${message})`);
     }
   }
 
   return galleries;
 }
 
+/**
+ * Extract photo IDs currently rendered on a gallery page
+ *
+ * @param page - Playwright page (navigated to a gallery)
+ * @returns Photo IDs in page order
+ */
+async function extractGalleryPhotoIds(page: Page): Promise<string[]> {
+  return page.evaluate(() => {
+    const ids: string[] = [];
+    
+    // Try multiple selectors for photos
+    const photoSelectors = [
+      '[data-photo-id]',
+      'img[data-id]',
+      'a[href*="/media/"]',
+      '[data-medusa-id]'
+    ];
+
+    for (const selector of photoSelectors) {
+      const elements = document.querySelectorAll(selector);
+      
+      elements.forEach((el) => {
+        // Try to extract ID from data attributes
+        let photoId = el.getAttribute('data-photo-id') 
+          || el.getAttribute('data-id')
+          || el.getAttribute('data-medusa-id');
+        
+        // Fallback: extract from href
+        if (!photoId && el.tagName === 'A') {
+          const href = (el as HTMLAnchorElement).href;
+          const match = href.match(/\/media\/([a-zA-Z0-9]+)/);
+          if (match) {
+            photoId = match[1];
+          }
+        }
+
+        // Fallback: extract from image src
+        if (!photoId && el.tagName === 'IMG') {
+          const src = (el as HTMLImageElement).src;
+          const match = src.match(/\/([a-f0-9]{24,})\//);
+          if (match) {
+            photoId = match[1];
+          }
+        }
+
+        if (photoId && !ids.includes(photoId)) {
+          ids.push(photoId);
+        }
+      });
+    }
+
+    return ids;
+  });
+}
+
 /**
  * Convert raw gallery data to Gallery entities with stable slugs
  *
@@ -247,11 +345,13 @@ function convertToGalleries(rawGalleries: RawGalleryData[]): Gallery[] {
     const id = generateGalleryId(raw.url);
     generateSlug(raw.name, id, slugMap);
 
+    const cover = raw.coverPhotoUrl ? normalizeVscoAssetUrl(raw.coverPhotoUrl) : null;
+
     return {
       id,
       name: raw.name,
       description: raw.description,
-      cover_photo_url: raw.coverPhotoUrl,
+      cover_photo_url: cover?.ok ? cover.url : undefined,
       photo_ids: raw.photoIds
     };
   });
@@ -0,0 +1,69 @@
+/**
+ * Tests for reading profile identity from VSCO's site object and meta tags
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { findSiteIdentity, mergeIdentity, parseMetaIdentity, parseSiteIdentity } from './identity.js';
+
+const site = {
+  id: 12345,
+  user_id: 678,
+  subdomain: 'foo',
+  name: 'Foo Bar',
+  description: 'Film and travel\nBerlin',
+  profile_image: 'im.vsco.co/aws-us-west-2/ab/avatar.jpg',
+  external_link: 'foo.example.com',
+};
+
+describe('parseSiteIdentity', () => {
+  it('should read IDs, name, bio, avatar and links', () => {
+    expect(parseSiteIdentity(site)).toEqual({
+      siteId: '12345',
+      userId: '678',
+      displayName: 'Foo Bar',
+      bio: 'Film and travel\nBerlin',
+      avatarUrl: 'https://im.vsco.co/aws-us-west-2/ab/avatar.jpg',
+      links: ['https://foo.example.com/'],
+    });
+  });
+
+  it('should keep empty fields empty and drop unsafe links', () => {
+    const identity = parseSiteIdentity({
+      id: '1',
+      description: '',
+      links: ['https://a.example/', { url: 'https://a.example/' }, 'javascript:alert(1)'],
+    });
+
+    expect(identity?.bio).toBe('');
+    expect(identity?.links).toEqual(['https://a.example/']);
+    expect(identity?.displayName).toBeUndefined();
+  });
+
+  it('should reject objects without an ID', () => {
+    expect(parseSiteIdentity({ name: 'Foo' })).toBeNull();
+  });
+});
+
+describe('findSiteIdentity', () => {
+  it('should find the profile in API responses and page state, by subdomain', () => {
+    const other = { ...site, id: 1, subdomain: 'someoneelse' };
+
+    expect(findSiteIdentity({ sites: [other, site] }, 'foo')?.siteId).toBe('12345');
+    expect(findSiteIdentity({ entities: { sites: { 1: other, 12345: site } } }, 'FOO')?.siteId).toBe('12345');
+    expect(findSiteIdentity({ entities: { sites: { 1: other } } }, 'foo')).toBeNull();
+  });
+});
+
+describe('parseMetaIdentity and mergeIdentity', () => {
+  it('should fill gaps in the site object from Open Graph tags', () => {
+    const meta = parseMetaIdentity({ title: 'Foo Bar | VSCO', image: 'https://im.vsco.co/og.jpg' }, 'foo');
+
+    expect(meta).toEqual({ displayName: 'Foo Bar', avatarUrl: 'https://im.vsco.co/og.jpg' });
+    expect(parseMetaIdentity({ title: 'foo | VSCO' }, 'foo').displayName).toBeUndefined();
+    expect(mergeIdentity({ siteId: '1', displayName: 'Site Name' }, meta)).toEqual({
+      siteId: '1',
+      displayName: 'Site Name',
+      avatarUrl: 'https://im.vsco.co/og.jpg',
+    });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * VSCO profile identity parsing
+ * The profile page describes its owner in two places discovery can read:
+ * - The site object, embedded in the page's preloaded state (entities.sites) and returned by
+ *   /api/2.0/sites?subdomain=… → { id, user_id, subdomain, name, description, profile_image, … }
+ * - Open Graph meta tags, a fallback for the display name and profile picture
+ */
+
+import { toAssetUrl } from './api.js';
+import type { ProfileIdentity } from './types.js';
+
+/** Site object fields identity is read from (snake_case from the API, camelCase in page state) */
+export interface VscoSite {
+  id?: string | number;
+  user_id?: string | number;
+  userId?: string | number;
+  subdomain?: string;
+  name?: string;
+  description?: string;
+  profile_image?: string;
+  profileImage?: string;
+  external_link?: string;
+  externalLink?: string;
+  links?: unknown;
+  [field: string]: unknown;
+}
+
+/** Open Graph tags of the profile page */
+export interface ProfileMetaTags {
+  title?: string;
+  image?: string;
+}
+
+/** " | VSCO" and similar suffixes VSCO appends to page titles */
+const TITLE_SUFFIX = /\s*[|–—-]\s*VSCO\s*$/i;
+
+function readId(value: unknown): string | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+function readText(value: unknown): string | undefined {
+  return typeof value === 'string' ? value.trim() : undefined;
+}
+
+function toLinkUrl(value: unknown): string | undefined {
+  const raw = typeof value === 'string' ? value : (value as { url?: unknown } | null)?.url;
+  if (typeof raw !== 'string' || !raw.trim()) return undefined;
+
+  try {
+    const url = new URL(/^[a-z][a-z0-9+.-]*:/i.test(raw.trim()) ? raw.trim() : `https://${raw.trim()}`);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * External links of a site, deduplicated in page order
+ * @returns undefined when the site object carries no link fields at all
+ */
+function readLinks(site: VscoSite): string[] | undefined {
+  const sources = [site.links, site.external_link, site.externalLink].filter((value) => value !== undefined);
+  if (sources.length === 0) return undefined;
+
+  const links: string[] = [];
+  for (const source of sources) {
+    for (const value of Array.isArray(source) ? source : [source]) {
+      const url = toLinkUrl(value);
+      if (url && !links.includes(url)) links.push(url);
+    }
+  }
+  return links;
+}
+
+/**
+ * Read identity fields from a VSCO site object
+ * @returns null if it is not a site object (no ID)
+ */
+export function parseSiteIdentity(site: unknown): ProfileIdentity | null {
+  if (!site || typeof site !== 'object') return null;
+
+  const obj = site as VscoSite;
+  const siteId = readId(obj.id);
+  if (!siteId) return null;
+
+  return {
+    siteId,
+    userId: readId(obj.user_id ?? obj.userId),
+    displayName: readText(obj.name),
+    bio: readText(obj.description),
+    avatarUrl: toAssetUrl(obj.profile_image ?? obj.profileImage),
+    links: readLinks(obj),
+  };
+}
+
+/**
+ * Find the site object of `username` anywhere in a JSON document (API response or page state)
+ */
+export function findSiteIdentity(data: unknown, username: string): ProfileIdentity | null {
+  const wanted = username.toLowerCase();
+  const pending: unknown[] = [data];
+
+  while (pending.length > 0) {
+    const value = pending.pop();
+    if (!value || typeof value !== 'object') continue;
+
+    const subdomain = (value as VscoSite).subdomain;
+    if (typeof subdomain === 'string' && subdomain.toLowerCase() === wanted) {
+      const identity = parseSiteIdentity(value);
+      if (identity) return identity;
+    }
+    pending.push(...(Array.isArray(value) ? value : Object.values(value)));
+  }
+
+  return null;
+}
+
+/**
+ * Fallback identity from Open Graph tags
+ * A title that is just the username is not a display name
+ */
+export function parseMetaIdentity(meta: ProfileMetaTags, username: string): ProfileIdentity {
+  const displayName = meta.title?.replace(TITLE_SUFFIX, '').trim();
+
+  return {
+    displayName: displayName && displayName.toLowerCase() !== username.toLowerCase() ? displayName : undefined,
+    avatarUrl: toAssetUrl(meta.image),
+  };
+}
+
+/**
+ * Fill the fields `primary` could not read from `fallback`
+ */
+export function mergeIdentity(primary: ProfileIdentity | null, fallback: ProfileIdentity): ProfileIdentity {
+  const merged: ProfileIdentity = { ...fallback };
+  for (const [field, value] of Object.entries(primary ?? {})) {
+    if (value !== undefined) {
+      (merged as Record<string, unknown>)[field] = value;
+    }
+  }
+  return merged;
+}
@@ -1,4 +1,9 @@
 export { discoverProfile } from './discovery.js';
+export { scrapeGalleries } from './galleries.js';
+export type { GalleryScrapeOptions } from './galleries.js';
+export { scrapeBlogPosts } from './blog.js';
+export type { BlogScrapeResult } from './blog.js';
+export { VSCO_ORIGIN, getGalleryIdFromUrl } from './url.js';
 export type {
   ProfileDiscoveryResult,
   DiscoveryOptions,
@@ -6,4 +11,5 @@ export type {
   Gallery,
   BlogPost,
   ScrollState,
+  ProfileIdentity,
 } from './types.js';
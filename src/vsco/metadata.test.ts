@@ -0,0 +1,76 @@
+/**
+ * Tests for reading photo metadata from VSCO media JSON
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { readPhotoMetadata, toIsoDate } from './metadata.js';
+
+describe('toIsoDate', () => {
+  it('should accept epoch seconds, epoch milliseconds and date strings', () => {
+    expect(toIsoDate(1686768127)).toBe('2023-06-14T18:42:07.000Z');
+    expect(toIsoDate('1686768127000')).toBe('2023-06-14T18:42:07.000Z');
+    expect(toIsoDate('2023-06-14T18:42:07Z')).toBe('2023-06-14T18:42:07.000Z');
+  });
+
+  it('should reject unparseable and zero dates', () => {
+    expect(toIsoDate('soon')).toBeUndefined();
+    expect(toIsoDate(0)).toBeUndefined();
+    expect(toIsoDate(undefined)).toBeUndefined();
+  });
+});
+
+describe('readPhotoMetadata', () => {
+  it('should read the snake_case API media shape', () => {
+    const metadata = readPhotoMetadata({
+      id: 'abc',
+      upload_date: 1686800000000,
+      capture_date_ms: 1686768127000,
+      width: 3000,
+      height: 2000,
+      preset: { key: 'a6', short_name: 'A6', color: '#ccc' },
+      image_meta: { make: 'FUJIFILM', model: 'X100V', aperture: 2.8, exposure_time: 0.004, iso: 400 },
+      tags: [{ text: '#film', slug: 'film' }, { text: 'street' }, { text: 'film' }],
+    });
+
+    expect(metadata).toEqual({
+      uploadDate: '2023-06-15T03:33:20.000Z',
+      captureDate: '2023-06-14T18:42:07.000Z',
+      width: 3000,
+      height: 2000,
+      preset: 'A6',
+      exif: { make: 'FUJIFILM', model: 'X100V', aperture: 2.8, exposureTime: '1/250', iso: 400 },
+      tags: ['film', 'street'],
+    });
+  });
+
+  it('should read the camelCase page-state shape', () => {
+    const metadata = readPhotoMetadata({
+      id: 'abc',
+      uploadDate: '2023-06-15T03:33:20Z',
+      presetName: 'C1',
+      imageMeta: { cameraModel: 'iPhone 14', captureDate: 1686768127 },
+      tags: ['summer'],
+    });
+
+    expect(metadata.preset).toBe('C1');
+    expect(metadata.exif).toEqual({ model: 'iPhone 14', capturedAt: '2023-06-14T18:42:07.000Z' });
+    expect(metadata.captureDate).toBe('2023-06-14T18:42:07.000Z');
+    expect(metadata.tags).toEqual(['summer']);
+  });
+
+  it('should leave missing fields undefined', () => {
+    const metadata = readPhotoMetadata({ id: 'abc', imageUrl: 'https://im.vsco.co/abc.jpg' });
+
+    expect(Object.values(metadata).every((value) => value === undefined)).toBe(true);
+  });
+
+  it('should ignore values that are not objects where objects are expected', () => {
+    for (const value of [null, 'abc', 42, { preset: 7, image_meta: 'none', tags: [null, { text: 1 }] }]) {
+      const metadata = readPhotoMetadata(value);
+
+      expect(metadata.exif).toBeUndefined();
+      expect(metadata.tags).toEqual(value && typeof value === 'object' ? ['1'] : undefined);
+    }
+    expect(readPhotoMetadata({ preset: 7 }).preset).toBe('7');
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Photo metadata from VSCO media JSON
+ * VSCO serves the same media object in snake_case (API responses) and camelCase
+ * (embedded page state), so every field is read under both spellings
+ */
+
+import type { ExifData } from '../utils/exif.js';
+import type { Photo } from './types.js';
+
+type PhotoMetadata = Pick<
+  Photo,
+  'uploadDate' | 'captureDate' | 'width' | 'height' | 'preset' | 'exif' | 'tags'
+>;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object';
+}
+
+function pick(obj: unknown, ...keys: string[]): unknown {
+  if (!isRecord(obj)) return undefined;
+
+  for (const key of keys) {
+    const value = obj[key];
+    if (value !== undefined && value !== null && value !== '') {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+function asString(value: unknown): string | undefined {
+  if (typeof value === 'number') return String(value);
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof num === 'number' && Number.isFinite(num) && num > 0 ? num : undefined;
+}
+
+/**
+ * Normalize a VSCO timestamp to ISO 8601
+ * Accepts epoch seconds, epoch milliseconds or any date string Date can parse
+ */
+export function toIsoDate(value: unknown): string | undefined {
+  let date: Date;
+  if (typeof value === 'number' || (typeof value === 'string' && /^\d+$/.test(value))) {
+    const num = Number(value);
+    // Anything below ~1e11 is seconds; VSCO uses both
+    date = new Date(num < 1e11 ? num * 1000 : num);
+  } else if (typeof value === 'string') {
+    date = new Date(value);
+  } else {
+    return undefined;
+  }
+  return Number.isNaN(date.getTime()) || date.getTime() <= 0 ? undefined : date.toISOString();
+}
+
+function readPreset(obj: unknown): string | undefined {
+  const preset = pick(obj, 'preset', 'filter');
+  if (isRecord(preset)) {
+    return asString(pick(preset, 'short_name', 'shortName', 'key', 'name'));
+  }
+  return asString(preset) ?? asString(pick(obj, 'presetName', 'preset_name', 'filterName', 'filter_name'));
+}
+
+function readTags(obj: unknown): string[] | undefined {
+  const raw = pick(obj, 'tags', 'hashtags');
+  if (!Array.isArray(raw)) return undefined;
+
+  const tags = raw
+    .map((tag: unknown) => asString(isRecord(tag) ? pick(tag, 'text', 'slug', 'name') : tag))
+    .filter((tag): tag is string => tag !== undefined)
+    .map((tag) => tag.replace(/^#/, ''));
+
+  return tags.length > 0 ? [...new Set(tags)] : undefined;
+}
+
+function readExif(obj: unknown): ExifData | undefined {
+  const meta = pick(obj, 'image_meta', 'imageMeta', 'exif');
+  if (!isRecord(meta)) return undefined;
+
+  const exposure = pick(meta, 'exposure_time', 'exposureTime', 'shutter_speed', 'shutterSpeed');
+  const exif: ExifData = {
+    make: asString(pick(meta, 'make', 'camera_make', 'cameraMake')),
+    model: asString(pick(meta, 'model', 'camera_model', 'cameraModel')),
+    lens: asString(pick(meta, 'lens', 'lens_model', 'lensModel')),
+    aperture: asNumber(pick(meta, 'aperture', 'f_number', 'fNumber')),
+    exposureTime: typeof exposure === 'number' && exposure < 1 ? `1/${Math.round(1 / exposure)}` : asString(exposure),
+    iso: asNumber(pick(meta, 'iso', 'iso_speed', 'isoSpeed')),
+    focalLength: asNumber(pick(meta, 'focal_length', 'focalLength')),
+    capturedAt: toIsoDate(pick(meta, 'capture_date', 'captureDate')),
+  };
+
+  const present = Object.fromEntries(Object.entries(exif).filter(([, value]) => value !== undefined));
+  return Object.keys(present).length > 0 ? (present as ExifData) : undefined;
+}
+
+/**
+ * Read dates, dimensions, preset, camera data and tags from a VSCO media object
+ * Fields VSCO did not provide are left undefined
+ */
+export function readPhotoMetadata(obj: unknown): PhotoMetadata {
+  const exif = readExif(obj);
+
+  return {
+    uploadDate: toIsoDate(pick(obj, 'upload_date', 'uploadDate', 'created_date', 'createdDate')),
+    captureDate:
+      toIsoDate(pick(obj, 'capture_date_ms', 'capture_date', 'captureDate', 'captureDateMs')) ?? exif?.capturedAt,
+    width: asNumber(pick(obj, 'width')),
+    height: asNumber(pick(obj, 'height')),
+    preset: readPreset(obj),
+    exif,
+    tags: readTags(obj),
+  };
+}
@@ -1,4 +1,5 @@
 import type { Page } from 'playwright';
+import type { ExifData } from '../utils/exif.js';
 
 /**
  * VSCO profile discovery and content types
@@ -12,8 +13,26 @@ export interface Photo {
   permalink?: string;
   imageUrl?: string;
   thumbnailUrl?: string;
+  /** When the photo was posted to VSCO (ISO 8601) */
   uploadDate?: string;
+  /** When the photo was taken, if VSCO knows (ISO 8601) */
+  captureDate?: string;
   caption?: string;
+  width?: number;
+  height?: number;
+  /** VSCO preset/filter applied, e.g. "A6" */
+  preset?: string;
+  /** Camera data VSCO reports for the image */
+  exif?: ExifData;
+  tags?: string[];
+  /** 'video' for VSCO videos and DSCO clips, 'image' otherwise */
+  mediaType?: 'image' | 'video';
+  /** Progressive (MP4) video rendition, if discovered */
+  videoUrl?: string;
+  /** Adaptive stream (HLS/DASH) URL, if discovered */
+  streamUrl?: string;
+  /** Poster frame for videos */
+  posterUrl?: string;
 }
 
 /**
@@ -38,6 +57,24 @@ export interface BlogPost {
   excerpt?: string;
 }
 
+/**
+ * Who the profile belongs to, as VSCO describes it
+ * Text fields are '' (and links []) when VSCO reports them as empty, and
+ * undefined when discovery could not read them at all
+ */
+export interface ProfileIdentity {
+  /** VSCO's stable site ID; survives username changes */
+  siteId?: string;
+  /** VSCO's stable user ID */
+  userId?: string;
+  displayName?: string;
+  bio?: string;
+  /** Profile picture */
+  avatarUrl?: string;
+  /** External links shown on the profile, in page order */
+  links?: string[];
+}
+
 /**
  * Result from profile discovery
  */
@@ -48,7 +85,10 @@ export interface ProfileDiscoveryResult {
   galleries: Gallery[];
   blogPosts: BlogPost[];
   isEmpty: boolean; // true if profile has no content
+  isComplete?: boolean; // true if the media list or the scrolling ran out of content (not a limit)
   isPrivate?: boolean; // true if profile is private/suspended
+  strategy?: 'api' | 'dom'; // how photos were found: media list API pagination, or DOM scrolling as the fallback
+  identity?: ProfileIdentity; // display name, bio, avatar, links and IDs, if the page exposed them
   errorMessage?: string; // set if discovery failed
 }
 
@@ -104,6 +144,25 @@ export interface DiscoveryOptions {
   runId?: string;
 
   page?: Page;
+
+  /**
+   * IDs already backed up, for incremental discovery
+   * Used only together with knownStreak
+   */
+  knownIds?: ReadonlySet<string>;
+
+  /**
+   * Stop once this many consecutive photos (newest first) are in knownIds
+   * The result is then not complete, so nothing is inferred about older photos
+   * @default undefined (walk the whole profile)
+   */
+  knownStreak?: number;
+
+  /**
+   * Origin to load profile pages from (e.g. a local mock server)
+   * @default https://vsco.co
+   */
+  baseUrl?: string;
 }
 
 /**
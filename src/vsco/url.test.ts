@@ -1,4 +1,4 @@
-import { normalizeVscoAssetUrl } from './url';
+import { getGalleryIdFromUrl, normalizeVscoAssetUrl, parseProfileInput } from './url';
 
 describe('normalizeVscoAssetUrl', () => {
   describe('protocol-relative URLs', () => {
@@ -223,3 +223,25 @@ describe('normalizeVscoAssetUrl', () => {
     });
   });
 });
+
+describe('parseProfileInput', () => {
+  it('should accept full URLs, scheme-less URLs and bare usernames', () => {
+    expect(parseProfileInput('https://vsco.co/alice/gallery').username).toBe('alice');
+    expect(parseProfileInput('vsco.co/alice').normalized).toBe('https://vsco.co/alice');
+    expect(parseProfileInput(' alice ').normalized).toBe('https://vsco.co/alice');
+  });
+
+  it('should reject other hosts and malformed usernames', () => {
+    expect(() => parseProfileInput('https://example.com/alice')).toThrow(/Invalid VSCO profile URL/);
+    expect(() => parseProfileInput('not a user')).toThrow(/Invalid VSCO profile URL/);
+  });
+});
+
+describe('getGalleryIdFromUrl', () => {
+  it('should give relative and absolute links to a gallery the same ID', () => {
+    expect(getGalleryIdFromUrl('/foo/gallery/summer-2024')).toBe('summer-2024');
+    expect(getGalleryIdFromUrl('http://127.0.0.1:8080/foo/gallery/summer-2024?share=1')).toBe('summer-2024');
+    expect(getGalleryIdFromUrl('https://vsco.co/foo/collection/1')).toBe('1');
+    expect(getGalleryIdFromUrl('/foo/journal/hello')).toBeNull();
+  });
+});
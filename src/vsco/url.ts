@@ -5,6 +5,9 @@
 
 import { normalizeRemoteUrl, NormalizeResult } from '../utils/url.js';
 
+/** Origin every profile page is loaded from, unless a run overrides it */
+export const VSCO_ORIGIN = 'https://vsco.co';
+
 /**
  * Normalize a VSCO asset URL for download
  * 
@@ -20,3 +23,74 @@ import { normalizeRemoteUrl, NormalizeResult } from '../utils/url.js';
 export function normalizeVscoAssetUrl(input: string): NormalizeResult {
   return normalizeRemoteUrl(input);
 }
+
+/**
+ * Stable gallery ID: the slug (or collection ID) in the gallery's URL path
+ * Relative and absolute links to the same gallery give the same ID, whatever the origin
+ *
+ * @param href - Gallery link, e.g. "/foo/gallery/summer-2024" or "https://vsco.co/foo/collection/1"
+ * @returns The ID, or null if the link is not a gallery link
+ */
+export function getGalleryIdFromUrl(href: string): string | null {
+  return href.match(/\/(?:collection|gallery)\/([A-Za-z0-9_-]+)/)?.[1] ?? null;
+}
+
+/**
+ * Parsed VSCO profile URL
+ */
+export interface ParsedProfileUrl {
+  /** VSCO username */
+  username: string;
+  /** Canonical profile URL (https://vsco.co/<username>) */
+  normalized: string;
+}
+
+/**
+ * Parse and validate a VSCO profile URL
+ *
+ * @param urlString - Profile URL (e.g., https://vsco.co/username/gallery)
+ * @returns Username and canonical profile URL
+ * @throws Error if the URL is not a vsco.co profile URL
+ */
+export function parseProfileUrl(urlString: string): ParsedProfileUrl {
+  try {
+    const url = new URL(urlString);
+
+    if (url.hostname !== 'vsco.co') {
+      throw new Error(`Expected vsco.co domain, got ${url.hostname}`);
+    }
+
+    const pathname = url.pathname.replace(/^\//, '').replace(/\/$/, '');
+    if (!pathname) {
+      throw new Error('URL must include a username (e.g., https://vsco.co/username)');
+    }
+
+    const username = pathname.split('/')[0];
+    if (!username || !/^[a-zA-Z0-9_-]+$/.test(username)) {
+      throw new Error(`Invalid username format: ${username}`);
+    }
+
+    const normalized = `https://vsco.co/${username}`;
+    return { username, normalized };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`Invalid VSCO profile URL: ${message}`);
+  }
+}
+
+/**
+ * Parse a profile given as a full URL, a scheme-less URL (vsco.co/username) or a bare username
+ *
+ * @param input - Profile reference typed by the user
+ * @returns Username and canonical profile URL
+ * @throws Error if the input does not name a VSCO profile
+ */
+export function parseProfileInput(input: string): ParsedProfileUrl {
+  const trimmed = input.trim();
+
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed)) {
+    return parseProfileUrl(trimmed);
+  }
+
+  return parseProfileUrl(trimmed.includes('/') ? `https://${trimmed}` : `https://vsco.co/${trimmed}`);
+}